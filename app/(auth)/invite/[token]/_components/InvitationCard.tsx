@@ -0,0 +1,241 @@
+"use client";
+
+import type { InvitationType } from "@/app/data/organization/get-invitation";
+import { Button, buttonVariants } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { tryCatch } from "@/hooks/try-catch";
+import { authClient, organizationApi } from "@/lib/auth-client";
+import { Building2, Loader2, Send } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+export type InvitationState =
+  | "not_found"
+  | "accepted"
+  | "cancelled"
+  | "expired"
+  | "signed_out"
+  | "email_mismatch"
+  | "already_member"
+  | "ready";
+
+const stateMessages: Record<
+  Exclude<InvitationState, "signed_out" | "ready">,
+  { title: string; description: string }
+> = {
+  not_found: {
+    title: "Invitation not found",
+    description:
+      "This invitation link is invalid. Please ask your organization admin for a new one.",
+  },
+  accepted: {
+    title: "Invitation already accepted",
+    description: "This invitation has already been used.",
+  },
+  cancelled: {
+    title: "Invitation cancelled",
+    description:
+      "This invitation was cancelled by the organization. Please ask your organization admin for a new one.",
+  },
+  expired: {
+    title: "Invitation expired",
+    description:
+      "This invitation has expired. Please ask your organization admin to send you a new one.",
+  },
+  email_mismatch: {
+    title: "Wrong account",
+    description:
+      "You are signed in with a different email address than the one this invitation was sent to.",
+  },
+  already_member: {
+    title: "You're already a member",
+    description: "Your account already belongs to this organization.",
+  },
+};
+
+interface iAppProps {
+  token: string;
+  state: InvitationState;
+  invitation: InvitationType | null;
+  currentEmail?: string;
+}
+
+export function InvitationCard({
+  token,
+  state,
+  invitation,
+  currentEmail,
+}: iAppProps) {
+  const router = useRouter();
+  const [pending, startTransition] = useTransition();
+
+  function signInToAccept() {
+    if (!invitation) return;
+
+    startTransition(async () => {
+      const response = await fetch(
+        "/api/auth/email-otp/send-verification-otp",
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            email: invitation.email,
+            type: "sign-in",
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        toast.error("Failed to send verification email");
+        return;
+      }
+
+      toast.success("Verification code sent to your email!");
+      router.push(
+        `/verify-request?email=${encodeURIComponent(
+          invitation.email
+        )}&redirectTo=${encodeURIComponent(`/invite/${token}`)}`
+      );
+    });
+  }
+
+  function acceptInvitation() {
+    startTransition(async () => {
+      const { data: result, error } = await tryCatch(
+        organizationApi.acceptInvitation({ token })
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success(`Welcome to ${invitation?.organization.name}!`);
+
+      if (result.failedCourses?.length > 0) {
+        toast.info(
+          "Some courses from your invitation are not available yet. Your admin has been notified."
+        );
+      }
+      router.push("/dashboard");
+    });
+  }
+
+  function switchAccount() {
+    startTransition(async () => {
+      await authClient.signOut({
+        fetchOptions: {
+          onSuccess: () => {
+            router.refresh();
+          },
+          onError: () => {
+            toast.error("Failed to sign out");
+          },
+        },
+      });
+    });
+  }
+
+  if (!invitation || (state !== "signed_out" && state !== "ready")) {
+    const message = stateMessages[state as keyof typeof stateMessages];
+
+    return (
+      <Card>
+        <CardHeader className="text-center">
+          <CardTitle className="text-xl">{message.title}</CardTitle>
+          <CardDescription>{message.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3">
+          {state === "email_mismatch" && invitation && (
+            <>
+              <p className="text-sm text-center text-muted-foreground">
+                Invitation for <strong>{invitation.email}</strong>, signed in as{" "}
+                <strong>{currentEmail}</strong>.
+              </p>
+              <Button onClick={switchAccount} disabled={pending}>
+                {pending ? (
+                  <>
+                    <Loader2 className="size-4 animate-spin" />
+                    <span>Signing out...</span>
+                  </>
+                ) : (
+                  "Sign out and switch account"
+                )}
+              </Button>
+            </>
+          )}
+          <Link href="/" className={buttonVariants({ variant: "outline" })}>
+            Go to homepage
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="text-center">
+        <div className="mx-auto flex size-12 items-center justify-center rounded-full bg-primary/10">
+          <Building2 className="size-6 text-primary" />
+        </div>
+        <CardTitle className="text-xl">
+          Join {invitation.organization.name}
+        </CardTitle>
+        <CardDescription>
+          {invitation.sender.name || invitation.sender.email} invited{" "}
+          <strong>{invitation.email}</strong> to join as{" "}
+          {invitation.role.toLowerCase()}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {invitation.message && (
+          <blockquote className="rounded-lg bg-muted p-4 text-sm italic">
+            {invitation.message}
+          </blockquote>
+        )}
+
+        {state === "signed_out" ? (
+          <Button onClick={signInToAccept} disabled={pending}>
+            {pending ? (
+              <>
+                <Loader2 className="size-4 animate-spin" />
+                <span>Sending...</span>
+              </>
+            ) : (
+              <>
+                <Send className="size-4" />
+                <span>Sign in with email to accept</span>
+              </>
+            )}
+          </Button>
+        ) : (
+          <Button onClick={acceptInvitation} disabled={pending}>
+            {pending ? (
+              <>
+                <Loader2 className="size-4 animate-spin" />
+                <span>Joining...</span>
+              </>
+            ) : (
+              "Accept invitation"
+            )}
+          </Button>
+        )}
+
+        <p className="text-center text-xs text-muted-foreground">
+          This invitation expires on{" "}
+          {new Date(invitation.expiresAt).toLocaleDateString()}.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
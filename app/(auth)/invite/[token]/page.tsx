@@ -0,0 +1,55 @@
+import { getInvitationByToken } from "@/app/data/organization/get-invitation";
+import { auth } from "@/lib/auth";
+import { isOrganizationMember } from "@/lib/organization-membership";
+import { headers } from "next/headers";
+import { InvitationCard, InvitationState } from "./_components/InvitationCard";
+
+type Params = Promise<{ token: string }>;
+
+export default async function InvitationPage({ params }: { params: Params }) {
+  const { token } = await params;
+
+  const [invitation, session] = await Promise.all([
+    getInvitationByToken(token),
+    auth.api.getSession({
+      headers: await headers(),
+    }),
+  ]);
+
+  if (!invitation) {
+    return <InvitationCard token={token} state="not_found" invitation={null} />;
+  }
+
+  let state: InvitationState;
+
+  if (invitation.status === "ACCEPTED") {
+    state = "accepted";
+  } else if (invitation.status === "REJECTED") {
+    state = "cancelled";
+  } else if (
+    invitation.status === "EXPIRED" ||
+    invitation.expiresAt < new Date()
+  ) {
+    state = "expired";
+  } else if (!session) {
+    state = "signed_out";
+  } else if (session.user.email !== invitation.email) {
+    state = "email_mismatch";
+  } else {
+    const isMember = await isOrganizationMember(
+      invitation.organizationId,
+      session.user.id
+    );
+
+    state = isMember ? "already_member" : "ready";
+  }
+
+  return (
+    <InvitationCard
+      token={token}
+      state={state}
+      invitation={invitation}
+      currentEmail={session?.user.email}
+    />
+  );
+}
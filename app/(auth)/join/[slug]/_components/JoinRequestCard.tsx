@@ -0,0 +1,234 @@
+"use client";
+
+import { Button, buttonVariants } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import { Building2, Clock, Loader2, Send } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+export type JoinRequestState =
+  | "not_found"
+  | "signed_out"
+  | "member"
+  | "pending"
+  | "ready";
+
+const stateMessages: Record<
+  "not_found" | "member",
+  { title: string; description: string }
+> = {
+  not_found: {
+    title: "Organization not found",
+    description:
+      "This organization does not exist or is not accepting new members.",
+  },
+  member: {
+    title: "You're already a member",
+    description: "Your account already belongs to this organization.",
+  },
+};
+
+interface iAppProps {
+  state: JoinRequestState;
+  organization: {
+    name: string;
+    slug: string;
+    description: string | null;
+  } | null;
+  requestId?: string;
+}
+
+export function JoinRequestCard({ state, organization, requestId }: iAppProps) {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [message, setMessage] = useState("");
+  const [pending, startTransition] = useTransition();
+
+  function signInToRequest() {
+    if (!organization) return;
+
+    startTransition(async () => {
+      const response = await fetch(
+        "/api/auth/email-otp/send-verification-otp",
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            email: email,
+            type: "sign-in",
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        toast.error("Failed to send verification email");
+        return;
+      }
+
+      toast.success("Verification code sent to your email!");
+      router.push(
+        `/verify-request?email=${encodeURIComponent(
+          email
+        )}&redirectTo=${encodeURIComponent(`/join/${organization.slug}`)}`
+      );
+    });
+  }
+
+  function requestToJoin() {
+    if (!organization) return;
+
+    startTransition(async () => {
+      const { error } = await tryCatch(
+        organizationApi.requestToJoin({
+          slug: organization.slug,
+          message: message.trim() || undefined,
+        })
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success("Join request sent! You will get an email once reviewed.");
+      router.refresh();
+    });
+  }
+
+  function cancelRequest() {
+    if (!requestId) return;
+
+    startTransition(async () => {
+      const { error } = await tryCatch(
+        organizationApi.cancelJoinRequest(requestId)
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success("Join request cancelled");
+      router.refresh();
+    });
+  }
+
+  if (!organization || state === "not_found" || state === "member") {
+    const message = stateMessages[state as keyof typeof stateMessages];
+
+    return (
+      <Card>
+        <CardHeader className="text-center">
+          <CardTitle className="text-xl">{message.title}</CardTitle>
+          <CardDescription>{message.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3">
+          <Link
+            href={state === "member" ? "/dashboard" : "/"}
+            className={buttonVariants({ variant: "outline" })}
+          >
+            {state === "member" ? "Go to dashboard" : "Go to homepage"}
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="text-center">
+        <div className="mx-auto flex size-12 items-center justify-center rounded-full bg-primary/10">
+          {state === "pending" ? (
+            <Clock className="size-6 text-primary" />
+          ) : (
+            <Building2 className="size-6 text-primary" />
+          )}
+        </div>
+        <CardTitle className="text-xl">
+          {state === "pending"
+            ? "Request pending"
+            : `Join ${organization.name}`}
+        </CardTitle>
+        <CardDescription>
+          {state === "pending"
+            ? `An admin of ${organization.name} will review your request. You will get an email once a decision is made.`
+            : organization.description ||
+              "Ask the organization admins to add you as a member."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {state === "signed_out" && (
+          <>
+            <Input
+              type="email"
+              placeholder="m@example.com"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+            />
+            <Button onClick={signInToRequest} disabled={pending || !email}>
+              {pending ? (
+                <>
+                  <Loader2 className="size-4 animate-spin" />
+                  <span>Sending...</span>
+                </>
+              ) : (
+                <>
+                  <Send className="size-4" />
+                  <span>Sign in with email to continue</span>
+                </>
+              )}
+            </Button>
+          </>
+        )}
+
+        {state === "ready" && (
+          <>
+            <Textarea
+              placeholder="Add a message for the admins (optional)"
+              maxLength={500}
+              value={message}
+              onChange={(event) => setMessage(event.target.value)}
+            />
+            <Button onClick={requestToJoin} disabled={pending}>
+              {pending ? (
+                <>
+                  <Loader2 className="size-4 animate-spin" />
+                  <span>Sending...</span>
+                </>
+              ) : (
+                "Request to join"
+              )}
+            </Button>
+          </>
+        )}
+
+        {state === "pending" && (
+          <Button variant="outline" onClick={cancelRequest} disabled={pending}>
+            {pending ? (
+              <>
+                <Loader2 className="size-4 animate-spin" />
+                <span>Cancelling...</span>
+              </>
+            ) : (
+              "Cancel request"
+            )}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,77 @@
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { isOrganizationMember } from "@/lib/organization-membership";
+import { isOrganizationActive } from "@/lib/organization-status";
+import { headers } from "next/headers";
+import {
+  JoinRequestCard,
+  JoinRequestState,
+} from "./_components/JoinRequestCard";
+
+type Params = Promise<{ slug: string }>;
+
+export default async function JoinOrganizationPage({
+  params,
+}: {
+  params: Params;
+}) {
+  const { slug } = await params;
+
+  const [organization, session] = await Promise.all([
+    prisma.organization.findUnique({
+      where: { slug },
+      select: {
+        id: true,
+        name: true,
+        slug: true,
+        description: true,
+        status: true,
+        trialEndsAt: true,
+      },
+    }),
+    auth.api.getSession({
+      headers: await headers(),
+    }),
+  ]);
+
+  if (!organization || !isOrganizationActive(organization)) {
+    return <JoinRequestCard state="not_found" organization={null} />;
+  }
+
+  let state: JoinRequestState;
+  let requestId: string | undefined;
+
+  if (!session) {
+    state = "signed_out";
+  } else {
+    const [isMember, joinRequest] = await Promise.all([
+      isOrganizationMember(organization.id, session.user.id),
+      prisma.organizationJoinRequest.findUnique({
+        where: {
+          organizationId_userId: {
+            organizationId: organization.id,
+            userId: session.user.id,
+          },
+        },
+        select: { id: true, status: true },
+      }),
+    ]);
+
+    if (isMember) {
+      state = "member";
+    } else if (joinRequest?.status === "PENDING") {
+      state = "pending";
+      requestId = joinRequest.id;
+    } else {
+      state = "ready";
+    }
+  }
+
+  return (
+    <JoinRequestCard
+      state={state}
+      organization={organization}
+      requestId={requestId}
+    />
+  );
+}
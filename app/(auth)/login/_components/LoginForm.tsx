@@ -10,7 +10,7 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { authClient } from "@/lib/auth-client";
+import { authClient, organizationApi } from "@/lib/auth-client";
 
 import { Building2, GithubIcon, Loader, Loader2, Send } from "lucide-react";
 import Link from "next/link";
@@ -18,12 +18,25 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { useState, useTransition, useEffect } from "react";
 import { toast } from "sonner";
 
+const ssoSignInErrors: Record<string, string> = {
+  access_denied: "Sign-in was cancelled at your identity provider",
+  organization_inactive: "Your organization is not active",
+  seat_limit_reached:
+    "Your organization has no free seats, please contact your administrator",
+  email_domain_not_allowed:
+    "Your email domain is not allowed for this organization",
+  account_link_required:
+    "An account with this email already exists. Confirm it is yours with an email code to link single sign-on",
+};
+
 export function LoginForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [githubPending, startGithubTransition] = useTransition();
   const [emailPending, startEmailTransition] = useTransition();
   const [email, setEmail] = useState("");
+  // Existing accounts confirm linking single sign-on with an email code
+  const [linkSso, setLinkSso] = useState(false);
 
   // Check if user came from email verification
   useEffect(() => {
@@ -37,6 +50,19 @@ export function LoginForm() {
     if (isVerified && urlEmail) {
       toast.success("Email verified! Please sign in to continue.");
     }
+
+    // Set by the single sign-on callback when the IdP sign-in failed
+    const ssoError = searchParams.get("error");
+
+    if (ssoError === "account_link_required") {
+      setLinkSso(true);
+    }
+
+    if (ssoError) {
+      toast.error(
+        ssoSignInErrors[ssoError] ?? "Single sign-on failed, please try again"
+      );
+    }
   }, [searchParams]);
 
   async function signInWithGithub() {
@@ -64,6 +90,16 @@ export function LoginForm() {
 
     startEmailTransition(async () => {
       try {
+        // Organizations with single sign-on handle their own domains
+        const sso = linkSso
+          ? null
+          : await organizationApi.signInWithSso(email, "/");
+
+        if (sso) {
+          window.location.href = sso.url;
+          return;
+        }
+
         // Use the correct method from better-auth client
         const response = await fetch(
           "/api/auth/email-otp/send-verification-otp",
@@ -90,7 +126,11 @@ export function LoginForm() {
 
         if (data.success !== false) {
           toast.success("Verification code sent to your email!");
-          router.push(`/verify-request?email=${encodeURIComponent(email)}`);
+          router.push(
+            `/verify-request?email=${encodeURIComponent(email)}${
+              linkSso ? "&linkSso=true" : ""
+            }`
+          );
         } else {
           throw new Error(data.message || "Failed to send verification email");
         }
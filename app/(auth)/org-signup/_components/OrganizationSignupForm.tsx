@@ -60,6 +60,7 @@ export function OrganizationSignupForm() {
       contactPhone: "",
       website: "",
       maxSeats: 5,
+      brandColor: "",
       acceptTerms: false,
     },
   });
@@ -94,6 +95,7 @@ export function OrganizationSignupForm() {
       "organizationName",
       "organizationSlug",
       "maxSeats",
+      "brandColor",
     ];
     const isValid = await form.trigger(fields);
     if (isValid) {
@@ -294,7 +296,8 @@ export function OrganizationSignupForm() {
                           />
                         </FormControl>
                         <FormDescription>
-                          How many users will need access?
+                          How many users will need access? The trial includes up
+                          to 5 seats, add more when you subscribe.
                         </FormDescription>
                         <FormMessage />
                       </FormItem>
@@ -302,6 +305,37 @@ export function OrganizationSignupForm() {
                   />
                 </div>
 
+                <FormField
+                  control={form.control}
+                  name="brandColor"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Brand Color</FormLabel>
+                      <div className="flex gap-2">
+                        <Input
+                          type="color"
+                          className="w-14 p-1"
+                          value={field.value || "#000000"}
+                          onChange={field.onChange}
+                          disabled={pending}
+                        />
+                        <FormControl>
+                          <Input
+                            placeholder="#4f46e5"
+                            {...field}
+                            disabled={pending}
+                          />
+                        </FormControl>
+                      </div>
+                      <FormDescription>
+                        Optional. Your members see this color instead of the
+                        PrecuityAI theme. You can add a logo later.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="flex justify-between">
                   <Link href="/login">
                     <Button type="button" variant="ghost" disabled={pending}>
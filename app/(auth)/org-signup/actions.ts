@@ -11,6 +11,8 @@ import { request } from "@arcjet/next";
 import { resend } from "@/lib/resend";
 import { v4 as uuidv4 } from "uuid";
 import { OrganizationRole, OrganizationStatus } from "@/lib/generated/prisma";
+import { getContrastColor } from "@/lib/organization-branding";
+import { TRIAL_SEATS } from "@/lib/organization-trials";
 
 const aj = arcjet.withRule(
   fixedWindow({
@@ -111,7 +113,9 @@ export async function createOrganizationWithAdmin(
           contactEmail: data.contactEmail || data.adminEmail,
           contactPhone: data.contactPhone,
           website: data.website,
-          maxSeats: data.maxSeats,
+          brandColor: data.brandColor || null,
+          // Trials never start with more seats than the trial includes
+          maxSeats: Math.min(data.maxSeats, TRIAL_SEATS),
           ownerId: userId,
           status: OrganizationStatus.TRIAL,
           trialEndsAt: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // 14 days trial
@@ -121,13 +125,12 @@ export async function createOrganizationWithAdmin(
         },
       });
 
-      // Update the user with organization details
-      await tx.user.update({
-        where: { id: userId },
+      // Make the user the owner of the organization
+      await tx.organizationMembership.create({
         data: {
           organizationId: organization.id,
-          organizationRole: OrganizationRole.OWNER,
-          joinedOrganizationAt: new Date(),
+          userId: userId,
+          role: OrganizationRole.OWNER,
         },
       });
 
@@ -153,7 +156,7 @@ export async function createOrganizationWithAdmin(
           entityId: organization.id,
           metadata: {
             createdBy: "signup",
-            initialSeats: data.maxSeats,
+            initialSeats: organization.maxSeats,
           },
         },
       });
@@ -161,6 +164,15 @@ export async function createOrganizationWithAdmin(
       return { organization, user };
     });
 
+    // Welcome email in the brand color picked during signup
+    const brandColor = data.brandColor || "#667eea";
+    const headerBackground = data.brandColor
+      ? data.brandColor
+      : "linear-gradient(135deg, #667eea 0%, #764ba2 100%)";
+    const headerColor = data.brandColor
+      ? getContrastColor(data.brandColor)
+      : "white";
+
     // Send welcome email with verification code
     await resend.emails.send({
       from: "PrecuityAI <cristian@prodiusenterprise.com>",
@@ -173,11 +185,11 @@ export async function createOrganizationWithAdmin(
             <style>
               body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
               .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-              .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center; }
+              .header { background: ${headerBackground}; color: ${headerColor}; padding: 30px; border-radius: 10px 10px 0 0; text-align: center; }
               .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
-              .verification-code { background: #fff; border: 2px dashed #667eea; padding: 20px; text-align: center; font-size: 32px; font-weight: bold; letter-spacing: 5px; margin: 20px 0; border-radius: 8px; }
-              .button { display: inline-block; padding: 12px 30px; background: #667eea; color: white; text-decoration: none; border-radius: 5px; margin-top: 20px; }
-              .info-box { background: #e7f3ff; border-left: 4px solid #667eea; padding: 15px; margin: 20px 0; border-radius: 4px; }
+              .verification-code { background: #fff; border: 2px dashed ${brandColor}; padding: 20px; text-align: center; font-size: 32px; font-weight: bold; letter-spacing: 5px; margin: 20px 0; border-radius: 8px; }
+              .button { display: inline-block; padding: 12px 30px; background: ${brandColor}; color: ${headerColor}; text-decoration: none; border-radius: 5px; margin-top: 20px; }
+              .info-box { background: #e7f3ff; border-left: 4px solid ${brandColor}; padding: 15px; margin: 20px 0; border-radius: 4px; }
               .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #666; }
             </style>
           </head>
@@ -212,7 +224,9 @@ export async function createOrganizationWithAdmin(
                     data.organizationName
                   }</li>
                   <li><strong>URL Slug:</strong> ${data.organizationSlug}</li>
-                  <li><strong>Available Seats:</strong> ${data.maxSeats}</li>
+                  <li><strong>Available Seats:</strong> ${
+                    result.organization.maxSeats
+                  }</li>
                   <li><strong>Trial Period:</strong> 14 days (Full access to all features)</li>
                 </ul>
                 
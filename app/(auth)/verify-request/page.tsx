@@ -13,7 +13,7 @@ import {
   InputOTPGroup,
   InputOTPSlot,
 } from "@/components/ui/input-otp";
-import { authClient } from "@/lib/auth-client";
+import { authClient, organizationApi } from "@/lib/auth-client";
 import { Loader2, RefreshCw } from "lucide-react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { Suspense, useState, useTransition } from "react";
@@ -35,6 +35,8 @@ function VerifyRequest() {
   const params = useSearchParams();
   const email = params.get("email") as string;
   const isOrganizationSignup = params.get("org") === "true";
+  const redirectTo = params.get("redirectTo");
+  const linkSso = params.get("linkSso") === "true";
   const isOtpCompleted = otp.length === 6;
 
   async function verifyOtp() {
@@ -86,7 +88,7 @@ function VerifyRequest() {
           // Regular email OTP verification for sign-in
           try {
             // Direct API call for better error handling
-            const response = await fetch("/api/auth/email-otp/verify-otp", {
+            const response = await fetch("/api/auth/sign-in/email-otp", {
               method: "POST",
               headers: {
                 "Content-Type": "application/json",
@@ -107,9 +109,29 @@ function VerifyRequest() {
 
             const data = await response.json();
 
-            if (data.session) {
+            if (data.token) {
               toast.success("Successfully signed in!");
-              router.push("/dashboard");
+
+              // Signed in to the existing account, now link it to the IdP
+              if (linkSso) {
+                const sso = await organizationApi.signInWithSso(
+                  email,
+                  "/dashboard",
+                  true
+                );
+
+                if (sso) {
+                  window.location.href = sso.url;
+                  return;
+                }
+              }
+
+              // Only follow relative redirects, e.g. back to an invitation
+              router.push(
+                redirectTo?.startsWith("/") && !redirectTo.startsWith("//")
+                  ? redirectTo
+                  : "/dashboard"
+              );
             } else {
               throw new Error("No session created");
             }
@@ -6,6 +6,8 @@ import Link from "next/link";
 import Logo from "@/public/logo.png";
 import { ThemeToggle } from "@/components/ui/themeToggle";
 import { authClient } from "@/lib/auth-client";
+import { useOrganizationBranding } from "@/hooks/use-organization-branding";
+import { getBrandingStyle } from "@/lib/organization-branding";
 import { buttonVariants } from "@/components/ui/button";
 import { UserDropdown } from "./UserDropdown";
 
@@ -17,12 +19,27 @@ const navigationItems = [
 
 export function Navbar() {
   const { data: session, isPending } = authClient.useSession();
+  const branding = useOrganizationBranding(session?.user.id);
+
   return (
-    <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur-[backdrop-filter]:bg-background/60">
+    <header
+      className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur-[backdrop-filter]:bg-background/60"
+      style={getBrandingStyle(branding)}
+    >
       <div className="container flex min-h-16 items-center mx-auto px-4 md:px-6 lg:px-8">
         <Link href="/" className="flex items-center space-x-2 mr-4">
-          <Image src={Logo} alt="Logo" className="size-9" />
-          <span className="font-bold">Precuity AI.</span>
+          {branding?.logoUrl ? (
+            <Image
+              src={branding.logoUrl}
+              alt={branding.name}
+              width={36}
+              height={36}
+              className="size-9 object-contain"
+            />
+          ) : (
+            <Image src={Logo} alt="Logo" className="size-9" />
+          )}
+          <span className="font-bold">{branding?.name ?? "Precuity AI."}</span>
         </Link>
 
         {/* Desktop navigation */}
@@ -21,6 +21,7 @@ import {
 import Link from "next/link";
 
 import { useSignOut } from "@/hooks/use-singout";
+import { OrganizationSwitcher } from "@/components/general/OrganizationSwitcher";
 
 interface iAppProps {
   name: string;
@@ -56,6 +57,7 @@ export function UserDropdown({ email, name, image }: iAppProps) {
           </span>
         </DropdownMenuLabel>
         <DropdownMenuSeparator />
+        <OrganizationSwitcher />
         <DropdownMenuGroup>
           <DropdownMenuItem asChild>
             <Link href="/">
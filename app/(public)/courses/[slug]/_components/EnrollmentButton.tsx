@@ -1,19 +1,27 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { tryCatch } from "@/hooks/try-catch";
-import { useTransition } from "react";
+import { useState, useTransition } from "react";
 import { enrollInCourseAction } from "../actions";
 import { toast } from "sonner";
 import { Loader2 } from "lucide-react";
 
-export function EnrollmentButton({ courseId }: { courseId: string }) {
+export function EnrollmentButton({
+  courseId,
+  isFree,
+}: {
+  courseId: string;
+  isFree: boolean;
+}) {
   const [pending, startTransition] = useTransition();
+  const [couponCode, setCouponCode] = useState("");
 
   function onSubmit() {
     startTransition(async () => {
       const { data: result, error } = await tryCatch(
-        enrollInCourseAction(courseId)
+        enrollInCourseAction(courseId, couponCode || undefined)
       );
 
       if (error) {
@@ -30,15 +38,27 @@ export function EnrollmentButton({ courseId }: { courseId: string }) {
   }
 
   return (
-    <Button onClick={onSubmit} disabled={pending} className="w-full">
-      {pending ? (
-        <>
-          <Loader2 className="size-4 animate-spin" />
-          Loading...
-        </>
-      ) : (
-        "Enroll Now!"
+    <div className="space-y-3">
+      {!isFree && (
+        <Input
+          placeholder="Coupon code (optional)"
+          value={couponCode}
+          onChange={(event) => setCouponCode(event.target.value.toUpperCase())}
+          disabled={pending}
+        />
       )}
-    </Button>
+      <Button onClick={onSubmit} disabled={pending} className="w-full">
+        {pending ? (
+          <>
+            <Loader2 className="size-4 animate-spin" />
+            Loading...
+          </>
+        ) : isFree ? (
+          "Enroll for Free"
+        ) : (
+          "Enroll Now!"
+        )}
+      </Button>
+    </div>
   );
 }
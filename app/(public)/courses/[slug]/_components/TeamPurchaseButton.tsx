@@ -0,0 +1,160 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { tryCatch } from "@/hooks/try-catch";
+import type { PurchasingOrganizationType } from "@/app/data/organization/get-purchasing-organization";
+import {
+  formatCents,
+  getLicenseQuote,
+  LicensePricingCourse,
+} from "@/lib/license-pricing";
+import {
+  courseLicensePurchaseSchema,
+  CourseLicensePurchaseSchemaType,
+} from "@/lib/zodSchemas";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, Users } from "lucide-react";
+import { useState, useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { purchaseCourseLicenseAction } from "../actions";
+
+interface iAppProps {
+  courseId: string;
+  course: LicensePricingCourse;
+  organization: PurchasingOrganizationType;
+}
+
+export function TeamPurchaseButton({
+  courseId,
+  course,
+  organization,
+}: iAppProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [pending, startTransition] = useTransition();
+
+  const form = useForm<CourseLicensePurchaseSchemaType>({
+    resolver: zodResolver(courseLicensePurchaseSchema),
+    defaultValues: {
+      seats: course.minimumBulkQuantity ?? 5,
+    },
+  });
+
+  const seats = Number(form.watch("seats")) || 0;
+  const quote = getLicenseQuote(course, seats);
+
+  function onSubmit(values: CourseLicensePurchaseSchemaType) {
+    startTransition(async () => {
+      const { data: result, error } = await tryCatch(
+        purchaseCourseLicenseAction(courseId, values)
+      );
+
+      if (error) {
+        toast.error("An unexpected error occurred. Please try again.");
+        return;
+      }
+
+      if (result.status === "success") {
+        toast.success(result.message);
+      } else if (result.status === "error") {
+        toast.error(result.message);
+      }
+    });
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full mt-3">
+          <Users className="size-4" />
+          Buy for my team
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Buy seats for {organization.name}</DialogTitle>
+          <DialogDescription>
+            Purchase a course license and assign the seats to your members.
+            {course.bulkDiscountPercentage && course.minimumBulkQuantity
+              ? ` Save ${course.bulkDiscountPercentage}% when buying ${course.minimumBulkQuantity} seats or more.`
+              : null}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form className="space-y-6" onSubmit={form.handleSubmit(onSubmit)}>
+            <FormField
+              control={form.control}
+              name="seats"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Seats</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} {...field} />
+                  </FormControl>
+                  {organization.license && (
+                    <FormDescription>
+                      Your organization already holds{" "}
+                      {organization.license.seats} seats (
+                      {organization.license.usedSeats} assigned). New seats will
+                      be added to the existing license.
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2 rounded-lg bg-muted p-4 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Price per seat</span>
+                <span>{formatCents(quote.unitAmount)}</span>
+              </div>
+              {quote.discountPercentage > 0 && (
+                <div className="flex items-center justify-between text-green-600">
+                  <span>Bulk discount</span>
+                  <span>-{quote.discountPercentage}%</span>
+                </div>
+              )}
+              <div className="flex items-center justify-between font-semibold">
+                <span>Total</span>
+                <span>{formatCents(quote.totalAmount)}</span>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button disabled={pending} type="submit" className="w-full">
+                {pending ? (
+                  <>
+                    <Loader2 className="size-4 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  "Continue to checkout"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
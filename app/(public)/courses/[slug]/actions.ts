@@ -1,11 +1,22 @@
 "use server";
 
+import { hasCourseAccess } from "@/app/data/course/has-course-access";
+import { getCurrentMembership } from "@/app/data/user/get-current-membership";
 import { requireUser } from "@/app/data/user/require-user";
 import arcjet, { fixedWindow } from "@/lib/arcjet";
+import { findRedeemableCoupon } from "@/lib/course-coupons";
 import { prisma } from "@/lib/db";
 import { env } from "@/lib/env";
+import { OrganizationRole } from "@/lib/generated/prisma";
+import { getLicenseQuote } from "@/lib/license-pricing";
+import { revokeLicenseSeat } from "@/lib/license-seats";
+import { getOrganizationStripeCustomerId } from "@/lib/organization-billing";
 import { stripe } from "@/lib/stripe";
 import { ApiResponse } from "@/lib/types";
+import {
+  courseLicensePurchaseSchema,
+  CourseLicensePurchaseSchemaType,
+} from "@/lib/zodSchemas";
 import { request } from "@arcjet/next";
 import { redirect } from "next/navigation";
 import Stripe from "stripe";
@@ -19,7 +30,8 @@ const aj = arcjet.withRule(
 );
 
 export async function enrollInCourseAction(
-  courseId: string
+  courseId: string,
+  couponCode?: string
 ): Promise<ApiResponse | never> {
   const user = await requireUser();
 
@@ -39,12 +51,23 @@ export async function enrollInCourseAction(
     const course = await prisma.course.findUnique({
       where: {
         id: courseId,
+        status: "Published",
       },
       select: {
         id: true,
         title: true,
         price: true,
         slug: true,
+        stripePriceId: true,
+        prices: {
+          where: {
+            archivedAt: null,
+          },
+          select: {
+            id: true,
+            stripePriceId: true,
+          },
+        },
       },
     });
 
@@ -55,109 +78,363 @@ export async function enrollInCourseAction(
       };
     }
 
-    let stripeCustomerId: string;
-    const userWithStripeCustomerId = await prisma.user.findUnique({
+    const existingEnrollment = await prisma.enrollment.findUnique({
       where: {
-        id: user.id,
+        userId_courseId: {
+          userId: user.id,
+          courseId: course.id,
+        },
       },
       select: {
-        stripeCustomerId: true,
+        status: true,
+        enrollmentType: true,
+        organizationId: true,
       },
     });
 
-    if (userWithStripeCustomerId?.stripeCustomerId) {
-      stripeCustomerId = userWithStripeCustomerId.stripeCustomerId;
-    } else {
-      const customer = await stripe.customers.create({
-        email: user.email,
-        name: user.name,
-        metadata: {
-          userId: user.id,
-        },
-      });
-
-      stripeCustomerId = customer.id;
+    const hasAccess =
+      existingEnrollment?.status === "Active" &&
+      (await hasCourseAccess(user.id, course.id));
 
-      await prisma.user.update({
-        where: {
-          id: user.id,
-        },
-        data: {
-          stripeCustomerId: stripeCustomerId,
-        },
+    // A license seat the learner lost access to, e.g. after leaving the
+    // organization, goes back to the license before buying individually
+    if (
+      !hasAccess &&
+      existingEnrollment?.enrollmentType === "ORGANIZATION" &&
+      existingEnrollment.organizationId
+    ) {
+      await revokeLicenseSeat({
+        organizationId: existingEnrollment.organizationId,
+        courseId: course.id,
+        userId: user.id,
+        revokedBy: user.id,
       });
     }
 
-    const result = await prisma.$transaction(async (tx) => {
-      const existingEnrollment = await tx.enrollment.findUnique({
+    // Free courses skip Stripe and give access right away. An enrollment the
+    // learner already has access to, e.g. a license seat, is left as it is.
+    if (hasAccess) {
+      checkoutUrl = `/dashboard/${course.slug}`;
+    } else if (course.price === 0) {
+      await prisma.enrollment.upsert({
         where: {
           userId_courseId: {
             userId: user.id,
-            courseId: courseId,
+            courseId: course.id,
           },
         },
-        select: {
-          status: true,
-          id: true,
+        // Refund and coupon state of an earlier purchase does not carry over
+        update: {
+          amount: 0,
+          status: "Active",
+          enrollmentType: "INDIVIDUAL",
+          organizationId: null,
+          couponId: null,
+          discountAmount: 0,
+          refundedAmount: 0,
+          cancelledAt: null,
+          disputedAt: null,
+        },
+        create: {
+          userId: user.id,
+          courseId: course.id,
+          amount: 0,
+          status: "Active",
         },
       });
 
-      if (existingEnrollment?.status === "Active") {
-        return {
-          status: "success",
-          message: "You are alredy enrolled in this Course",
-        };
+      checkoutUrl = `/dashboard/${course.slug}`;
+    } else {
+      let coupon = null;
+
+      if (couponCode?.trim()) {
+        const lookup = await findRedeemableCoupon(couponCode, course.id);
+
+        if (!lookup.success) {
+          return {
+            status: "error",
+            message: lookup.message,
+          };
+        }
+
+        coupon = lookup.coupon;
       }
 
-      let enrollment;
+      const coursePriceId =
+        course.prices.find(
+          (price) => price.stripePriceId === course.stripePriceId
+        )?.id ?? null;
+
+      let stripeCustomerId: string;
+      const userWithStripeCustomerId = await prisma.user.findUnique({
+        where: {
+          id: user.id,
+        },
+        select: {
+          stripeCustomerId: true,
+        },
+      });
+
+      if (userWithStripeCustomerId?.stripeCustomerId) {
+        stripeCustomerId = userWithStripeCustomerId.stripeCustomerId;
+      } else {
+        const customer = await stripe.customers.create({
+          email: user.email,
+          name: user.name,
+          metadata: {
+            userId: user.id,
+          },
+        });
+
+        stripeCustomerId = customer.id;
 
-      if (existingEnrollment) {
-        enrollment = await tx.enrollment.update({
+        await prisma.user.update({
           where: {
-            id: existingEnrollment.id,
+            id: user.id,
           },
           data: {
-            amount: course.price,
-            status: "Pending",
-            updatedAt: new Date(),
+            stripeCustomerId: stripeCustomerId,
           },
         });
-      } else {
-        enrollment = await tx.enrollment.create({
-          data: {
+      }
+
+      const result = await prisma.$transaction(async (tx) => {
+        const existingEnrollment = await tx.enrollment.findUnique({
+          where: {
+            userId_courseId: {
+              userId: user.id,
+              courseId: courseId,
+            },
+          },
+          select: {
+            status: true,
+            id: true,
+            enrollmentType: true,
+            organizationId: true,
+          },
+        });
+
+        // Organization enrollments without an organization grant no access
+        // and are replaced by the purchase
+        if (
+          existingEnrollment?.status === "Active" &&
+          (existingEnrollment.enrollmentType === "INDIVIDUAL" ||
+            existingEnrollment.organizationId)
+        ) {
+          return {
+            enrollment: null,
+            checkoutUrl: null,
+          };
+        }
+
+        let enrollment;
+
+        if (existingEnrollment) {
+          enrollment = await tx.enrollment.update({
+            where: {
+              id: existingEnrollment.id,
+            },
+            data: {
+              amount: course.price,
+              coursePriceId: coursePriceId,
+              couponId: coupon?.id ?? null,
+              status: "Pending",
+              enrollmentType: "INDIVIDUAL",
+              organizationId: null,
+              updatedAt: new Date(),
+            },
+          });
+        } else {
+          enrollment = await tx.enrollment.create({
+            data: {
+              userId: user.id,
+              courseId: course.id,
+              amount: course.price,
+              coursePriceId: coursePriceId,
+              couponId: coupon?.id ?? null,
+              status: "Pending",
+            },
+          });
+        }
+
+        const checkoutSession = await stripe.checkout.sessions.create({
+          customer: stripeCustomerId,
+          line_items: [
+            {
+              price: course.stripePriceId,
+              quantity: 1,
+            },
+          ],
+          ...(coupon
+            ? { discounts: [{ promotion_code: coupon.stripePromotionCodeId }] }
+            : {}),
+          mode: "payment",
+          success_url: `${env.BETTER_AUTH_URL}/payment/success`,
+          cancel_url: `${env.BETTER_AUTH_URL}/payment/cancel`,
+          metadata: {
             userId: user.id,
             courseId: course.id,
-            amount: course.price,
-            status: "Pending",
+            enrollmentId: enrollment.id,
           },
         });
-      }
 
-      const checkoutSession = await stripe.checkout.sessions.create({
-        customer: stripeCustomerId,
-        line_items: [
-          {
-            price: "price_1RdZcID8Vk9nDpV8ujyuM2C1",
-            quantity: 1,
-          },
-        ],
-        mode: "payment",
-        success_url: `${env.BETTER_AUTH_URL}/payment/success`,
-        cancel_url: `${env.BETTER_AUTH_URL}/payment/cancel`,
-        metadata: {
-          userId: user.id,
-          courseId: course.id,
-          enrollmentId: enrollment.id,
-        },
+        return {
+          enrollment: enrollment,
+          checkoutUrl: checkoutSession.url,
+        };
       });
 
+      if (!result.checkoutUrl) {
+        return {
+          status: "error",
+          message: "You are already enrolled in this course",
+        };
+      }
+
+      checkoutUrl = result.checkoutUrl;
+    }
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeError) {
+      return {
+        status: "error",
+        message: "Payment system error. Please try again later.",
+      };
+    }
+
+    return {
+      status: "error",
+      message: "Failed to enroll in course",
+    };
+  }
+
+  redirect(checkoutUrl);
+}
+
+export async function purchaseCourseLicenseAction(
+  courseId: string,
+  values: CourseLicensePurchaseSchemaType
+): Promise<ApiResponse | never> {
+  const user = await requireUser();
+
+  let checkoutUrl: string;
+  try {
+    const req = await request();
+    const decision = await aj.protect(req, {
+      fingerprint: user.id,
+    });
+
+    if (decision.isDenied()) {
+      return {
+        status: "error",
+        message: "You have been blocked",
+      };
+    }
+
+    const validation = courseLicensePurchaseSchema.safeParse(values);
+
+    if (!validation.success) {
+      return {
+        status: "error",
+        message: validation.error.errors[0].message || "Invalid seat count",
+      };
+    }
+
+    const { seats } = validation.data;
+
+    const membership = await getCurrentMembership();
+
+    if (!membership) {
+      return {
+        status: "error",
+        message: "You need to be part of an organization to buy for a team",
+      };
+    }
+
+    if (
+      membership.role !== OrganizationRole.OWNER &&
+      membership.role !== OrganizationRole.ADMIN
+    ) {
       return {
-        enrollment: enrollment,
-        checkoutUrl: checkoutSession.url,
+        status: "error",
+        message: "Only organization owners and admins can buy seats",
       };
+    }
+
+    const organization = membership.organization;
+
+    const course = await prisma.course.findUnique({
+      where: {
+        id: courseId,
+      },
+      select: {
+        id: true,
+        title: true,
+        price: true,
+        status: true,
+        allowOrganizationPurchase: true,
+        bulkDiscountPercentage: true,
+        minimumBulkQuantity: true,
+      },
     });
 
-    checkoutUrl = result.checkoutUrl as string;
+    if (!course || course.status !== "Published") {
+      return {
+        status: "error",
+        message: "Course not found",
+      };
+    }
+
+    if (!course.allowOrganizationPurchase) {
+      return {
+        status: "error",
+        message: "This course is not available for team purchase",
+      };
+    }
+
+    // Stripe cannot check out a zero amount, members enroll in free courses
+    // on their own
+    if (course.price === 0) {
+      return {
+        status: "error",
+        message: "Free courses need no team license",
+      };
+    }
+
+    const quote = getLicenseQuote(course, seats);
+
+    const stripeCustomerId = await getOrganizationStripeCustomerId(
+      organization,
+      user.email
+    );
+
+    const checkoutSession = await stripe.checkout.sessions.create({
+      customer: stripeCustomerId,
+      line_items: [
+        {
+          price_data: {
+            currency: "usd",
+            unit_amount: quote.unitAmount,
+            product_data: {
+              name: `${course.title} - Team License`,
+            },
+          },
+          quantity: quote.seats,
+        },
+      ],
+      mode: "payment",
+      success_url: `${env.BETTER_AUTH_URL}/payment/success`,
+      cancel_url: `${env.BETTER_AUTH_URL}/payment/cancel`,
+      metadata: {
+        type: "course_license",
+        userId: user.id,
+        organizationId: organization.id,
+        courseId: course.id,
+        seats: quote.seats.toString(),
+        unitAmount: quote.unitAmount.toString(),
+      },
+    });
+
+    checkoutUrl = checkoutSession.url as string;
   } catch (error) {
     if (error instanceof Stripe.errors.StripeError) {
       return {
@@ -168,7 +445,7 @@ export async function enrollInCourseAction(
 
     return {
       status: "error",
-      message: "Failed to enroll in course",
+      message: "Failed to start team purchase",
     };
   }
 
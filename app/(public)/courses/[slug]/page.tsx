@@ -22,6 +22,8 @@ import Image from "next/image";
 import { checkIfCourseBought } from "@/app/data/user/user-is-enrolled";
 import Link from "next/link";
 import { EnrollmentButton } from "./_components/EnrollmentButton";
+import { TeamPurchaseButton } from "./_components/TeamPurchaseButton";
+import { getPurchasingOrganization } from "@/app/data/organization/get-purchasing-organization";
 import { buttonVariants } from "@/components/ui/button";
 
 type Params = Promise<{ slug: string }>;
@@ -29,7 +31,10 @@ type Params = Promise<{ slug: string }>;
 export default async function SlugPage({ params }: { params: Params }) {
   const { slug } = await params;
   const course = await getIndividualCourse(slug);
-  const isEnrolled = await checkIfCourseBought(course.id);
+  const [isEnrolled, purchasingOrganization] = await Promise.all([
+    checkIfCourseBought(course.id),
+    getPurchasingOrganization(course.id),
+  ]);
 
   return (
     <div className="grid grid-cols-1 gap-8 lg:grid-cols-3 mt-5">
@@ -151,6 +156,18 @@ export default async function SlugPage({ params }: { params: Params }) {
                                 Lesson {lessonIndex + 1}
                               </p>
                             </div>
+
+                            {lesson.isFreePreview && (
+                              <Link
+                                className={buttonVariants({
+                                  variant: "outline",
+                                  size: "sm",
+                                })}
+                                href={`/courses/${slug}/preview/${lesson.id}`}
+                              >
+                                Free preview
+                              </Link>
+                            )}
                           </div>
                         ))}
                       </div>
@@ -171,10 +188,12 @@ export default async function SlugPage({ params }: { params: Params }) {
               <div className="flex items-center justify-between mb-6">
                 <span className="text-lg font-medium">Price:</span>
                 <span className="text-2xl font-bold text-primary">
-                  {new Intl.NumberFormat("en-US", {
-                    style: "currency",
-                    currency: "USD",
-                  }).format(course.price)}
+                  {course.price === 0
+                    ? "Free"
+                    : new Intl.NumberFormat("en-US", {
+                        style: "currency",
+                        currency: "USD",
+                      }).format(course.price)}
                 </span>
               </div>
 
@@ -267,12 +286,27 @@ export default async function SlugPage({ params }: { params: Params }) {
                   Watch Course
                 </Link>
               ) : (
-                <EnrollmentButton courseId={course.id} />
+                <EnrollmentButton
+                  courseId={course.id}
+                  isFree={course.price === 0}
+                />
               )}
 
-              <p className="mt-3 text-center text-xs text-muted-foreground">
-                30-day money-back guarantee
-              </p>
+              {purchasingOrganization &&
+                course.allowOrganizationPurchase &&
+                course.price > 0 && (
+                  <TeamPurchaseButton
+                    courseId={course.id}
+                    course={course}
+                    organization={purchasingOrganization}
+                  />
+                )}
+
+              {course.price > 0 && (
+                <p className="mt-3 text-center text-xs text-muted-foreground">
+                  30-day money-back guarantee
+                </p>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,90 @@
+import { getLessonPreview } from "@/app/data/course/get-lesson-preview";
+import { RenderDescription } from "@/components/rich-text-editor/RenderDescription";
+import { Badge } from "@/components/ui/badge";
+import { buttonVariants } from "@/components/ui/button";
+import { useConstructUrl } from "@/hooks/use-construct-url";
+import { ArrowLeft, BookIcon } from "lucide-react";
+import Link from "next/link";
+
+type Params = Promise<{ slug: string; lessonId: string }>;
+
+function VideoPlayer({
+  thumbnailKey,
+  videoKey,
+}: {
+  thumbnailKey: string | null;
+  videoKey: string | null;
+}) {
+  const videoUrl = useConstructUrl(videoKey ?? "");
+  const thumbnailUrl = useConstructUrl(thumbnailKey ?? "");
+
+  if (!videoKey) {
+    return (
+      <div className="aspect-video bg-muted rounded-lg flex flex-col items-center justify-center">
+        <BookIcon className="size-16 text-primary mx-auto mb-4" />
+        <p className="text-muted-foreground">
+          This lesson does not have a video yet
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="aspect-video bg-black rounded-lg relative overflow-hidden">
+      <video
+        className="w-full h-full object-cover"
+        controls
+        poster={thumbnailKey ? thumbnailUrl : undefined}
+      >
+        <source src={videoUrl} type="video/mp4" />
+        <source src={videoUrl} type="video/webm" />
+        <source src={videoUrl} type="video/ogg" />
+        Your browser does not support the video tag.
+      </video>
+    </div>
+  );
+}
+
+export default async function LessonPreviewPage({
+  params,
+}: {
+  params: Params;
+}) {
+  const { slug, lessonId } = await params;
+  const lesson = await getLessonPreview(slug, lessonId);
+
+  return (
+    <div className="mt-5 space-y-6">
+      <div className="flex items-center gap-4">
+        <Link
+          className={buttonVariants({ variant: "outline", size: "icon" })}
+          href={`/courses/${slug}`}
+        >
+          <ArrowLeft className="size-4" />
+        </Link>
+        <div>
+          <p className="text-sm text-muted-foreground">
+            {lesson.Chapter.Course.title} · {lesson.Chapter.title}
+          </p>
+          <h1 className="text-3xl font-bold tracking-tight">{lesson.title}</h1>
+        </div>
+        <Badge variant="secondary" className="ml-auto">
+          Free preview
+        </Badge>
+      </div>
+
+      <VideoPlayer
+        thumbnailKey={lesson.thumbnailKey}
+        videoKey={lesson.videoKey}
+      />
+
+      {lesson.description && (
+        <RenderDescription json={JSON.parse(lesson.description)} />
+      )}
+
+      <Link className={buttonVariants()} href={`/courses/${slug}`}>
+        Enroll to watch the full course
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { tryCatch } from "@/hooks/try-catch";
+import { Loader2 } from "lucide-react";
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { setCouponActive } from "../actions";
+
+export function CouponActiveButton({
+  couponId,
+  active,
+}: {
+  couponId: string;
+  active: boolean;
+}) {
+  const [pending, startTransition] = useTransition();
+
+  function onSubmit() {
+    startTransition(async () => {
+      const { data: result, error } = await tryCatch(
+        setCouponActive(couponId, !active)
+      );
+
+      if (error) {
+        toast.error("An unexpected error occurred. Please try again.");
+        return;
+      }
+
+      if (result.status === "success") {
+        toast.success(result.message);
+      } else if (result.status === "error") {
+        toast.error(result.message);
+      }
+    });
+  }
+
+  return (
+    <Button
+      size="sm"
+      variant={active ? "outline" : "default"}
+      onClick={onSubmit}
+      disabled={pending}
+    >
+      {pending ? (
+        <>
+          <Loader2 className="size-4 animate-spin" />
+          Saving...
+        </>
+      ) : active ? (
+        "Deactivate"
+      ) : (
+        "Activate"
+      )}
+    </Button>
+  );
+}
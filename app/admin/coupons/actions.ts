@@ -0,0 +1,104 @@
+"use server";
+
+import { requireAdmin } from "@/app/data/admin/require-admin";
+import {
+  createCourseCoupon,
+  setCourseCouponActive,
+} from "@/lib/course-coupons";
+import { prisma } from "@/lib/db";
+import { ApiResponse } from "@/lib/types";
+import { couponSchema, CouponSchemaType } from "@/lib/zodSchemas";
+import { revalidatePath } from "next/cache";
+import Stripe from "stripe";
+
+export async function createCoupon(
+  values: CouponSchemaType
+): Promise<ApiResponse> {
+  const session = await requireAdmin();
+
+  const validation = couponSchema.safeParse(values);
+
+  if (!validation.success) {
+    return {
+      status: "error",
+      message: validation.error.errors[0].message || "Invalid Form Data",
+    };
+  }
+
+  const data = validation.data;
+
+  try {
+    const existing = await prisma.coupon.findUnique({
+      where: {
+        code: data.code,
+      },
+      select: {
+        id: true,
+      },
+    });
+
+    if (existing) {
+      return {
+        status: "error",
+        message: "A coupon with this code already exists",
+      };
+    }
+
+    await createCourseCoupon({
+      code: data.code,
+      name: data.name,
+      discountType: data.discountType,
+      value: data.value,
+      courseIds: data.courseIds,
+      maxRedemptions: data.maxRedemptions ? Number(data.maxRedemptions) : null,
+      // The code stays valid through the whole expiry day
+      expiresAt: data.expiresAt ? new Date(`${data.expiresAt}T23:59:59`) : null,
+      createdBy: session.user.id,
+    });
+
+    revalidatePath("/admin/coupons");
+
+    return {
+      status: "success",
+      message: `Coupon ${data.code} created`,
+    };
+  } catch (error) {
+    console.log(error);
+
+    if (error instanceof Stripe.errors.StripeError) {
+      return {
+        status: "error",
+        message: error.message,
+      };
+    }
+
+    return {
+      status: "error",
+      message: "Failed to create coupon",
+    };
+  }
+}
+
+export async function setCouponActive(
+  couponId: string,
+  active: boolean
+): Promise<ApiResponse> {
+  await requireAdmin();
+
+  try {
+    await setCourseCouponActive(couponId, active);
+
+    revalidatePath("/admin/coupons");
+
+    return {
+      status: "success",
+      message: active ? "Coupon activated" : "Coupon deactivated",
+    };
+  } catch (error) {
+    console.log(error);
+    return {
+      status: "error",
+      message: "Failed to update coupon",
+    };
+  }
+}
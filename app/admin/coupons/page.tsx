@@ -0,0 +1,104 @@
+import { adminGetCoupons } from "@/app/data/admin/admin-get-coupons";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCents } from "@/lib/license-pricing";
+import { CouponActiveButton } from "./_components/CouponActiveButton";
+import { CreateCouponDialog } from "./_components/CreateCouponDialog";
+
+export default async function CouponsPage() {
+  const { coupons, courses } = await adminGetCoupons();
+  const courseTitles = new Map(
+    courses.map((course) => [course.id, course.title])
+  );
+  const now = new Date();
+
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl font-bold">Coupons</h1>
+          <p className="text-muted-foreground">
+            Discount codes for course purchases, backed by Stripe promotion
+            codes.
+          </p>
+        </div>
+        <CreateCouponDialog courses={courses} />
+      </div>
+
+      {coupons.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No coupons yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Discount</TableHead>
+              <TableHead>Courses</TableHead>
+              <TableHead>Redemptions</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead className="text-right">Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {coupons.map((coupon) => {
+              const expired = coupon.expiresAt && coupon.expiresAt <= now;
+
+              return (
+                <TableRow key={coupon.id}>
+                  <TableCell>
+                    <p className="font-mono font-medium">{coupon.code}</p>
+                    {coupon.name && (
+                      <p className="text-xs text-muted-foreground">
+                        {coupon.name}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {coupon.percentOff
+                      ? `${coupon.percentOff}% off`
+                      : `${formatCents(coupon.amountOff ?? 0)} off`}
+                  </TableCell>
+                  <TableCell className="max-w-xs whitespace-normal">
+                    {coupon.courseIds.length === 0
+                      ? "All courses"
+                      : coupon.courseIds
+                          .map((id) => courseTitles.get(id) ?? "Deleted course")
+                          .join(", ")}
+                  </TableCell>
+                  <TableCell>
+                    {coupon.redemptionCount}
+                    {coupon.maxRedemptions !== null &&
+                      ` / ${coupon.maxRedemptions}`}
+                  </TableCell>
+                  <TableCell>
+                    {coupon.expiresAt
+                      ? coupon.expiresAt.toLocaleDateString()
+                      : "Never"}
+                    {expired && (
+                      <Badge variant="secondary" className="ml-1">
+                        Expired
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <CouponActiveButton
+                      couponId={coupon.id}
+                      active={coupon.active}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </>
+  );
+}
@@ -17,11 +17,13 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { RichTextEditor } from "@/components/rich-text-editor/Editor";
 import { Uploader } from "@/components/file-uploader/Uploader";
@@ -47,6 +49,7 @@ export function LessonForm({ chapterId, data, courseId }: iAppProps) {
       description: data.description ?? undefined,
       videoKey: data.videoKey ?? undefined,
       thumbnailKey: data.thumbnailKey ?? undefined,
+      isFreePreview: data.isFreePreview,
     },
   });
 
@@ -151,6 +154,29 @@ export function LessonForm({ chapterId, data, courseId }: iAppProps) {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="isFreePreview"
+                render={({ field }) => (
+                  <FormItem className="flex items-start gap-3">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) =>
+                          field.onChange(checked === true)
+                        }
+                      />
+                    </FormControl>
+                    <div className="space-y-1">
+                      <FormLabel>Free preview</FormLabel>
+                      <FormDescription>
+                        Anyone can watch this lesson from the course page,
+                        without enrolling.
+                      </FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
 
               <Button disabled={pending} type="submit">
                 {pending ? "Saving.." : "Save Lesson"}
@@ -30,6 +30,7 @@ export async function updateLesson(
         description: result.data.description,
         thumbnailKey: result.data.thumbnailKey,
         videoKey: result.data.videoKey,
+        isFreePreview: result.data.isFreePreview,
       },
     });
 
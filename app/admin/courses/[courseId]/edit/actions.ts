@@ -2,6 +2,7 @@
 
 import { requireAdmin } from "@/app/data/admin/require-admin";
 import arcjet, { fixedWindow } from "@/lib/arcjet";
+import { syncCourseProduct } from "@/lib/course-stripe";
 import { prisma } from "@/lib/db";
 import { ApiResponse } from "@/lib/types";
 import {
@@ -57,13 +58,33 @@ export async function editCourse(
       };
     }
 
-    await prisma.course.update({
+    const course = await prisma.course.findUnique({
       where: {
         id: courseId,
         userId: user.user.id,
       },
+      select: {
+        id: true,
+      },
+    });
+
+    if (!course) {
+      return {
+        status: "error",
+        message: "Course not found",
+      };
+    }
+
+    const product = await syncCourseProduct(course.id, result.data);
+
+    await prisma.course.update({
+      where: {
+        id: course.id,
+      },
       data: {
         ...result.data,
+        stripePriceId: product.stripePriceId,
+        stripeProductId: product.stripeProductId,
       },
     });
 
@@ -3,8 +3,8 @@
 import { requireAdmin } from "@/app/data/admin/require-admin";
 import arcjet, { fixedWindow } from "@/lib/arcjet";
 
+import { createCourseProduct } from "@/lib/course-stripe";
 import { prisma } from "@/lib/db";
-import { stripe } from "@/lib/stripe";
 import { ApiResponse } from "@/lib/types";
 import { courseSchema, CourseSchemaType } from "@/lib/zodSchemas";
 import { request } from "@arcjet/next";
@@ -51,20 +51,20 @@ export async function CreateCourse(
       };
     }
 
-    const data = await stripe.products.create({
-      name: validation.data.title,
-      description: validation.data.smallDescription,
-      default_price_data: {
-        currency: "usd",
-        unit_amount: validation.data.price * 100,
-      },
-    });
+    const product = await createCourseProduct(validation.data);
 
     await prisma.course.create({
       data: {
         ...validation.data,
         userId: session?.user.id as string,
-        stripePriceId: data.default_price as string,
+        stripePriceId: product.stripePriceId,
+        stripeProductId: product.stripeProductId,
+        prices: {
+          create: {
+            stripePriceId: product.stripePriceId,
+            amount: validation.data.price,
+          },
+        },
       },
     });
 
@@ -0,0 +1,188 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { tryCatch } from "@/hooks/try-catch";
+import { formatCents } from "@/lib/license-pricing";
+import {
+  enrollmentRefundSchema,
+  EnrollmentRefundSchemaType,
+} from "@/lib/zodSchemas";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { useState, useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { refundEnrollment } from "../actions";
+
+interface iAppProps {
+  enrollmentId: string;
+  courseTitle: string;
+  refundable: number;
+}
+
+export function RefundEnrollmentDialog({
+  enrollmentId,
+  courseTitle,
+  refundable,
+}: iAppProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [pending, startTransition] = useTransition();
+
+  const form = useForm<EnrollmentRefundSchemaType>({
+    resolver: zodResolver(enrollmentRefundSchema),
+    defaultValues: {
+      amount: "",
+      reason: "requested_by_customer",
+      note: "",
+    },
+  });
+
+  function onSubmit(values: EnrollmentRefundSchemaType) {
+    startTransition(async () => {
+      const { data: result, error } = await tryCatch(
+        refundEnrollment(enrollmentId, values)
+      );
+
+      if (error) {
+        toast.error("An unexpected error occurred. Please try again.");
+        return;
+      }
+
+      if (result.status === "success") {
+        toast.success(result.message);
+        form.reset();
+        setIsOpen(false);
+      } else if (result.status === "error") {
+        toast.error(result.message);
+      }
+    });
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          Refund
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Refund enrollment</DialogTitle>
+          <DialogDescription>
+            Refunds the payment for {courseTitle} through Stripe and cancels the
+            enrollment. The learner loses access to the lessons right away.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amount (USD)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder={(refundable / 100).toFixed(2)}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Leave empty to refund the full {formatCents(refundable)}.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="requested_by_customer">
+                        Requested by customer
+                      </SelectItem>
+                      <SelectItem value="duplicate">
+                        Duplicate payment
+                      </SelectItem>
+                      <SelectItem value="fraudulent">Fraudulent</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button
+                disabled={pending}
+                type="submit"
+                variant="destructive"
+                className="w-full"
+              >
+                {pending ? (
+                  <>
+                    <Loader2 className="size-4 animate-spin" />
+                    Refunding...
+                  </>
+                ) : (
+                  "Refund and cancel"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,70 @@
+"use server";
+
+import { requireAdmin } from "@/app/data/admin/require-admin";
+import { issueEnrollmentRefund } from "@/lib/enrollment-refunds";
+import { formatCents } from "@/lib/license-pricing";
+import { ApiResponse } from "@/lib/types";
+import {
+  enrollmentRefundSchema,
+  EnrollmentRefundSchemaType,
+} from "@/lib/zodSchemas";
+import { revalidatePath } from "next/cache";
+import Stripe from "stripe";
+
+export async function refundEnrollment(
+  enrollmentId: string,
+  values: EnrollmentRefundSchemaType
+): Promise<ApiResponse> {
+  const session = await requireAdmin();
+
+  const validation = enrollmentRefundSchema.safeParse(values);
+
+  if (!validation.success) {
+    return {
+      status: "error",
+      message: validation.error.errors[0].message || "Invalid refund",
+    };
+  }
+
+  try {
+    const result = await issueEnrollmentRefund({
+      enrollmentId: enrollmentId,
+      amount: validation.data.amount
+        ? Math.round(Number(validation.data.amount) * 100)
+        : undefined,
+      reason: validation.data.reason,
+      note: validation.data.note,
+      refundedBy: session.user.id,
+    });
+
+    if (!result.success) {
+      return {
+        status: "error",
+        message: result.message,
+      };
+    }
+
+    revalidatePath("/admin/enrollments");
+
+    return {
+      status: "success",
+      message: `Refunded ${formatCents(
+        result.amount
+      )} and cancelled the enrollment`,
+    };
+  } catch (error) {
+    console.log(error);
+
+    if (error instanceof Stripe.errors.StripeError) {
+      return {
+        status: "error",
+        message: error.message,
+      };
+    }
+
+    return {
+      status: "error",
+      message: "Failed to refund enrollment",
+    };
+  }
+}
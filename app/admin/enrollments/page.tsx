@@ -0,0 +1,101 @@
+import { adminGetEnrollments } from "@/app/data/admin/admin-get-enrollments";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCents } from "@/lib/license-pricing";
+import { RefundEnrollmentDialog } from "./_components/RefundEnrollmentDialog";
+
+export default async function EnrollmentsPage() {
+  const enrollments = await adminGetEnrollments();
+
+  return (
+    <>
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-bold">Enrollments</h1>
+        <p className="text-muted-foreground">
+          Course purchases by individual learners. Refunding an enrollment
+          cancels it and revokes lesson access.
+        </p>
+      </div>
+
+      {enrollments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No purchases yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Learner</TableHead>
+              <TableHead>Course</TableHead>
+              <TableHead>Paid</TableHead>
+              <TableHead>Refunded</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {enrollments.map((enrollment) => {
+              const refundable = enrollment.amount - enrollment.refundedAmount;
+
+              return (
+                <TableRow key={enrollment.id}>
+                  <TableCell>
+                    <p className="font-medium">{enrollment.User.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {enrollment.User.email}
+                    </p>
+                  </TableCell>
+                  <TableCell>{enrollment.Course.title}</TableCell>
+                  <TableCell>
+                    {formatCents(enrollment.amount)}
+                    <p className="text-xs text-muted-foreground">
+                      {enrollment.createdAt.toLocaleDateString()}
+                    </p>
+                    {enrollment.coupon && (
+                      <p className="text-xs text-muted-foreground">
+                        {enrollment.coupon.code} saved{" "}
+                        {formatCents(enrollment.discountAmount)}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {enrollment.refundedAmount > 0
+                      ? formatCents(enrollment.refundedAmount)
+                      : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={
+                        enrollment.status === "Active"
+                          ? "default"
+                          : "destructive"
+                      }
+                    >
+                      {enrollment.disputedAt ? "Disputed" : enrollment.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {enrollment.stripePaymentIntentId &&
+                      !enrollment.disputedAt &&
+                      refundable > 0 && (
+                        <RefundEnrollmentDialog
+                          enrollmentId={enrollment.id}
+                          courseTitle={enrollment.Course.title}
+                          refundable={refundable}
+                        />
+                      )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </>
+  );
+}
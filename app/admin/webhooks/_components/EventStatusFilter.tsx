@@ -0,0 +1,43 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePathname, useRouter } from "next/navigation";
+
+const statuses = [
+  { value: "all", label: "All events" },
+  { value: "FAILED", label: "Failed" },
+  { value: "PROCESSED", label: "Processed" },
+  { value: "IGNORED", label: "Ignored" },
+  { value: "PROCESSING", label: "Processing" },
+];
+
+export function EventStatusFilter({ status }: { status: string }) {
+  const router = useRouter();
+  const pathname = usePathname();
+
+  return (
+    <Select
+      value={status}
+      onValueChange={(value) =>
+        router.push(value === "all" ? pathname : `${pathname}?status=${value}`)
+      }
+    >
+      <SelectTrigger className="w-48">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {statuses.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { tryCatch } from "@/hooks/try-catch";
+import { Loader2, RotateCcw } from "lucide-react";
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { replayWebhookEvent } from "../actions";
+
+export function ReplayEventButton({ eventId }: { eventId: string }) {
+  const [pending, startTransition] = useTransition();
+
+  function onSubmit() {
+    startTransition(async () => {
+      const { data: result, error } = await tryCatch(
+        replayWebhookEvent(eventId)
+      );
+
+      if (error) {
+        toast.error("An unexpected error occurred. Please try again.");
+        return;
+      }
+
+      if (result.status === "success") {
+        toast.success(result.message);
+      } else if (result.status === "error") {
+        toast.error(result.message);
+      }
+    });
+  }
+
+  return (
+    <Button size="sm" variant="outline" onClick={onSubmit} disabled={pending}>
+      {pending ? (
+        <>
+          <Loader2 className="size-4 animate-spin" />
+          Replaying...
+        </>
+      ) : (
+        <>
+          <RotateCcw className="size-4" />
+          Replay
+        </>
+      )}
+    </Button>
+  );
+}
@@ -0,0 +1,46 @@
+"use server";
+
+import { requireAdmin } from "@/app/data/admin/require-admin";
+import { replayStripeEvent } from "@/lib/stripe-webhooks";
+import { ApiResponse } from "@/lib/types";
+import { revalidatePath } from "next/cache";
+
+export async function replayWebhookEvent(
+  eventId: string
+): Promise<ApiResponse> {
+  await requireAdmin();
+
+  try {
+    const result = await replayStripeEvent(eventId);
+
+    revalidatePath("/admin/webhooks");
+
+    if (result === "failed") {
+      return {
+        status: "error",
+        message: "The event failed again, see the error for details",
+      };
+    }
+
+    if (result === "duplicate") {
+      return {
+        status: "error",
+        message: "Only failed events can be replayed",
+      };
+    }
+
+    return {
+      status: "success",
+      message:
+        result === "ignored"
+          ? "Event replayed, nothing to do"
+          : "Event replayed",
+    };
+  } catch (error) {
+    console.log(error);
+    return {
+      status: "error",
+      message: "Failed to replay event",
+    };
+  }
+}
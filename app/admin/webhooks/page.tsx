@@ -0,0 +1,101 @@
+import { adminGetWebhookEvents } from "@/app/data/admin/admin-get-webhook-events";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { StripeEventStatus } from "@/lib/generated/prisma";
+import { EventStatusFilter } from "./_components/EventStatusFilter";
+import { ReplayEventButton } from "./_components/ReplayEventButton";
+
+type SearchParams = Promise<{ status?: string }>;
+
+const statusVariants: Record<
+  StripeEventStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  PROCESSED: "default",
+  IGNORED: "secondary",
+  PROCESSING: "outline",
+  FAILED: "destructive",
+};
+
+export default async function WebhookEventsPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  const { status: statusParam } = await searchParams;
+  const status = Object.values(StripeEventStatus).find(
+    (value) => value === statusParam
+  );
+
+  const { events, counts } = await adminGetWebhookEvents(status);
+
+  return (
+    <>
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-bold">Stripe Webhooks</h1>
+        <p className="text-muted-foreground">
+          Every event received from Stripe, processed once by its id. Failed
+          events are retried by Stripe and can be replayed from here.
+          {counts.FAILED ? ` ${counts.FAILED} failed events.` : ""}
+        </p>
+      </div>
+
+      <EventStatusFilter status={status ?? "all"} />
+
+      {events.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No events found.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Event</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>Received</TableHead>
+              <TableHead>Processed</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {events.map((event) => (
+              <TableRow key={event.id}>
+                <TableCell className="max-w-md whitespace-normal">
+                  <p className="font-medium">{event.type}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {event.id}
+                    {!event.livemode && " · test mode"}
+                  </p>
+                  {event.error && (
+                    <p className="text-xs text-destructive">{event.error}</p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={statusVariants[event.status]}>
+                    {event.status}
+                  </Badge>
+                </TableCell>
+                <TableCell>{event.attempts}</TableCell>
+                <TableCell>{event.receivedAt.toLocaleString()}</TableCell>
+                <TableCell>
+                  {event.processedAt ? event.processedAt.toLocaleString() : "—"}
+                </TableCell>
+                <TableCell className="text-right">
+                  {event.status === StripeEventStatus.FAILED && (
+                    <ReplayEventButton eventId={event.id} />
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,16 @@
+import { env } from "@/lib/env";
+import { pruneOrganizationActivities } from "@/lib/organization-activity-retention";
+import { headers } from "next/headers";
+
+// Called daily by the scheduler configured in vercel.json
+export async function GET() {
+  const headersList = await headers();
+
+  if (headersList.get("Authorization") !== `Bearer ${env.CRON_SECRET}`) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const result = await pruneOrganizationActivities();
+
+  return Response.json(result);
+}
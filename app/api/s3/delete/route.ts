@@ -1,5 +1,6 @@
-import { requireAdmin } from "@/app/data/admin/require-admin";
+import { requireUploader } from "@/app/data/user/require-uploader";
 import arcjet, { fixedWindow } from "@/lib/arcjet";
+import { getOrganizationUploadPrefix } from "@/lib/organization-branding";
 
 import { env } from "@/lib/env";
 import { S3 } from "@/lib/S3Client";
@@ -15,7 +16,7 @@ const aj = arcjet.withRule(
 );
 
 export async function DELETE(request: Request) {
-  const session = await requireAdmin();
+  const { session, organizationId } = await requireUploader();
   try {
     const decision = await aj.protect(request, {
       fingerprint: session?.user.id as string,
@@ -35,6 +36,13 @@ export async function DELETE(request: Request) {
       );
     }
 
+    if (
+      organizationId &&
+      !key.startsWith(getOrganizationUploadPrefix(organizationId))
+    ) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
     const command = new DeleteObjectCommand({
       Bucket: env.NEXT_PUBLIC_S3_BUCKET_NAME_IMAGES,
       Key: key,
@@ -6,7 +6,8 @@ import { v4 as uuidv4 } from "uuid";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { S3 } from "@/lib/S3Client";
 import arcjet, { fixedWindow } from "@/lib/arcjet";
-import { requireAdmin } from "@/app/data/admin/require-admin";
+import { getOrganizationUploadPrefix } from "@/lib/organization-branding";
+import { requireUploader } from "@/app/data/user/require-uploader";
 
 const fileUploadSchema = z.object({
   fileName: z.string().min(1, { message: "Filename is required" }),
@@ -15,6 +16,10 @@ const fileUploadSchema = z.object({
   isImage: z.boolean(),
 });
 
+// Same limit as the image dropzone of the uploader. The signed
+// Content-Length makes S3 reject larger uploads.
+const MAX_ORGANIZATION_IMAGE_SIZE = 5 * 1024 * 1024;
+
 const aj = arcjet.withRule(
   fixedWindow({
     mode: "LIVE",
@@ -24,7 +29,7 @@ const aj = arcjet.withRule(
 );
 
 export async function POST(request: Request) {
-  const session = await requireAdmin();
+  const { session, organizationId } = await requireUploader();
   try {
     const decision = await aj.protect(request, {
       fingerprint: session?.user.id as string,
@@ -45,9 +50,26 @@ export async function POST(request: Request) {
       );
     }
 
-    const { fileName, contentType, size } = validation.data;
+    const { fileName, contentType, size, isImage } = validation.data;
+
+    // isImage comes from the client, the content type is what S3 stores
+    if (organizationId && (!isImage || !contentType.startsWith("image/"))) {
+      return NextResponse.json(
+        { error: "Organizations can only upload images" },
+        { status: 403 }
+      );
+    }
+
+    if (organizationId && size > MAX_ORGANIZATION_IMAGE_SIZE) {
+      return NextResponse.json(
+        { error: "Images can be at most 5MB" },
+        { status: 413 }
+      );
+    }
 
-    const uniqueKey = `${uuidv4()}-${fileName}`;
+    const uniqueKey = `${
+      organizationId ? getOrganizationUploadPrefix(organizationId) : ""
+    }${uuidv4()}-${fileName}`;
 
     const command = new PutObjectCommand({
       Bucket: env.NEXT_PUBLIC_S3_BUCKET_NAME_IMAGES,
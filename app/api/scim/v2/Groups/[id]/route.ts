@@ -0,0 +1,52 @@
+import {
+  getScimGroup,
+  patchScimGroup,
+  replaceScimGroup,
+} from "@/lib/organization-scim-groups";
+import { handleScimRequest } from "@/lib/organization-scim";
+import { getScimPatchOperations, ScimError, scimResponse } from "@/lib/scim";
+
+type Params = Promise<{ id: string }>;
+
+export async function GET(request: Request, { params }: { params: Params }) {
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+
+  return handleScimRequest(request, async (token) =>
+    scimResponse(
+      await getScimGroup(
+        token.organizationId,
+        id,
+        searchParams.get("excludedAttributes")?.includes("members") !== true
+      )
+    )
+  );
+}
+
+export async function PUT(request: Request, { params }: { params: Params }) {
+  const { id } = await params;
+
+  return handleScimRequest(request, async (token) => {
+    const body = await request.json().catch(() => null);
+
+    return scimResponse(await replaceScimGroup(token, id, body));
+  });
+}
+
+export async function PATCH(request: Request, { params }: { params: Params }) {
+  const { id } = await params;
+
+  return handleScimRequest(request, async (token) => {
+    const body = await request.json().catch(() => null);
+
+    return scimResponse(
+      await patchScimGroup(token, id, getScimPatchOperations(body))
+    );
+  });
+}
+
+export async function DELETE(request: Request) {
+  return handleScimRequest(request, async () => {
+    throw new ScimError(403, "Groups are managed by the application");
+  });
+}
@@ -0,0 +1,30 @@
+import { listScimGroups } from "@/lib/organization-scim-groups";
+import { handleScimRequest } from "@/lib/organization-scim";
+import {
+  getScimPagination,
+  parseScimFilter,
+  ScimError,
+  scimListResponse,
+} from "@/lib/scim";
+
+export async function GET(request: Request) {
+  return handleScimRequest(request, async (token) => {
+    const { searchParams } = new URL(request.url);
+
+    return scimListResponse(
+      await listScimGroups(token.organizationId, {
+        filter: parseScimFilter(searchParams.get("filter")),
+        ...getScimPagination(searchParams),
+        includeMembers:
+          searchParams.get("excludedAttributes")?.includes("members") !== true,
+      })
+    );
+  });
+}
+
+// Groups are the organization roles and cannot be created
+export async function POST(request: Request) {
+  return handleScimRequest(request, async () => {
+    throw new ScimError(403, "Groups are managed by the application");
+  });
+}
@@ -0,0 +1,22 @@
+import { scimResponse } from "@/lib/scim";
+
+// Capabilities of the SCIM API, read by identity providers during setup
+export async function GET() {
+  return scimResponse({
+    schemas: ["urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig"],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: 100 },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [
+      {
+        type: "oauthbearertoken",
+        name: "Bearer token",
+        description: "Organization SCIM token from the organization settings",
+        primary: true,
+      },
+    ],
+  });
+}
@@ -0,0 +1,50 @@
+import {
+  deleteScimUser,
+  getScimUser,
+  handleScimRequest,
+  patchScimUser,
+  replaceScimUser,
+} from "@/lib/organization-scim";
+import { getScimPatchOperations, scimResponse } from "@/lib/scim";
+
+type Params = Promise<{ id: string }>;
+
+export async function GET(request: Request, { params }: { params: Params }) {
+  const { id } = await params;
+
+  return handleScimRequest(request, async (token) =>
+    scimResponse(await getScimUser(token.organizationId, id))
+  );
+}
+
+export async function PUT(request: Request, { params }: { params: Params }) {
+  const { id } = await params;
+
+  return handleScimRequest(request, async (token) => {
+    const body = await request.json().catch(() => null);
+
+    return scimResponse(await replaceScimUser(token, id, body));
+  });
+}
+
+export async function PATCH(request: Request, { params }: { params: Params }) {
+  const { id } = await params;
+
+  return handleScimRequest(request, async (token) => {
+    const body = await request.json().catch(() => null);
+
+    return scimResponse(
+      await patchScimUser(token, id, getScimPatchOperations(body))
+    );
+  });
+}
+
+export async function DELETE(request: Request, { params }: { params: Params }) {
+  const { id } = await params;
+
+  return handleScimRequest(request, async (token) => {
+    await deleteScimUser(token, id);
+
+    return scimResponse(null, 204);
+  });
+}
@@ -0,0 +1,32 @@
+import {
+  createScimUser,
+  handleScimRequest,
+  listScimUsers,
+} from "@/lib/organization-scim";
+import {
+  getScimPagination,
+  parseScimFilter,
+  scimListResponse,
+  scimResponse,
+} from "@/lib/scim";
+
+export async function GET(request: Request) {
+  return handleScimRequest(request, async (token) => {
+    const { searchParams } = new URL(request.url);
+
+    return scimListResponse(
+      await listScimUsers(token.organizationId, {
+        filter: parseScimFilter(searchParams.get("filter")),
+        ...getScimPagination(searchParams),
+      })
+    );
+  });
+}
+
+export async function POST(request: Request) {
+  return handleScimRequest(request, async (token) => {
+    const body = await request.json().catch(() => null);
+
+    return scimResponse(await createScimUser(token, body), 201);
+  });
+}
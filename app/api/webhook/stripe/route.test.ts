@@ -0,0 +1,204 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import Stripe from "stripe";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { prisma, tx, requestHeaders } = vi.hoisted(() => {
+  const tx = {
+    courseLicense: {
+      upsert: vi.fn(),
+    },
+    enrollment: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+    organizationActivity: {
+      create: vi.fn(),
+    },
+    stripeWebhookEvent: {
+      update: vi.fn(),
+    },
+  };
+
+  return {
+    tx,
+    prisma: {
+      stripeWebhookEvent: {
+        createMany: vi.fn(),
+        updateMany: vi.fn(),
+        update: vi.fn(),
+      },
+      $transaction: vi.fn(),
+    },
+    requestHeaders: { current: new Headers() },
+  };
+});
+
+vi.mock("@/lib/db", () => ({ prisma }));
+vi.mock("next/headers", () => ({
+  headers: async () => requestHeaders.current,
+}));
+
+import { stripe } from "@/lib/stripe";
+import { POST } from "./route";
+
+const WEBHOOK_SECRET = "whsec_test";
+
+function fixture(name: string) {
+  return readFileSync(
+    path.join(import.meta.dirname, "_fixtures", `${name}.json`),
+    "utf8"
+  );
+}
+
+// Delivers the payload the way Stripe does, signed with the webhook secret
+async function deliver(payload: string, secret = WEBHOOK_SECRET) {
+  const stripe = new Stripe("sk_test_123");
+
+  requestHeaders.current = new Headers({
+    "Stripe-Signature": stripe.webhooks.generateTestHeaderString({
+      payload: payload,
+      secret: secret,
+    }),
+  });
+
+  return POST(
+    new Request("http://localhost:3000/api/webhook/stripe", {
+      method: "POST",
+      body: payload,
+    })
+  );
+}
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.clearAllMocks();
+
+  prisma.stripeWebhookEvent.createMany.mockResolvedValue({ count: 1 });
+  prisma.stripeWebhookEvent.updateMany.mockResolvedValue({ count: 0 });
+  prisma.$transaction.mockImplementation(async (fn) => fn(tx));
+  tx.courseLicense.upsert.mockResolvedValue({ id: "license-1" });
+  tx.enrollment.findUnique.mockResolvedValue({
+    id: "enrollment-1",
+    status: "Active",
+  });
+  tx.enrollment.findFirst.mockResolvedValue(null);
+});
+
+// Checkout sessions Stripe returns for the disputed payment intent
+function mockCheckoutSessions(metadata: Record<string, string> | null) {
+  vi.spyOn(stripe.checkout.sessions, "list").mockResolvedValue({
+    data: metadata ? [{ metadata: metadata }] : [],
+  } as unknown as Awaited<ReturnType<typeof stripe.checkout.sessions.list>>);
+}
+
+describe("Stripe webhook", () => {
+  it("rejects payloads with an invalid signature", async () => {
+    const response = await deliver(
+      fixture("checkout-session-license"),
+      "whsec_other"
+    );
+
+    expect(response.status).toBe(400);
+    expect(prisma.stripeWebhookEvent.createMany).not.toHaveBeenCalled();
+  });
+
+  it("adds license seats and marks the event in the same transaction", async () => {
+    const response = await deliver(fixture("checkout-session-license"));
+
+    expect(response.status).toBe(200);
+    expect(tx.courseLicense.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          organizationId_courseId: {
+            organizationId: "org-1",
+            courseId: "course-1",
+          },
+        },
+        update: expect.objectContaining({
+          seats: { increment: 3 },
+        }),
+      })
+    );
+    expect(tx.stripeWebhookEvent.update).toHaveBeenCalledWith({
+      where: { id: "evt_license_purchase" },
+      data: expect.objectContaining({ status: "PROCESSED" }),
+    });
+    expect(prisma.stripeWebhookEvent.update).not.toHaveBeenCalled();
+  });
+
+  it("does not apply a delivered event twice", async () => {
+    prisma.stripeWebhookEvent.createMany.mockResolvedValue({ count: 0 });
+
+    const response = await deliver(fixture("checkout-session-license"));
+
+    expect(response.status).toBe(200);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+    expect(tx.courseLicense.upsert).not.toHaveBeenCalled();
+  });
+
+  it("fails the delivery when the event cannot be marked processed", async () => {
+    tx.stripeWebhookEvent.update.mockRejectedValueOnce(
+      new Error("Write failed")
+    );
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const response = await deliver(fixture("checkout-session-license"));
+
+    expect(response.status).toBe(500);
+    expect(tx.courseLicense.upsert).toHaveBeenCalledTimes(1);
+    expect(prisma.stripeWebhookEvent.update).toHaveBeenCalledWith({
+      where: { id: "evt_license_purchase" },
+      data: { status: "FAILED", error: "Write failed" },
+    });
+  });
+
+  it("cancels the enrollment of a disputed payment", async () => {
+    const response = await deliver(fixture("charge-dispute-created"));
+
+    expect(response.status).toBe(200);
+    expect(tx.enrollment.update).toHaveBeenCalledWith({
+      where: { id: "enrollment-1" },
+      data: expect.objectContaining({ status: "Cancelled" }),
+    });
+    expect(tx.stripeWebhookEvent.update).toHaveBeenCalledWith({
+      where: { id: "evt_charge_dispute" },
+      data: expect.objectContaining({ status: "PROCESSED" }),
+    });
+  });
+
+  it("finds enrollments paid before payment intents were stored", async () => {
+    tx.enrollment.findUnique.mockResolvedValue(null);
+    tx.enrollment.findFirst.mockResolvedValue({
+      id: "legacy-enrollment",
+      status: "Active",
+    });
+    mockCheckoutSessions({ enrollmentId: "legacy-enrollment" });
+
+    const response = await deliver(fixture("charge-dispute-created"));
+
+    expect(response.status).toBe(200);
+    expect(tx.enrollment.update).toHaveBeenCalledWith({
+      where: { id: "legacy-enrollment" },
+      data: { stripePaymentIntentId: "pi_test_course" },
+    });
+    expect(tx.enrollment.update).toHaveBeenCalledWith({
+      where: { id: "legacy-enrollment" },
+      data: expect.objectContaining({ status: "Cancelled" }),
+    });
+  });
+
+  it("ignores disputes of payments without an enrollment", async () => {
+    tx.enrollment.findUnique.mockResolvedValue(null);
+    mockCheckoutSessions(null);
+
+    const response = await deliver(fixture("charge-dispute-created"));
+
+    expect(response.status).toBe(200);
+    expect(tx.stripeWebhookEvent.update).toHaveBeenCalledWith({
+      where: { id: "evt_charge_dispute" },
+      data: expect.objectContaining({ status: "IGNORED" }),
+    });
+  });
+});
@@ -1,6 +1,6 @@
-import { prisma } from "@/lib/db";
 import { env } from "@/lib/env";
 import { stripe } from "@/lib/stripe";
+import { processStripeEvent } from "@/lib/stripe-webhooks";
 import { headers } from "next/headers";
 import Stripe from "stripe";
 
@@ -23,37 +23,11 @@ export async function POST(req: Request) {
     return new Response("Webhook error", { status: 400 });
   }
 
-  const session = event.data.object as Stripe.Checkout.Session;
-
-  if (event.type === "checkout.session.completed") {
-    const courseId = session.metadata?.courseId;
-    const customerId = session.customer as string;
-
-    if (!courseId) {
-      throw new Error("Course id not found...");
-    }
-
-    const user = await prisma.user.findUnique({
-      where: {
-        stripeCustomerId: customerId,
-      },
-    });
-
-    if (!user) {
-      throw new Error("User not found...");
-    }
-
-    await prisma.enrollment.update({
-      where: {
-        id: session.metadata?.enrollmentId as string,
-      },
-      data: {
-        userId: user.id,
-        courseId: courseId,
-        amount: session.amount_total as number,
-        status: "Active",
-      },
-    });
+  const result = await processStripeEvent(event);
+
+  // Stripe retries failed deliveries, which picks the event up again
+  if (result === "failed") {
+    return new Response("Webhook handler failed", { status: 500 });
   }
 
   return new Response(null, { status: 200 });
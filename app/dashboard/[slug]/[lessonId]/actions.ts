@@ -1,5 +1,6 @@
 "use server";
 
+import { hasCourseAccess } from "@/app/data/course/has-course-access";
 import { requireUser } from "@/app/data/user/require-user";
 import { prisma } from "@/lib/db";
 import { ApiResponse } from "@/lib/types";
@@ -12,6 +13,29 @@ export async function markLessonComplete(
   const session = await requireUser();
 
   try {
+    const lesson = await prisma.lesson.findUnique({
+      where: {
+        id: lessonId,
+      },
+      select: {
+        Chapter: {
+          select: {
+            courseId: true,
+          },
+        },
+      },
+    });
+
+    if (
+      !lesson ||
+      !(await hasCourseAccess(session.id, lesson.Chapter.courseId))
+    ) {
+      return {
+        status: "error",
+        message: "You no longer have access to this course",
+      };
+    }
+
     await prisma.lessonProgress.upsert({
       where: {
         userId_lessonId: {
@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 "use client";
 
+import type { AssignedCourseType } from "@/app/data/user/get-assigned-courses";
 import { EnrolledCourseType } from "@/app/data/user/get-enrolled-courses";
 import { Badge } from "@/components/ui/badge";
 import { buttonVariants } from "@/components/ui/button";
@@ -15,9 +16,10 @@ import Link from "next/link";
 
 interface iAppProps {
   data: EnrolledCourseType;
+  assignment?: AssignedCourseType;
 }
 
-export function CourseProgressCard({ data }: iAppProps) {
+export function CourseProgressCard({ data, assignment }: iAppProps) {
   const thumbnailUrl = useConstructUrl(data.Course.fileKey);
   const { totalLessons, completedLessons, progressPercentage } =
     useCourseProgress({ courseData: data.Course as any });
@@ -44,6 +46,18 @@ export function CourseProgressCard({ data }: iAppProps) {
           {data.Course.smallDescription}
         </p>
 
+        {assignment && (
+          <div className="flex items-center justify-between gap-2 mt-3 text-sm">
+            <p className="text-muted-foreground">
+              Assigned by {assignment.organizationName}, due{" "}
+              {assignment.dueDate.toLocaleDateString()}
+            </p>
+            {assignment.dueDate <= new Date() && (
+              <Badge variant="destructive">Overdue</Badge>
+            )}
+          </div>
+        )}
+
         <div className="space-y-4 mt-5">
           <div className="flex justify-between mb-1 text-sm">
             <p>Progress:</p>
@@ -7,10 +7,12 @@ import {
   IconFileAi,
   IconFileDescription,
   IconHelp,
+  IconReceipt,
   IconSearch,
   IconSettings,
 } from "@tabler/icons-react";
 import Logo from "@/public/logo.png";
+import type { OrganizationBranding } from "@/lib/organization-branding";
 
 import { NavMain } from "@/components/sidebar/nav-main";
 import { NavSecondary } from "@/components/sidebar/nav-secondary";
@@ -34,6 +36,11 @@ const data = {
       url: "/dashboard",
       icon: IconDashboard,
     },
+    {
+      title: "Purchases",
+      url: "/dashboard/purchases",
+      icon: IconReceipt,
+    },
   ],
   navClouds: [
     {
@@ -102,7 +109,12 @@ const data = {
   ],
 };
 
-export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
+export function AppSidebar({
+  branding,
+  ...props
+}: React.ComponentProps<typeof Sidebar> & {
+  branding?: OrganizationBranding | null;
+}) {
   return (
     <Sidebar collapsible="offcanvas" {...props}>
       <SidebarHeader>
@@ -113,8 +125,20 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
               className="data-[slot=sidebar-menu-button]:!p-1.5"
             >
               <Link href="/">
-                <Image src={Logo} alt="Logo" className="size-5" />
-                <span className="text-base font-semibold">Precuity AI.</span>
+                {branding?.logoUrl ? (
+                  <Image
+                    src={branding.logoUrl}
+                    alt={branding.name}
+                    width={20}
+                    height={20}
+                    className="size-5 object-contain"
+                  />
+                ) : (
+                  <Image src={Logo} alt="Logo" className="size-5" />
+                )}
+                <span className="text-base font-semibold">
+                  {branding?.name ?? "Precuity AI."}
+                </span>
               </Link>
             </SidebarMenuButton>
           </SidebarMenuItem>
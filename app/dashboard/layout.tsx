@@ -1,24 +1,42 @@
+import { getCurrentMembership } from "@/app/data/user/get-current-membership";
+import { OrganizationStatusBanner } from "@/components/general/OrganizationStatusBanner";
 import { SiteHeader } from "@/components/sidebar/site-header";
 import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
+import {
+  getBrandingStyle,
+  getOrganizationBranding,
+} from "@/lib/organization-branding";
 import { ReactNode } from "react";
 import { AppSidebar } from "./_components/DashboardAppSidebar";
 
-export default function DashboardLayout({ children }: { children: ReactNode }) {
+export default async function DashboardLayout({
+  children,
+}: {
+  children: ReactNode;
+}) {
+  // Members see their organization's branding instead of PrecuityAI
+  const membership = await getCurrentMembership();
+  const branding = membership
+    ? getOrganizationBranding(membership.organization)
+    : null;
+
   return (
     <SidebarProvider
       style={
         {
           "--sidebar-width": "calc(var(--spacing) * 72)",
           "--header-height": "calc(var(--spacing) * 12)",
+          ...getBrandingStyle(branding),
         } as React.CSSProperties
       }
     >
-      <AppSidebar variant="inset" />
+      <AppSidebar variant="inset" branding={branding} />
       <SidebarInset>
         <SiteHeader />
         <div className="flex flex-1 flex-col">
           <div className="@container/main flex flex-1 flex-col gap-2">
             <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+              <OrganizationStatusBanner />
               {children}
             </div>
           </div>
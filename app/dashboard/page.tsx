@@ -1,18 +1,52 @@
 import { EmptyState } from "@/components/general/EmptyState";
 import { getAllCourses } from "../data/course/get-all-courses";
+import { getAssignedCourses } from "../data/user/get-assigned-courses";
 import { getEnrolledCourses } from "../data/user/get-enrolled-courses";
 import { PublicCourseCard } from "../(public)/_components/PublicCourseCard";
 
 import { CourseProgressCard } from "./_components/CourseProgressCard";
 
 export default async function DashboardPage() {
-  const [courses, enrolledCourses] = await Promise.all([
+  const [courses, enrolledCourses, assignedCourses] = await Promise.all([
     getAllCourses(),
     getEnrolledCourses(),
+    getAssignedCourses(),
   ]);
 
+  const assigned = enrolledCourses
+    .filter(({ Course }) => assignedCourses.has(Course.id))
+    .sort(
+      (a, b) =>
+        assignedCourses.get(a.Course.id)!.dueDate.getTime() -
+        assignedCourses.get(b.Course.id)!.dueDate.getTime()
+    );
+  const notAssigned = enrolledCourses.filter(
+    ({ Course }) => !assignedCourses.has(Course.id)
+  );
+
   return (
     <>
+      {assigned.length > 0 && (
+        <section className="mb-10">
+          <div className="flex flex-col gap-2 mb-5">
+            <h1 className="text-3xl font-bold">Assigned Training</h1>
+            <p className="text-muted-foreground">
+              Courses your organization asked you to complete by a due date
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {assigned.map((course) => (
+              <CourseProgressCard
+                key={course.Course.id}
+                data={course}
+                assignment={assignedCourses.get(course.Course.id)}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+
       <div className="flex flex-col gap-2">
         <h1 className="text-3xl font-bold">Enrolled Courses</h1>
         <p className="text-muted-foreground">
@@ -20,7 +54,11 @@ export default async function DashboardPage() {
         </p>
       </div>
 
-      {enrolledCourses.length === 0 ? (
+      {notAssigned.length === 0 && assigned.length > 0 ? (
+        <p className="text-muted-foreground">
+          All your courses are listed under assigned training.
+        </p>
+      ) : notAssigned.length === 0 ? (
         <EmptyState
           title="No courses purchased"
           description="You haven't purchased any courses yet."
@@ -29,7 +67,7 @@ export default async function DashboardPage() {
         />
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          {enrolledCourses.map((course) => (
+          {notAssigned.map((course) => (
             <CourseProgressCard key={course.Course.id} data={course} />
           ))}
         </div>
@@ -0,0 +1,92 @@
+import { getPurchaseHistory } from "@/app/data/user/get-purchase-history";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCents } from "@/lib/license-pricing";
+import Link from "next/link";
+
+export default async function PurchaseHistoryPage() {
+  const purchases = await getPurchaseHistory();
+
+  return (
+    <>
+      <div className="flex flex-col gap-2">
+        <h1 className="text-3xl font-bold">Purchase History</h1>
+        <p className="text-muted-foreground">
+          Courses you bought and any refunds you received
+        </p>
+      </div>
+
+      {purchases.length === 0 ? (
+        <p className="text-muted-foreground">
+          You have not bought a course yet.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Course</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Paid</TableHead>
+              <TableHead>Refunds</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {purchases.map((purchase) => (
+              <TableRow key={purchase.id}>
+                <TableCell>
+                  <Link
+                    className="font-medium hover:underline"
+                    href={`/courses/${purchase.Course.slug}`}
+                  >
+                    {purchase.Course.title}
+                  </Link>
+                </TableCell>
+                <TableCell>{purchase.createdAt.toLocaleDateString()}</TableCell>
+                <TableCell>
+                  {formatCents(purchase.amount)}
+                  {purchase.discountAmount > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {formatCents(purchase.discountAmount)} discount
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {purchase.refunds.length === 0
+                    ? "—"
+                    : purchase.refunds.map((refund) => (
+                        <p key={refund.id}>
+                          {formatCents(refund.amount)}
+                          <span className="text-xs text-muted-foreground">
+                            {" "}
+                            on {refund.createdAt.toLocaleDateString()}
+                          </span>
+                        </p>
+                      ))}
+                </TableCell>
+                <TableCell>
+                  {purchase.disputedAt ? (
+                    <Badge variant="destructive">Disputed</Badge>
+                  ) : purchase.status === "Cancelled" ? (
+                    <Badge variant="secondary">
+                      {purchase.refundedAmount > 0 ? "Refunded" : "Cancelled"}
+                    </Badge>
+                  ) : (
+                    <Badge>Active</Badge>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </>
+  );
+}
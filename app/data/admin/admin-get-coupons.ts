@@ -0,0 +1,45 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { requireAdmin } from "./require-admin";
+
+export async function adminGetCoupons() {
+  await requireAdmin();
+
+  const [coupons, courses] = await Promise.all([
+    prisma.coupon.findMany({
+      orderBy: {
+        createdAt: "desc",
+      },
+      select: {
+        id: true,
+        code: true,
+        name: true,
+        discountType: true,
+        percentOff: true,
+        amountOff: true,
+        courseIds: true,
+        maxRedemptions: true,
+        redemptionCount: true,
+        expiresAt: true,
+        active: true,
+        createdAt: true,
+      },
+    }),
+    prisma.course.findMany({
+      orderBy: {
+        title: "asc",
+      },
+      select: {
+        id: true,
+        title: true,
+      },
+    }),
+  ]);
+
+  return { coupons, courses };
+}
+
+export type AdminCouponType = Awaited<
+  ReturnType<typeof adminGetCoupons>
+>["coupons"][0];
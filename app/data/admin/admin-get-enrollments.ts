@@ -0,0 +1,58 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { requireAdmin } from "./require-admin";
+
+// Paid individual enrollments, the ones that can be refunded
+export async function adminGetEnrollments() {
+  await requireAdmin();
+
+  const data = await prisma.enrollment.findMany({
+    where: {
+      enrollmentType: "INDIVIDUAL",
+      status: {
+        in: ["Active", "Cancelled"],
+      },
+      amount: {
+        gt: 0,
+      },
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    take: 100,
+    select: {
+      id: true,
+      amount: true,
+      status: true,
+      refundedAmount: true,
+      discountAmount: true,
+      coupon: {
+        select: {
+          code: true,
+        },
+      },
+      stripePaymentIntentId: true,
+      cancelledAt: true,
+      disputedAt: true,
+      createdAt: true,
+      User: {
+        select: {
+          name: true,
+          email: true,
+        },
+      },
+      Course: {
+        select: {
+          title: true,
+        },
+      },
+    },
+  });
+
+  return data;
+}
+
+export type AdminEnrollmentType = Awaited<
+  ReturnType<typeof adminGetEnrollments>
+>[0];
@@ -17,6 +17,7 @@ export async function adminGetLesson(id: string) {
       description: true,
       id: true,
       position: true,
+      isFreePreview: true,
     },
   });
 
@@ -0,0 +1,46 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { StripeEventStatus } from "@/lib/generated/prisma";
+import { requireAdmin } from "./require-admin";
+
+export async function adminGetWebhookEvents(status?: StripeEventStatus) {
+  await requireAdmin();
+
+  const [events, counts] = await Promise.all([
+    prisma.stripeWebhookEvent.findMany({
+      where: status ? { status: status } : {},
+      orderBy: {
+        receivedAt: "desc",
+      },
+      take: 100,
+      select: {
+        id: true,
+        type: true,
+        status: true,
+        error: true,
+        attempts: true,
+        livemode: true,
+        receivedAt: true,
+        processedAt: true,
+      },
+    }),
+    prisma.stripeWebhookEvent.groupBy({
+      by: ["status"],
+      _count: {
+        _all: true,
+      },
+    }),
+  ]);
+
+  return {
+    events,
+    counts: Object.fromEntries(
+      counts.map((entry) => [entry.status, entry._count._all])
+    ) as Partial<Record<StripeEventStatus, number>>,
+  };
+}
+
+export type AdminWebhookEventType = Awaited<
+  ReturnType<typeof adminGetWebhookEvents>
+>["events"][0];
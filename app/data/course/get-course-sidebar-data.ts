@@ -2,6 +2,7 @@ import "server-only";
 import { requireUser } from "../user/require-user";
 import { prisma } from "@/lib/db";
 import { notFound } from "next/navigation";
+import { hasCourseAccess } from "./has-course-access";
 
 export async function getCourseSidebarData(slug: string) {
   const session = await requireUser();
@@ -55,16 +56,9 @@ export async function getCourseSidebarData(slug: string) {
   if (!course) {
     return notFound();
   }
-  const enrollment = await prisma.enrollment.findUnique({
-    where: {
-      userId_courseId: {
-        userId: session.id,
-        courseId: course.id,
-      },
-    },
-  });
+  const hasAccess = await hasCourseAccess(session.id, course.id);
 
-  if (!enrollment || enrollment.status !== "Active") {
+  if (!hasAccess) {
     return notFound();
   }
 
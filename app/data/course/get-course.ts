@@ -18,6 +18,9 @@ export async function getIndividualCourse(slug: string) {
       level: true,
       category: true,
       smallDescription: true,
+      allowOrganizationPurchase: true,
+      bulkDiscountPercentage: true,
+      minimumBulkQuantity: true,
       chapter: {
         select: {
           id: true,
@@ -26,6 +29,7 @@ export async function getIndividualCourse(slug: string) {
             select: {
               id: true,
               title: true,
+              isFreePreview: true,
             },
             orderBy: {
               position: "asc",
@@ -2,6 +2,7 @@ import "server-only";
 import { requireUser } from "../user/require-user";
 import { prisma } from "@/lib/db";
 import { notFound } from "next/navigation";
+import { hasCourseAccess } from "./has-course-access";
 
 export async function getLessonContent(lessonId: string) {
   const session = await requireUser();
@@ -43,19 +44,9 @@ export async function getLessonContent(lessonId: string) {
     return notFound();
   }
 
-  const enrollment = await prisma.enrollment.findUnique({
-    where: {
-      userId_courseId: {
-        userId: session.id,
-        courseId: lesson.Chapter.courseId,
-      },
-    },
-    select: {
-      status: true,
-    },
-  });
+  const hasAccess = await hasCourseAccess(session.id, lesson.Chapter.courseId);
 
-  if (!enrollment || enrollment.status !== "Active") {
+  if (!hasAccess) {
     return notFound();
   }
   return lesson;
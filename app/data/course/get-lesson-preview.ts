@@ -0,0 +1,47 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { notFound } from "next/navigation";
+
+// Free preview lessons of published courses need neither a session nor an
+// enrollment. Every other lesson is served by getLessonContent.
+export async function getLessonPreview(slug: string, lessonId: string) {
+  const lesson = await prisma.lesson.findFirst({
+    where: {
+      id: lessonId,
+      isFreePreview: true,
+      Chapter: {
+        Course: {
+          slug: slug,
+          status: "Published",
+        },
+      },
+    },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      thumbnailKey: true,
+      videoKey: true,
+      Chapter: {
+        select: {
+          title: true,
+          Course: {
+            select: {
+              title: true,
+              slug: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!lesson) {
+    return notFound();
+  }
+
+  return lesson;
+}
+
+export type LessonPreviewType = Awaited<ReturnType<typeof getLessonPreview>>;
@@ -0,0 +1,70 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { isLicenseValid } from "@/lib/license-seats";
+import { isOrganizationMember } from "@/lib/organization-membership";
+import { isOrganizationActive } from "@/lib/organization-status";
+
+// Individual enrollments grant access once paid. Organization enrollments
+// additionally require the learner to still be a member, the organization to be
+// active (not suspended, cancelled or past its trial) and the organization's
+// license for the course to be valid.
+export async function hasCourseAccess(
+  userId: string,
+  courseId: string
+): Promise<boolean> {
+  const enrollment = await prisma.enrollment.findUnique({
+    where: {
+      userId_courseId: {
+        userId: userId,
+        courseId: courseId,
+      },
+    },
+    select: {
+      status: true,
+      enrollmentType: true,
+      organizationId: true,
+      organization: {
+        select: {
+          status: true,
+          trialEndsAt: true,
+        },
+      },
+    },
+  });
+
+  if (!enrollment || enrollment.status !== "Active") {
+    return false;
+  }
+
+  if (enrollment.enrollmentType === "INDIVIDUAL") {
+    return true;
+  }
+
+  if (
+    !enrollment.organizationId ||
+    !enrollment.organization ||
+    !(await isOrganizationMember(enrollment.organizationId, userId))
+  ) {
+    return false;
+  }
+
+  if (!isOrganizationActive(enrollment.organization)) {
+    return false;
+  }
+
+  const license = await prisma.courseLicense.findUnique({
+    where: {
+      organizationId_courseId: {
+        organizationId: enrollment.organizationId,
+        courseId: courseId,
+      },
+    },
+    select: {
+      status: true,
+      validUntil: true,
+    },
+  });
+
+  return isLicenseValid(license);
+}
@@ -0,0 +1,135 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { requireOrganizationAdmin } from "../user/require-organization";
+
+export async function getCourseAssignments() {
+  const { organization } = await requireOrganizationAdmin();
+
+  const assignments = await prisma.courseAssignment.findMany({
+    where: {
+      organizationId: organization.id,
+    },
+    orderBy: {
+      dueDate: "asc",
+    },
+    select: {
+      id: true,
+      name: true,
+      targetType: true,
+      targetRole: true,
+      targetGroup: {
+        select: {
+          name: true,
+        },
+      },
+      dueDate: true,
+      createdAt: true,
+      course: {
+        select: {
+          id: true,
+          title: true,
+        },
+      },
+      learners: {
+        where: {
+          user: {
+            organizationMemberships: {
+              some: {
+                organizationId: organization.id,
+              },
+            },
+          },
+        },
+        select: {
+          completedAt: true,
+          enrollmentError: true,
+        },
+      },
+    },
+  });
+
+  const now = new Date();
+
+  return assignments.map(({ learners, ...assignment }) => {
+    const completed = learners.filter((learner) => learner.completedAt).length;
+
+    return {
+      ...assignment,
+      learners: learners.length,
+      completed: completed,
+      overdue: assignment.dueDate <= now ? learners.length - completed : 0,
+      enrollmentFailures: learners.filter((learner) => learner.enrollmentError)
+        .length,
+    };
+  });
+}
+
+// Courses the organization holds a license for and the members and groups to
+// pick from
+export async function getCourseAssignmentOptions() {
+  const { organization } = await requireOrganizationAdmin();
+
+  const [licenses, members, groups] = await Promise.all([
+    prisma.courseLicense.findMany({
+      where: {
+        organizationId: organization.id,
+      },
+      orderBy: {
+        course: {
+          title: "asc",
+        },
+      },
+      select: {
+        course: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
+      },
+    }),
+    prisma.user.findMany({
+      where: {
+        organizationMemberships: {
+          some: {
+            organizationId: organization.id,
+          },
+        },
+      },
+      orderBy: {
+        name: "asc",
+      },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+      },
+    }),
+    prisma.organizationGroup.findMany({
+      where: {
+        organizationId: organization.id,
+      },
+      orderBy: {
+        name: "asc",
+      },
+      select: {
+        id: true,
+        name: true,
+      },
+    }),
+  ]);
+
+  return {
+    courses: licenses.map((license) => license.course),
+    members: members,
+    groups: groups,
+  };
+}
+
+export type CourseAssignmentType = Awaited<
+  ReturnType<typeof getCourseAssignments>
+>[0];
+export type CourseAssignmentOptionsType = Awaited<
+  ReturnType<typeof getCourseAssignmentOptions>
+>;
@@ -0,0 +1,61 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { getInactiveMembers } from "@/lib/organization-inactivity";
+import { requireOrganizationAdmin } from "../user/require-organization";
+
+export async function getInactiveMembersReport(days: number) {
+  const { organization } = await requireOrganizationAdmin();
+
+  const [inactive, deactivated, settings] = await Promise.all([
+    getInactiveMembers(organization.id, days),
+    prisma.organizationDeactivatedMember.findMany({
+      where: {
+        organizationId: organization.id,
+        // Members who rejoined through an invitation are active again
+        user: {
+          organizationMemberships: {
+            none: {
+              organizationId: organization.id,
+            },
+          },
+        },
+      },
+      orderBy: {
+        deactivatedAt: "desc",
+      },
+      select: {
+        id: true,
+        role: true,
+        reason: true,
+        deactivatedAt: true,
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    }),
+    prisma.organization.findUnique({
+      where: {
+        id: organization.id,
+      },
+      select: {
+        autoDeactivateAfterDays: true,
+      },
+    }),
+  ]);
+
+  return {
+    inactive,
+    deactivated,
+    autoDeactivateAfterDays: settings?.autoDeactivateAfterDays ?? null,
+    seatsFull: organization.usedSeats >= organization.maxSeats,
+  };
+}
+
+export type InactiveMembersReportType = Awaited<
+  ReturnType<typeof getInactiveMembersReport>
+>;
@@ -0,0 +1,37 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+
+export async function getInvitationByToken(token: string) {
+  const invitation = await prisma.organizationInvitation.findUnique({
+    where: {
+      token: token,
+    },
+    select: {
+      organizationId: true,
+      email: true,
+      role: true,
+      message: true,
+      status: true,
+      expiresAt: true,
+      organization: {
+        select: {
+          name: true,
+          logo: true,
+        },
+      },
+      sender: {
+        select: {
+          name: true,
+          email: true,
+        },
+      },
+    },
+  });
+
+  return invitation;
+}
+
+export type InvitationType = NonNullable<
+  Awaited<ReturnType<typeof getInvitationByToken>>
+>;
@@ -0,0 +1,44 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { JoinRequestStatus } from "@/lib/generated/prisma";
+import { requireOrganizationAdmin } from "../user/require-organization";
+
+export async function getJoinRequests(status: JoinRequestStatus) {
+  const { organization } = await requireOrganizationAdmin();
+
+  return prisma.organizationJoinRequest.findMany({
+    where: {
+      organizationId: organization.id,
+      status: status,
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    select: {
+      id: true,
+      source: true,
+      message: true,
+      status: true,
+      reason: true,
+      reviewedAt: true,
+      createdAt: true,
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          image: true,
+        },
+      },
+      reviewedBy: {
+        select: {
+          name: true,
+          email: true,
+        },
+      },
+    },
+  });
+}
+
+export type JoinRequestType = Awaited<ReturnType<typeof getJoinRequests>>[0];
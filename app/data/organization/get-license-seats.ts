@@ -0,0 +1,101 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { notFound } from "next/navigation";
+import { requireOrganizationAdmin } from "../user/require-organization";
+
+export async function getLicenseSeats(licenseId: string) {
+  const { organization } = await requireOrganizationAdmin();
+
+  const license = await prisma.courseLicense.findUnique({
+    where: {
+      id: licenseId,
+      organizationId: organization.id,
+    },
+    select: {
+      id: true,
+      organizationId: true,
+      seats: true,
+      usedSeats: true,
+      validUntil: true,
+      status: true,
+      course: {
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+        },
+      },
+    },
+  });
+
+  if (!license) {
+    return notFound();
+  }
+
+  const groups = await prisma.organizationGroup.findMany({
+    where: {
+      organizationId: organization.id,
+    },
+    orderBy: {
+      name: "asc",
+    },
+    select: {
+      id: true,
+      name: true,
+    },
+  });
+
+  const members = await prisma.user.findMany({
+    where: {
+      organizationMemberships: {
+        some: {
+          organizationId: organization.id,
+        },
+      },
+    },
+    orderBy: {
+      name: "asc",
+    },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      image: true,
+      organizationMemberships: {
+        where: {
+          organizationId: organization.id,
+        },
+        select: {
+          role: true,
+        },
+      },
+      enrollment: {
+        where: {
+          courseId: license.course.id,
+        },
+        select: {
+          id: true,
+          status: true,
+          enrollmentType: true,
+          organizationId: true,
+        },
+      },
+    },
+  });
+
+  return {
+    license,
+    groups,
+    members: members.map(
+      ({ enrollment, organizationMemberships, ...member }) => ({
+        ...member,
+        organizationRole: organizationMemberships[0].role,
+        enrollment: enrollment[0] ?? null,
+      })
+    ),
+  };
+}
+
+export type LicenseSeatsType = Awaited<ReturnType<typeof getLicenseSeats>>;
+export type LicenseSeatMemberType = LicenseSeatsType["members"][0];
@@ -0,0 +1,48 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import {
+  getVerificationRecord,
+  syncOrganizationDomains,
+} from "@/lib/organization-domains";
+import { requireOrganizationOwner } from "../user/require-organization";
+
+export async function getOrganizationDomains() {
+  const { organization } = await requireOrganizationOwner();
+
+  const { domains } = await prisma.organization.findUniqueOrThrow({
+    where: {
+      id: organization.id,
+    },
+    select: {
+      domains: true,
+    },
+  });
+
+  // Domains listed before verification existed have no record yet
+  await syncOrganizationDomains(organization.id, domains);
+
+  const records = await prisma.organizationDomain.findMany({
+    where: {
+      organizationId: organization.id,
+    },
+    select: {
+      domain: true,
+      verificationToken: true,
+      verifiedAt: true,
+    },
+    orderBy: {
+      domain: "asc",
+    },
+  });
+
+  return records.map((record) => ({
+    domain: record.domain,
+    verifiedAt: record.verifiedAt,
+    record: getVerificationRecord(record),
+  }));
+}
+
+export type OrganizationDomainsType = Awaited<
+  ReturnType<typeof getOrganizationDomains>
+>;
@@ -0,0 +1,41 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { requireOrganizationAdmin } from "../user/require-organization";
+
+export async function getOrganizationLicenses() {
+  const { organization } = await requireOrganizationAdmin();
+
+  const data = await prisma.courseLicense.findMany({
+    where: {
+      organizationId: organization.id,
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    select: {
+      id: true,
+      seats: true,
+      usedSeats: true,
+      purchasePrice: true,
+      totalAmount: true,
+      validFrom: true,
+      validUntil: true,
+      status: true,
+      course: {
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          fileKey: true,
+        },
+      },
+    },
+  });
+
+  return data;
+}
+
+export type OrganizationLicenseType = Awaited<
+  ReturnType<typeof getOrganizationLicenses>
+>[0];
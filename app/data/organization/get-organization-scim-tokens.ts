@@ -0,0 +1,30 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { scimBaseUrl } from "@/lib/scim";
+import { requireOrganizationOwner } from "../user/require-organization";
+
+export async function getOrganizationScimTokens() {
+  const { organization } = await requireOrganizationOwner();
+
+  const tokens = await prisma.organizationScimToken.findMany({
+    where: {
+      organizationId: organization.id,
+    },
+    select: {
+      id: true,
+      name: true,
+      lastUsedAt: true,
+      createdAt: true,
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+  });
+
+  return { tokens, baseUrl: scimBaseUrl };
+}
+
+export type OrganizationScimTokensType = Awaited<
+  ReturnType<typeof getOrganizationScimTokens>
+>;
@@ -0,0 +1,40 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { notFound } from "next/navigation";
+import { requireOrganizationOwner } from "../user/require-organization";
+
+export async function getOrganizationSettings() {
+  const { organization } = await requireOrganizationOwner();
+
+  const data = await prisma.organization.findUnique({
+    where: {
+      id: organization.id,
+    },
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      description: true,
+      contactEmail: true,
+      domains: true,
+      allowSelfSignup: true,
+      requireAdminApproval: true,
+      autoDeactivateAfterDays: true,
+      logo: true,
+      displayName: true,
+      brandColor: true,
+      emailSenderName: true,
+    },
+  });
+
+  if (!data) {
+    return notFound();
+  }
+
+  return data;
+}
+
+export type OrganizationSettingsType = Awaited<
+  ReturnType<typeof getOrganizationSettings>
+>;
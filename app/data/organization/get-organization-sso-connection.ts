@@ -0,0 +1,33 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { env } from "@/lib/env";
+import { requireOrganizationOwner } from "../user/require-organization";
+
+export async function getOrganizationSsoConnection() {
+  const { organization } = await requireOrganizationOwner();
+
+  const connection = await prisma.organizationSsoConnection.findUnique({
+    where: {
+      organizationId: organization.id,
+    },
+    select: {
+      id: true,
+      issuer: true,
+      clientId: true,
+      allowedDomains: true,
+      enabled: true,
+    },
+  });
+
+  return {
+    connection,
+    redirectURI: connection
+      ? `${env.BETTER_AUTH_URL}/api/auth/sso/oidc/callback/${connection.id}`
+      : null,
+  };
+}
+
+export type OrganizationSsoConnectionType = Awaited<
+  ReturnType<typeof getOrganizationSsoConnection>
+>;
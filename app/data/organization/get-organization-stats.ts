@@ -0,0 +1,50 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { requireOrganizationAdmin } from "../user/require-organization";
+
+export async function getOrganizationStats() {
+  const { organization } = await requireOrganizationAdmin();
+
+  const [pendingInvitations, pendingJoinRequests, licenseSeats] =
+    await Promise.all([
+      prisma.organizationInvitation.count({
+        where: {
+          organizationId: organization.id,
+          status: "PENDING",
+          expiresAt: {
+            gt: new Date(),
+          },
+        },
+      }),
+
+      prisma.organizationJoinRequest.count({
+        where: {
+          organizationId: organization.id,
+          status: "PENDING",
+        },
+      }),
+
+      // Seats across all course licenses of the organization
+      prisma.courseLicense.aggregate({
+        where: {
+          organizationId: organization.id,
+        },
+        _count: true,
+        _sum: {
+          seats: true,
+          usedSeats: true,
+        },
+      }),
+    ]);
+
+  return {
+    members: organization.usedSeats,
+    maxSeats: organization.maxSeats,
+    pendingInvitations,
+    pendingJoinRequests,
+    licenses: licenseSeats._count,
+    licenseSeats: licenseSeats._sum.seats ?? 0,
+    usedLicenseSeats: licenseSeats._sum.usedSeats ?? 0,
+  };
+}
@@ -0,0 +1,21 @@
+import "server-only";
+
+import { getOrganizationAccess } from "@/lib/organization-status";
+import { getCurrentMembership } from "../user/get-current-membership";
+
+// Status of the signed in user's active organization, null for individual
+// learners
+export async function getOrganizationStatus() {
+  const membership = await getCurrentMembership();
+
+  if (!membership) {
+    return null;
+  }
+
+  return {
+    name: membership.organization.name,
+    role: membership.role,
+    trialEndsAt: membership.organization.trialEndsAt,
+    access: getOrganizationAccess(membership.organization),
+  };
+}
@@ -0,0 +1,37 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { requireOrganizationOwner } from "../user/require-organization";
+
+export async function getOrganizationSubscription() {
+  const { organization } = await requireOrganizationOwner();
+
+  const data = await prisma.organizationSubscription.findFirst({
+    where: {
+      organizationId: organization.id,
+      status: {
+        in: ["ACTIVE", "PAST_DUE", "INCOMPLETE"],
+      },
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    select: {
+      id: true,
+      name: true,
+      seats: true,
+      amount: true,
+      currency: true,
+      interval: true,
+      status: true,
+      currentPeriodEnd: true,
+      cancelAtPeriodEnd: true,
+    },
+  });
+
+  return data;
+}
+
+export type OrganizationSubscriptionType = NonNullable<
+  Awaited<ReturnType<typeof getOrganizationSubscription>>
+>;
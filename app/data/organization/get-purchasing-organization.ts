@@ -0,0 +1,42 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { OrganizationRole } from "@/lib/generated/prisma";
+import { getCurrentMembership } from "../user/get-current-membership";
+
+// Returns the active organization the current user can buy course seats for
+export async function getPurchasingOrganization(courseId: string) {
+  const membership = await getCurrentMembership();
+
+  if (!membership) return null;
+
+  if (
+    membership.role !== OrganizationRole.OWNER &&
+    membership.role !== OrganizationRole.ADMIN
+  ) {
+    return null;
+  }
+
+  const license = await prisma.courseLicense.findUnique({
+    where: {
+      organizationId_courseId: {
+        organizationId: membership.organizationId,
+        courseId: courseId,
+      },
+    },
+    select: {
+      seats: true,
+      usedSeats: true,
+    },
+  });
+
+  return {
+    id: membership.organization.id,
+    name: membership.organization.name,
+    license: license,
+  };
+}
+
+export type PurchasingOrganizationType = NonNullable<
+  Awaited<ReturnType<typeof getPurchasingOrganization>>
+>;
@@ -0,0 +1,235 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { OrganizationRole } from "@/lib/generated/prisma";
+import { requireOrganizationAdmin } from "../user/require-organization";
+
+export type CourseProgressStatus = "not_started" | "in_progress" | "completed";
+
+// Progress of every member on the courses the organization holds a license
+// for, whether the member got the course through a seat or bought it
+export async function getTeamProgress({
+  courseId,
+  role,
+  groupId,
+}: {
+  courseId?: string;
+  role?: OrganizationRole;
+  groupId?: string;
+}) {
+  const { organization } = await requireOrganizationAdmin();
+
+  const courses = await prisma.course.findMany({
+    where: {
+      courseLicenses: {
+        some: {
+          organizationId: organization.id,
+        },
+      },
+    },
+    orderBy: {
+      title: "asc",
+    },
+    select: {
+      id: true,
+      title: true,
+      slug: true,
+      chapter: {
+        select: {
+          lessons: {
+            select: {
+              id: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const groups = await prisma.organizationGroup.findMany({
+    where: {
+      organizationId: organization.id,
+    },
+    orderBy: {
+      name: "asc",
+    },
+    select: {
+      id: true,
+      name: true,
+    },
+  });
+
+  const reportCourses = courseId
+    ? courses.filter((course) => course.id === courseId)
+    : courses;
+  const reportCourseIds = reportCourses.map((course) => course.id);
+
+  const members = await prisma.user.findMany({
+    where: {
+      organizationMemberships: {
+        some: {
+          organizationId: organization.id,
+          ...(role ? { role: role } : {}),
+          ...(groupId ? { groups: { some: { groupId: groupId } } } : {}),
+        },
+      },
+    },
+    orderBy: {
+      name: "asc",
+    },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      organizationMemberships: {
+        where: {
+          organizationId: organization.id,
+        },
+        select: {
+          role: true,
+        },
+      },
+      enrollment: {
+        where: {
+          status: "Active",
+          courseId: {
+            in: reportCourseIds,
+          },
+        },
+        select: {
+          courseId: true,
+          enrollmentType: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+
+  const lessonCourse = new Map<string, string>();
+  for (const course of reportCourses) {
+    for (const chapter of course.chapter) {
+      for (const lesson of chapter.lessons) {
+        lessonCourse.set(lesson.id, course.id);
+      }
+    }
+  }
+
+  const progress = await prisma.lessonProgress.findMany({
+    where: {
+      userId: {
+        in: members.map((member) => member.id),
+      },
+      lessonId: {
+        in: [...lessonCourse.keys()],
+      },
+    },
+    select: {
+      userId: true,
+      lessonId: true,
+      completed: true,
+      updatedAt: true,
+    },
+  });
+
+  // userId:courseId -> completed lessons and the latest progress update
+  const activity = new Map<string, { completed: number; lastActivity: Date }>();
+  for (const entry of progress) {
+    const key = `${entry.userId}:${lessonCourse.get(entry.lessonId)}`;
+    const current = activity.get(key) ?? {
+      completed: 0,
+      lastActivity: entry.updatedAt,
+    };
+
+    activity.set(key, {
+      completed: current.completed + (entry.completed ? 1 : 0),
+      lastActivity:
+        entry.updatedAt > current.lastActivity
+          ? entry.updatedAt
+          : current.lastActivity,
+    });
+  }
+
+  const rows = members.map((member) => {
+    const memberCourses = member.enrollment.map((enrollment) => {
+      const course = reportCourses.find(
+        (course) => course.id === enrollment.courseId
+      );
+      const totalLessons =
+        course?.chapter.reduce(
+          (total, chapter) => total + chapter.lessons.length,
+          0
+        ) ?? 0;
+      const courseActivity = activity.get(
+        `${member.id}:${enrollment.courseId}`
+      );
+      const completedLessons = courseActivity?.completed ?? 0;
+      const completionPercentage =
+        totalLessons > 0
+          ? Math.round((completedLessons / totalLessons) * 100)
+          : 0;
+
+      let status: CourseProgressStatus = "in_progress";
+      if (!courseActivity) {
+        status = "not_started";
+      } else if (totalLessons > 0 && completedLessons >= totalLessons) {
+        status = "completed";
+      }
+
+      return {
+        courseId: enrollment.courseId,
+        courseTitle: course?.title ?? "",
+        enrollmentType: enrollment.enrollmentType,
+        enrolledAt: enrollment.createdAt,
+        totalLessons,
+        completedLessons,
+        completionPercentage,
+        lastActivity: courseActivity?.lastActivity ?? null,
+        status,
+      };
+    });
+
+    const lastActivity = memberCourses.reduce<Date | null>(
+      (latest, course) =>
+        course.lastActivity && (!latest || course.lastActivity > latest)
+          ? course.lastActivity
+          : latest,
+      null
+    );
+
+    return {
+      id: member.id,
+      name: member.name,
+      email: member.email,
+      role: member.organizationMemberships[0].role,
+      lastActivity,
+      courses: memberCourses,
+    };
+  });
+
+  const memberCourses = rows.flatMap((row) => row.courses);
+
+  return {
+    courses: courses.map((course) => ({ id: course.id, title: course.title })),
+    groups,
+    members: rows,
+    summary: {
+      members: rows.length,
+      activeMembers: rows.filter((row) => row.lastActivity).length,
+      averageCompletion:
+        memberCourses.length > 0
+          ? Math.round(
+              memberCourses.reduce(
+                (total, course) => total + course.completionPercentage,
+                0
+              ) / memberCourses.length
+            )
+          : 0,
+      notStarted: memberCourses.filter(
+        (course) => course.status === "not_started"
+      ).length,
+    },
+  };
+}
+
+export type TeamProgressType = Awaited<ReturnType<typeof getTeamProgress>>;
+export type TeamProgressMemberType = TeamProgressType["members"][0];
@@ -0,0 +1,63 @@
+import "server-only";
+import { requireUser } from "./require-user";
+import { prisma } from "@/lib/db";
+
+// Due dates of the courses the user's organizations assigned to them, keyed by
+// course. The earliest open assignment wins when a course is assigned twice.
+export async function getAssignedCourses() {
+  const user = await requireUser();
+
+  const learners = await prisma.courseAssignmentLearner.findMany({
+    where: {
+      userId: user.id,
+      completedAt: null,
+      assignment: {
+        organization: {
+          members: {
+            some: {
+              userId: user.id,
+            },
+          },
+        },
+      },
+    },
+    orderBy: {
+      assignment: {
+        dueDate: "asc",
+      },
+    },
+    select: {
+      assignment: {
+        select: {
+          courseId: true,
+          dueDate: true,
+          organization: {
+            select: {
+              name: true,
+              displayName: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const assignments = new Map<string, AssignedCourseType>();
+
+  for (const { assignment } of learners) {
+    if (!assignments.has(assignment.courseId)) {
+      assignments.set(assignment.courseId, {
+        dueDate: assignment.dueDate,
+        organizationName:
+          assignment.organization.displayName || assignment.organization.name,
+      });
+    }
+  }
+
+  return assignments;
+}
+
+export type AssignedCourseType = {
+  dueDate: Date;
+  organizationName: string;
+};
@@ -0,0 +1,22 @@
+import "server-only";
+
+import { auth } from "@/lib/auth";
+import { getActiveMembership } from "@/lib/organization-membership";
+import { headers } from "next/headers";
+import { cache } from "react";
+
+// Membership of the signed-in user in their active organization, if any
+export const getCurrentMembership = cache(async () => {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  return getActiveMembership(
+    session.user.id,
+    session.session.activeOrganizationId
+  );
+});
@@ -0,0 +1,62 @@
+import "server-only";
+
+import { prisma } from "@/lib/db";
+import { requireUser } from "./require-user";
+
+export async function getPurchaseHistory() {
+  const user = await requireUser();
+
+  const data = await prisma.enrollment.findMany({
+    where: {
+      userId: user.id,
+      enrollmentType: "INDIVIDUAL",
+      status: {
+        in: ["Active", "Cancelled"],
+      },
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    select: {
+      id: true,
+      amount: true,
+      status: true,
+      refundedAmount: true,
+      discountAmount: true,
+      stripePaymentIntentId: true,
+      cancelledAt: true,
+      disputedAt: true,
+      createdAt: true,
+      Course: {
+        select: {
+          title: true,
+          slug: true,
+        },
+      },
+      refunds: {
+        orderBy: {
+          createdAt: "asc",
+        },
+        select: {
+          id: true,
+          amount: true,
+          stripePaymentIntentId: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+
+  // Only the refunds of the latest purchase belong to it
+  return data.map((purchase) => ({
+    ...purchase,
+    refunds: purchase.refunds.filter(
+      (refund) =>
+        refund.stripePaymentIntentId === purchase.stripePaymentIntentId
+    ),
+  }));
+}
+
+export type PurchaseHistoryType = Awaited<
+  ReturnType<typeof getPurchaseHistory>
+>[0];
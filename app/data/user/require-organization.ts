@@ -6,6 +6,8 @@ import { redirect } from "next/navigation";
 import { cache } from "react";
 import type { OrganizationContext } from "@/lib/auth-types";
 import { prisma } from "@/lib/db";
+import { getActiveMembership } from "@/lib/organization-membership";
+import { isOrganizationActive } from "@/lib/organization-status";
 
 export const requireOrganization = cache(
   async (): Promise<{
@@ -20,31 +22,39 @@ export const requireOrganization = cache(
       return redirect("/login");
     }
 
-    // Get full user with organization data
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      include: {
-        organization: true,
-      },
-    });
+    // Membership of the organization selected on the session
+    const membership = await getActiveMembership(
+      session.user.id,
+      session.session.activeOrganizationId
+    );
 
-    if (!user?.organizationId || !user.organization) {
-      return redirect("/organization/create");
+    if (!membership) {
+      return redirect("/org-signup");
     }
 
     const organizationContext: OrganizationContext = {
-      id: user.organization.id,
-      name: user.organization.name,
-      slug: user.organization.slug,
-      role: user.organizationRole as any,
-      maxSeats: user.organization.maxSeats,
-      usedSeats: await prisma.user.count({
-        where: { organizationId: user.organization.id },
+      id: membership.organization.id,
+      name: membership.organization.name,
+      slug: membership.organization.slug,
+      role: membership.role,
+      maxSeats: membership.organization.maxSeats,
+      usedSeats: await prisma.organizationMembership.count({
+        where: { organizationId: membership.organization.id },
       }),
-      status: user.organization.status as any,
-      trialEndsAt: user.organization.trialEndsAt,
+      status: membership.organization.status as any,
+      trialEndsAt: membership.organization.trialEndsAt,
     };
 
+    // Members of an inactive organization are sent back to their dashboard,
+    // where the status banner explains why. The owner keeps access to resolve
+    // billing.
+    if (
+      !isOrganizationActive(membership.organization) &&
+      membership.role !== "OWNER"
+    ) {
+      return redirect("/dashboard");
+    }
+
     return {
       user: session.user,
       organization: organizationContext,
@@ -0,0 +1,34 @@
+import "server-only";
+
+import { auth } from "@/lib/auth";
+import { getActiveMembership } from "@/lib/organization-membership";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { cache } from "react";
+
+// Admins upload course media, organization owners their branding. Owners are
+// limited to the files of their organization.
+export const requireUploader = cache(async () => {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return redirect("/login");
+  }
+
+  if (session.user.role === "admin") {
+    return { session, organizationId: null };
+  }
+
+  const membership = await getActiveMembership(
+    session.user.id,
+    session.session.activeOrganizationId
+  );
+
+  if (membership?.role !== "OWNER") {
+    return redirect("/not-admin");
+  }
+
+  return { session, organizationId: membership.organizationId };
+});
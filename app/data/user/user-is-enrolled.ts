@@ -1,8 +1,8 @@
 import "server-only";
 
 import { auth } from "@/lib/auth";
-import { prisma } from "@/lib/db";
 import { headers } from "next/headers";
+import { hasCourseAccess } from "../course/has-course-access";
 
 export async function checkIfCourseBought(courseId: string): Promise<boolean> {
   const session = await auth.api.getSession({
@@ -11,17 +11,5 @@ export async function checkIfCourseBought(courseId: string): Promise<boolean> {
 
   if (!session?.user) return false;
 
-  const enrollment = await prisma.enrollment.findUnique({
-    where: {
-      userId_courseId: {
-        courseId: courseId,
-        userId: session.user.id,
-      },
-    },
-    select: {
-      status: true,
-    },
-  });
-
-  return enrollment?.status === "Active" ? true : false;
+  return hasCourseAccess(session.user.id, courseId);
 }
@@ -0,0 +1,134 @@
+"use client";
+
+import * as React from "react";
+import {
+  IconBuilding,
+  IconCalendarDue,
+  IconChartBar,
+  IconCreditCard,
+  IconDashboard,
+  IconHistory,
+  IconLicense,
+  IconMail,
+  IconSettings,
+  IconUserPlus,
+  IconUsers,
+  IconUsersGroup,
+} from "@tabler/icons-react";
+
+import { NavMain } from "@/components/sidebar/nav-main";
+import { NavUser } from "@/components/sidebar/nav-user";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import type { OrganizationRole } from "@/lib/auth-types";
+import Link from "next/link";
+
+const navMain = [
+  {
+    title: "Overview",
+    url: "/org",
+    icon: IconDashboard,
+  },
+  {
+    title: "Members",
+    url: "/org/members",
+    icon: IconUsers,
+  },
+  {
+    title: "Groups",
+    url: "/org/groups",
+    icon: IconUsersGroup,
+  },
+  {
+    title: "Invitations",
+    url: "/org/invitations",
+    icon: IconMail,
+  },
+  {
+    title: "Join requests",
+    url: "/org/join-requests",
+    icon: IconUserPlus,
+  },
+  {
+    title: "Licenses",
+    url: "/org/licenses",
+    icon: IconLicense,
+  },
+  {
+    title: "Assignments",
+    url: "/org/assignments",
+    icon: IconCalendarDue,
+  },
+  {
+    title: "Reports",
+    url: "/org/reports",
+    icon: IconChartBar,
+  },
+  {
+    title: "Activity",
+    url: "/org/activity",
+    icon: IconHistory,
+  },
+];
+
+const ownerNav = [
+  {
+    title: "Billing",
+    url: "/org/billing",
+    icon: IconCreditCard,
+  },
+  {
+    title: "Settings",
+    url: "/org/settings",
+    icon: IconSettings,
+  },
+];
+
+interface OrganizationAppSidebarProps
+  extends React.ComponentProps<typeof Sidebar> {
+  organizationName: string;
+  role: OrganizationRole;
+}
+
+export function OrganizationAppSidebar({
+  organizationName,
+  role,
+  ...props
+}: OrganizationAppSidebarProps) {
+  return (
+    <Sidebar collapsible="offcanvas" {...props}>
+      <SidebarHeader>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton
+              asChild
+              className="data-[slot=sidebar-menu-button]:!p-1.5"
+            >
+              <Link href="/org">
+                <IconBuilding className="size-5" />
+                <span className="truncate text-base font-semibold">
+                  {organizationName}
+                </span>
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarHeader>
+      <SidebarContent>
+        <NavMain
+          items={role === "OWNER" ? [...navMain, ...ownerNav] : navMain}
+        />
+      </SidebarContent>
+      <SidebarFooter>
+        <NavUser />
+      </SidebarFooter>
+    </Sidebar>
+  );
+}
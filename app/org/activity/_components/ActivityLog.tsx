@@ -0,0 +1,292 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import type {
+  OrganizationActivityFilters,
+  OrganizationActivityPage,
+  OrganizationMember,
+} from "@/lib/auth-types";
+import { CsvValue, downloadCsv } from "@/lib/csv";
+import {
+  formatActivityMetadata,
+  getActivityLabel,
+  organizationActivityLabels,
+} from "@/lib/organization-activity";
+import { ChevronLeft, ChevronRight, Download, Loader2 } from "lucide-react";
+import { useEffect, useState, useTransition } from "react";
+import { toast } from "sonner";
+import { ActivityMetadata } from "./ActivityMetadata";
+
+const ALL = "all";
+const PAGE_SIZE = 25;
+
+type Filters = {
+  action: string;
+  actorId: string;
+  from: string;
+  to: string;
+};
+
+// Date inputs give calendar days, the range includes the whole "to" day
+function toQuery(filters: Filters): OrganizationActivityFilters {
+  return {
+    action: filters.action === ALL ? undefined : filters.action,
+    actorId: filters.actorId === ALL ? undefined : filters.actorId,
+    from: filters.from
+      ? new Date(`${filters.from}T00:00:00`).toISOString()
+      : undefined,
+    to: filters.to
+      ? new Date(`${filters.to}T23:59:59.999`).toISOString()
+      : undefined,
+  };
+}
+
+export function ActivityLog() {
+  const [filters, setFilters] = useState<Filters>({
+    action: ALL,
+    actorId: ALL,
+    from: "",
+    to: "",
+  });
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<OrganizationActivityPage | null>(null);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [exporting, startExport] = useTransition();
+
+  useEffect(() => {
+    organizationApi
+      .getMembers()
+      .then((result) => setMembers(result.members))
+      .catch(() => setMembers([]));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    organizationApi
+      .getActivities({ ...toQuery(filters), page, pageSize: PAGE_SIZE })
+      .then((result) => {
+        if (!cancelled) setData(result);
+      })
+      .catch((error: Error) => toast.error(error.message));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, page]);
+
+  function updateFilter(key: keyof Filters, value: string) {
+    setFilters((current) => ({ ...current, [key]: value }));
+    setPage(1);
+  }
+
+  function exportCsv() {
+    startExport(async () => {
+      const rows: CsvValue[][] = [
+        ["date", "action", "actor", "actor_email", "entity_type", "details"],
+      ];
+
+      // Walk all pages of the current filter, 100 entries at a time
+      for (let exportPage = 1; ; exportPage++) {
+        const { data: result, error } = await tryCatch(
+          organizationApi.getActivities({
+            ...toQuery(filters),
+            page: exportPage,
+            pageSize: 100,
+          })
+        );
+
+        if (error) {
+          toast.error(error.message);
+          return;
+        }
+
+        for (const activity of result.activities) {
+          rows.push([
+            new Date(activity.createdAt),
+            getActivityLabel(activity.action),
+            activity.user?.name ?? "System",
+            activity.user?.email,
+            activity.entityType,
+            formatActivityMetadata(activity.metadata)
+              .map((entry) => `${entry.label}: ${entry.value}`)
+              .join("; "),
+          ]);
+        }
+
+        if (exportPage * result.pageSize >= result.total) break;
+      }
+
+      downloadCsv(
+        `organization-activity-${new Date().toISOString().slice(0, 10)}.csv`,
+        rows
+      );
+    });
+  }
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <Select
+          value={filters.action}
+          onValueChange={(value) => updateFilter("action", value)}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Action" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All actions</SelectItem>
+            {Object.entries(organizationActivityLabels).map(
+              ([action, label]) => (
+                <SelectItem key={action} value={action}>
+                  {label}
+                </SelectItem>
+              )
+            )}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={filters.actorId}
+          onValueChange={(value) => updateFilter("actorId", value)}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Actor" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All actors</SelectItem>
+            {members.map((member) => (
+              <SelectItem key={member.id} value={member.id}>
+                {member.name || member.email}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Input
+          type="date"
+          className="w-40"
+          aria-label="From"
+          value={filters.from}
+          onChange={(event) => updateFilter("from", event.target.value)}
+        />
+        <Input
+          type="date"
+          className="w-40"
+          aria-label="To"
+          value={filters.to}
+          onChange={(event) => updateFilter("to", event.target.value)}
+        />
+
+        <Button
+          variant="outline"
+          className="ml-auto"
+          onClick={exportCsv}
+          disabled={exporting || !data?.total}
+        >
+          {exporting ? (
+            <Loader2 className="size-4 animate-spin" />
+          ) : (
+            <Download className="size-4" />
+          )}
+          Export CSV
+        </Button>
+      </div>
+
+      {!data ? (
+        <div className="space-y-2">
+          {Array.from({ length: 5 }).map((_, index) => (
+            <Skeleton key={index} className="h-12 w-full" />
+          ))}
+        </div>
+      ) : data.activities.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No activity matches these filters.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Actor</TableHead>
+              <TableHead>Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.activities.map((activity) => (
+              <TableRow key={activity.id} className="align-top">
+                <TableCell className="whitespace-nowrap">
+                  {new Date(activity.createdAt).toLocaleString()}
+                </TableCell>
+                <TableCell className="font-medium">
+                  {getActivityLabel(activity.action)}
+                </TableCell>
+                <TableCell>
+                  {activity.user ? (
+                    <>
+                      <p>{activity.user.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {activity.user.email}
+                      </p>
+                    </>
+                  ) : (
+                    <span className="text-muted-foreground">System</span>
+                  )}
+                </TableCell>
+                <TableCell className="max-w-md whitespace-normal">
+                  <ActivityMetadata metadata={activity.metadata} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {data && data.total > PAGE_SIZE && (
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <span className="text-muted-foreground">
+            Page {page} of {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setPage((current) => current - 1)}
+            disabled={page <= 1}
+          >
+            <ChevronLeft className="size-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setPage((current) => current + 1)}
+            disabled={page >= totalPages}
+          >
+            <ChevronRight className="size-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { formatActivityMetadata } from "@/lib/organization-activity";
+
+export function ActivityMetadata({ metadata }: { metadata: unknown }) {
+  const entries = formatActivityMetadata(metadata);
+
+  if (entries.length === 0) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+      {entries.map((entry, index) => (
+        <div key={index} className="contents">
+          <dt className="text-muted-foreground">{entry.label}</dt>
+          <dd className="break-all">{entry.value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
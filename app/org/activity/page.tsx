@@ -0,0 +1,19 @@
+import { requireOrganizationAdmin } from "@/app/data/user/require-organization";
+import { ActivityLog } from "./_components/ActivityLog";
+
+export default async function OrganizationActivityPage() {
+  const { organization } = await requireOrganizationAdmin();
+
+  return (
+    <>
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-bold">Activity</h1>
+        <p className="text-muted-foreground">
+          Everything that happened in {organization.name}, newest first.
+        </p>
+      </div>
+
+      <ActivityLog />
+    </>
+  );
+}
@@ -0,0 +1,158 @@
+"use server";
+
+import { requireOrganizationAdmin } from "@/app/data/user/require-organization";
+import { createCourseAssignment } from "@/lib/course-assignments";
+import { prisma } from "@/lib/db";
+import { ApiResponse } from "@/lib/types";
+import {
+  courseAssignmentSchema,
+  CourseAssignmentSchemaType,
+} from "@/lib/zodSchemas";
+import { revalidatePath } from "next/cache";
+
+export async function assignCourse(
+  values: CourseAssignmentSchemaType
+): Promise<ApiResponse> {
+  const { user, organization } = await requireOrganizationAdmin();
+
+  const validation = courseAssignmentSchema.safeParse(values);
+
+  if (!validation.success) {
+    return {
+      status: "error",
+      message: "Invalid form data",
+    };
+  }
+
+  const data = validation.data;
+
+  try {
+    const license = await prisma.courseLicense.findUnique({
+      where: {
+        organizationId_courseId: {
+          organizationId: organization.id,
+          courseId: data.courseId,
+        },
+      },
+      select: {
+        id: true,
+      },
+    });
+
+    if (!license) {
+      return {
+        status: "error",
+        message: "Your organization has no license for this course",
+      };
+    }
+
+    if (data.targetType === "GROUP") {
+      const group = await prisma.organizationGroup.findUnique({
+        where: {
+          id: data.targetGroupId,
+          organizationId: organization.id,
+        },
+        select: {
+          id: true,
+        },
+      });
+
+      if (!group) {
+        return {
+          status: "error",
+          message: "Group not found",
+        };
+      }
+    }
+
+    const result = await createCourseAssignment({
+      organizationId: organization.id,
+      courseId: data.courseId,
+      name: data.name,
+      targetType: data.targetType,
+      targetRole: data.targetRole,
+      targetGroupId: data.targetGroupId,
+      userIds: data.userIds,
+      dueDate: new Date(`${data.dueDate}T23:59:59`),
+      createdById: user.id,
+    });
+
+    revalidatePath("/org/assignments");
+
+    if (result.failed > 0) {
+      return {
+        status: "success",
+        message: `Course assigned, but ${result.failed} of ${result.added} members could not be enrolled. Check the seats of the license.`,
+      };
+    }
+
+    return {
+      status: "success",
+      message: `Course assigned to ${result.added} ${
+        result.added === 1 ? "member" : "members"
+      }`,
+    };
+  } catch {
+    return {
+      status: "error",
+      message: "Failed to assign course",
+    };
+  }
+}
+
+// Enrollments created by the assignment stay in place
+export async function deleteCourseAssignment(
+  assignmentId: string
+): Promise<ApiResponse> {
+  const { user, organization } = await requireOrganizationAdmin();
+
+  try {
+    const assignment = await prisma.courseAssignment.findUnique({
+      where: {
+        id: assignmentId,
+        organizationId: organization.id,
+      },
+      select: {
+        id: true,
+        courseId: true,
+      },
+    });
+
+    if (!assignment) {
+      return {
+        status: "error",
+        message: "Assignment not found",
+      };
+    }
+
+    await prisma.$transaction([
+      prisma.courseAssignment.delete({
+        where: {
+          id: assignment.id,
+        },
+      }),
+      prisma.organizationActivity.create({
+        data: {
+          organizationId: organization.id,
+          userId: user.id,
+          action: "course_assignment_removed",
+          entityType: "course_assignment",
+          entityId: assignment.id,
+          metadata: { courseId: assignment.courseId },
+        },
+      }),
+    ]);
+
+    revalidatePath("/org/assignments");
+
+    return {
+      status: "success",
+      message: "Assignment removed",
+    };
+  } catch {
+    return {
+      status: "error",
+      message: "Failed to remove assignment",
+    };
+  }
+}
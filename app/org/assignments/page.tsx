@@ -0,0 +1,131 @@
+import {
+  getCourseAssignmentOptions,
+  getCourseAssignments,
+} from "@/app/data/organization/get-course-assignments";
+import { EmptyState } from "@/components/general/EmptyState";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { CourseAssignmentType } from "@/app/data/organization/get-course-assignments";
+import { AssignCourseDialog } from "./_components/AssignCourseDialog";
+import { DeleteAssignmentButton } from "./_components/DeleteAssignmentButton";
+
+function describeTarget(assignment: CourseAssignmentType) {
+  switch (assignment.targetType) {
+    case "ALL":
+      return "All members";
+    case "ROLE":
+      return `Role: ${assignment.targetRole?.toLowerCase()}`;
+    case "GROUP":
+      return `Group: ${assignment.targetGroup?.name}`;
+    case "USERS":
+      return "Selected members";
+  }
+}
+
+export default async function OrganizationAssignmentsPage() {
+  const [assignments, options] = await Promise.all([
+    getCourseAssignments(),
+    getCourseAssignmentOptions(),
+  ]);
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl font-bold">Assignments</h1>
+          <p className="text-muted-foreground">
+            Required training with due dates. Members who join later are
+            enrolled automatically when the assignment targets all members, a
+            role or a group.
+          </p>
+        </div>
+
+        <AssignCourseDialog {...options} />
+      </div>
+
+      {assignments.length === 0 ? (
+        <EmptyState
+          title="No assignments yet"
+          description="Assign a licensed course to your members with a due date."
+          buttonText="View Licenses"
+          href="/org/licenses"
+        />
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Course</TableHead>
+              <TableHead>Assigned to</TableHead>
+              <TableHead>Due date</TableHead>
+              <TableHead>Completed</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Remove</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {assignments.map((assignment) => (
+              <TableRow key={assignment.id}>
+                <TableCell>
+                  <p className="font-medium">{assignment.course.title}</p>
+                  {assignment.name && (
+                    <p className="text-xs text-muted-foreground">
+                      {assignment.name}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>{describeTarget(assignment)}</TableCell>
+                <TableCell>{assignment.dueDate.toLocaleDateString()}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-3">
+                    <Progress
+                      className="w-24"
+                      value={
+                        assignment.learners
+                          ? (assignment.completed / assignment.learners) * 100
+                          : 0
+                      }
+                    />
+                    <span className="text-sm tabular-nums">
+                      {assignment.completed} / {assignment.learners}
+                    </span>
+                  </div>
+                </TableCell>
+                <TableCell className="space-x-1">
+                  {assignment.overdue > 0 ? (
+                    <Badge variant="destructive">
+                      {assignment.overdue} overdue
+                    </Badge>
+                  ) : assignment.learners > 0 &&
+                    assignment.completed === assignment.learners ? (
+                    <Badge>Completed</Badge>
+                  ) : (
+                    <Badge variant="outline">In progress</Badge>
+                  )}
+                  {assignment.enrollmentFailures > 0 && (
+                    <Badge variant="secondary">
+                      {assignment.enrollmentFailures} not enrolled
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <DeleteAssignmentButton
+                    assignmentId={assignment.id}
+                    courseTitle={assignment.course.title}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { tryCatch } from "@/hooks/try-catch";
+import { Loader2 } from "lucide-react";
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { openBillingPortal } from "../actions";
+
+export function ManageBillingButton() {
+  const [pending, startTransition] = useTransition();
+
+  function onClick() {
+    startTransition(async () => {
+      const { data: result, error } = await tryCatch(openBillingPortal());
+
+      if (error) {
+        toast.error("An unexpected error occurred. Please try again.");
+        return;
+      }
+
+      if (result.status === "error") {
+        toast.error(result.message);
+      }
+    });
+  }
+
+  return (
+    <Button onClick={onClick} disabled={pending}>
+      {pending ? (
+        <>
+          <Loader2 className="size-4 animate-spin" />
+          Loading...
+        </>
+      ) : (
+        "Manage seats and billing"
+      )}
+    </Button>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { tryCatch } from "@/hooks/try-catch";
+import { formatCents } from "@/lib/license-pricing";
+import {
+  getOrganizationPlan,
+  organizationPlans,
+} from "@/lib/organization-plans";
+import { cn } from "@/lib/utils";
+import {
+  organizationSubscriptionSchema,
+  OrganizationSubscriptionSchemaType,
+} from "@/lib/zodSchemas";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Check, Loader2 } from "lucide-react";
+import { useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { startSubscriptionCheckout } from "../actions";
+
+export function PlanPicker({ minimumSeats }: { minimumSeats: number }) {
+  const [pending, startTransition] = useTransition();
+
+  const form = useForm<OrganizationSubscriptionSchemaType>({
+    resolver: zodResolver(organizationSubscriptionSchema),
+    defaultValues: {
+      planId: organizationPlans[0].id,
+      interval: "MONTHLY",
+      seats: Math.max(minimumSeats, organizationPlans[0].minimumSeats),
+    },
+  });
+
+  const interval = form.watch("interval");
+  const plan = getOrganizationPlan(form.watch("planId"));
+  const seats = Number(form.watch("seats")) || 0;
+
+  function onSubmit(values: OrganizationSubscriptionSchemaType) {
+    startTransition(async () => {
+      const { data: result, error } = await tryCatch(
+        startSubscriptionCheckout(values)
+      );
+
+      if (error) {
+        toast.error("An unexpected error occurred. Please try again.");
+        return;
+      }
+
+      if (result.status === "error") {
+        toast.error(result.message);
+      }
+    });
+  }
+
+  return (
+    <Form {...form}>
+      <form className="space-y-6" onSubmit={form.handleSubmit(onSubmit)}>
+        <FormField
+          control={form.control}
+          name="interval"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Billing interval</FormLabel>
+              <FormControl>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  value={field.value}
+                  onValueChange={(value) => value && field.onChange(value)}
+                >
+                  <ToggleGroupItem value="MONTHLY" className="px-4">
+                    Monthly
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="YEARLY" className="px-4">
+                    Yearly
+                  </ToggleGroupItem>
+                </ToggleGroup>
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {organizationPlans.map((option) => (
+            <Card
+              key={option.id}
+              role="button"
+              onClick={() => form.setValue("planId", option.id)}
+              className={cn(
+                "cursor-pointer transition-colors",
+                option.id === plan?.id && "border-primary ring-1 ring-primary"
+              )}
+            >
+              <CardHeader>
+                <CardTitle>{option.name}</CardTitle>
+                <CardDescription>{option.description}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p>
+                  <span className="text-2xl font-bold">
+                    {formatCents(option.seatAmount[interval])}
+                  </span>{" "}
+                  <span className="text-sm text-muted-foreground">
+                    per seat / {interval === "YEARLY" ? "year" : "month"}
+                  </span>
+                </p>
+                <ul className="space-y-2 text-sm">
+                  {option.features.map((feature) => (
+                    <li key={feature} className="flex items-center gap-2">
+                      <Check className="size-4 text-primary" />
+                      {feature}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="seats"
+          render={({ field }) => (
+            <FormItem className="max-w-xs">
+              <FormLabel>Seats</FormLabel>
+              <FormControl>
+                <Input type="number" min={1} {...field} />
+              </FormControl>
+              <FormDescription>
+                {plan
+                  ? `The ${plan.name} plan starts at ${plan.minimumSeats} seats.`
+                  : null}{" "}
+                You can change the number of seats later.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {plan && (
+          <p className="font-semibold">
+            Total: {formatCents(plan.seatAmount[interval] * seats)} per{" "}
+            {interval === "YEARLY" ? "year" : "month"}
+          </p>
+        )}
+
+        <Button type="submit" disabled={pending}>
+          {pending ? (
+            <>
+              <Loader2 className="size-4 animate-spin" />
+              Loading...
+            </>
+          ) : (
+            "Continue to checkout"
+          )}
+        </Button>
+      </form>
+    </Form>
+  );
+}
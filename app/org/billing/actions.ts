@@ -0,0 +1,201 @@
+"use server";
+
+import { requireOrganizationOwner } from "@/app/data/user/require-organization";
+import arcjet, { fixedWindow } from "@/lib/arcjet";
+import { prisma } from "@/lib/db";
+import { env } from "@/lib/env";
+import { getOrganizationStripeCustomerId } from "@/lib/organization-billing";
+import { getOrganizationPlan } from "@/lib/organization-plans";
+import { stripe } from "@/lib/stripe";
+import { ApiResponse } from "@/lib/types";
+import {
+  organizationSubscriptionSchema,
+  OrganizationSubscriptionSchemaType,
+} from "@/lib/zodSchemas";
+import { request } from "@arcjet/next";
+import { redirect } from "next/navigation";
+import Stripe from "stripe";
+
+const aj = arcjet.withRule(
+  fixedWindow({
+    mode: "LIVE",
+    window: "1m",
+    max: 5,
+  })
+);
+
+export async function startSubscriptionCheckout(
+  values: OrganizationSubscriptionSchemaType
+): Promise<ApiResponse | never> {
+  const { user, organization } = await requireOrganizationOwner();
+
+  const validation = organizationSubscriptionSchema.safeParse(values);
+
+  if (!validation.success) {
+    return {
+      status: "error",
+      message: "Invalid form data",
+    };
+  }
+
+  const { planId, interval, seats } = validation.data;
+  const plan = getOrganizationPlan(planId);
+
+  if (!plan) {
+    return {
+      status: "error",
+      message: "Plan not found",
+    };
+  }
+
+  if (seats < plan.minimumSeats) {
+    return {
+      status: "error",
+      message: `The ${plan.name} plan starts at ${plan.minimumSeats} seats`,
+    };
+  }
+
+  if (seats < organization.usedSeats) {
+    return {
+      status: "error",
+      message: `Your organization already has ${organization.usedSeats} members`,
+    };
+  }
+
+  let checkoutUrl: string;
+  try {
+    const req = await request();
+    const decision = await aj.protect(req, {
+      fingerprint: user.id,
+    });
+
+    if (decision.isDenied()) {
+      return {
+        status: "error",
+        message: "You have been blocked",
+      };
+    }
+
+    const existingSubscription = await prisma.organizationSubscription.count({
+      where: {
+        organizationId: organization.id,
+        status: {
+          in: ["ACTIVE", "PAST_DUE"],
+        },
+      },
+    });
+
+    if (existingSubscription > 0) {
+      return {
+        status: "error",
+        message: "Your organization already has a subscription",
+      };
+    }
+
+    const billingOrganization = await prisma.organization.findUniqueOrThrow({
+      where: {
+        id: organization.id,
+      },
+      select: {
+        id: true,
+        name: true,
+        stripeCustomerId: true,
+        billingEmail: true,
+        contactEmail: true,
+      },
+    });
+
+    const stripeCustomerId = await getOrganizationStripeCustomerId(
+      billingOrganization,
+      user.email
+    );
+
+    const metadata = {
+      type: "organization_subscription",
+      userId: user.id,
+      organizationId: organization.id,
+      planId: plan.id,
+    };
+
+    const checkoutSession = await stripe.checkout.sessions.create({
+      customer: stripeCustomerId,
+      line_items: [
+        {
+          price_data: {
+            currency: "usd",
+            unit_amount: plan.seatAmount[interval],
+            recurring: {
+              interval: interval === "YEARLY" ? "year" : "month",
+            },
+            product_data: {
+              name: `${plan.name} plan - per seat`,
+            },
+          },
+          quantity: seats,
+        },
+      ],
+      mode: "subscription",
+      subscription_data: {
+        metadata: metadata,
+      },
+      success_url: `${env.BETTER_AUTH_URL}/org/billing?checkout=success`,
+      cancel_url: `${env.BETTER_AUTH_URL}/org/billing`,
+      metadata: metadata,
+    });
+
+    checkoutUrl = checkoutSession.url as string;
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeError) {
+      return {
+        status: "error",
+        message: "Payment system error. Please try again later.",
+      };
+    }
+
+    return {
+      status: "error",
+      message: "Failed to start subscription checkout",
+    };
+  }
+
+  redirect(checkoutUrl);
+}
+
+// Seat changes, cancellation and payment methods are handled by the Stripe
+// customer portal, the webhook syncs the result back
+export async function openBillingPortal(): Promise<ApiResponse | never> {
+  const { organization } = await requireOrganizationOwner();
+
+  let portalUrl: string;
+  try {
+    const billingOrganization = await prisma.organization.findUnique({
+      where: {
+        id: organization.id,
+      },
+      select: {
+        stripeCustomerId: true,
+      },
+    });
+
+    if (!billingOrganization?.stripeCustomerId) {
+      return {
+        status: "error",
+        message: "Your organization has no billing account yet",
+      };
+    }
+
+    const portalSession = await stripe.billingPortal.sessions.create({
+      customer: billingOrganization.stripeCustomerId,
+      return_url: `${env.BETTER_AUTH_URL}/org/billing`,
+    });
+
+    portalUrl = portalSession.url;
+  } catch {
+    return {
+      status: "error",
+      message: "Failed to open billing portal",
+    };
+  }
+
+  redirect(portalUrl);
+}
@@ -0,0 +1,67 @@
+import { getOrganizationSubscription } from "@/app/data/organization/get-organization-subscription";
+import { requireOrganizationOwner } from "@/app/data/user/require-organization";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatCents } from "@/lib/license-pricing";
+import { ManageBillingButton } from "./_components/ManageBillingButton";
+import { PlanPicker } from "./_components/PlanPicker";
+
+export default async function OrganizationBillingPage() {
+  const { organization } = await requireOrganizationOwner();
+  const subscription = await getOrganizationSubscription();
+
+  return (
+    <>
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-bold">Billing</h1>
+        <p className="text-muted-foreground">
+          {organization.usedSeats} of {organization.maxSeats} seats are
+          currently in use.
+        </p>
+      </div>
+
+      {subscription ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>{subscription.name} plan</span>
+              {subscription.status === "ACTIVE" ? (
+                <Badge>Active</Badge>
+              ) : subscription.status === "PAST_DUE" ? (
+                <Badge variant="destructive">Payment failed</Badge>
+              ) : (
+                <Badge variant="outline">Incomplete</Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              {subscription.seats} seats · {formatCents(subscription.amount)}{" "}
+              per {subscription.interval === "YEARLY" ? "year" : "month"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {subscription.status === "PAST_DUE" && (
+              <p className="text-sm text-destructive">
+                Your last payment failed. Update your payment method to keep
+                access for your members.
+              </p>
+            )}
+            <p className="text-sm text-muted-foreground">
+              {subscription.cancelAtPeriodEnd
+                ? `Your subscription ends on ${subscription.currentPeriodEnd.toLocaleDateString()}.`
+                : `Renews on ${subscription.currentPeriodEnd.toLocaleDateString()}.`}
+            </p>
+            <ManageBillingButton />
+          </CardContent>
+        </Card>
+      ) : (
+        <PlanPicker minimumSeats={organization.usedSeats} />
+      )}
+    </>
+  );
+}
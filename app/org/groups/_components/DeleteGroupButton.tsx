@@ -0,0 +1,70 @@
+"use client";
+
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import type { OrganizationGroup } from "@/lib/auth-types";
+import { Trash2 } from "lucide-react";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+export function DeleteGroupButton({
+  group,
+  onDeleted,
+}: {
+  group: OrganizationGroup;
+  onDeleted: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [pending, startTransition] = useTransition();
+
+  function onSubmit() {
+    startTransition(async () => {
+      const { error } = await tryCatch(organizationApi.deleteGroup(group.id));
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success(`Group ${group.name} deleted`);
+      setOpen(false);
+      onDeleted();
+    });
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="icon">
+          <Trash2 className="size-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete {group.name}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Members stay in your organization and keep their courses. Groups
+            that course assignments target cannot be deleted.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button variant="destructive" onClick={onSubmit} disabled={pending}>
+            {pending ? "Deleting..." : "Delete"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import type { OrganizationGroup } from "@/lib/auth-types";
+import {
+  organizationGroupSchema,
+  OrganizationGroupSchemaType,
+} from "@/lib/zodSchemas";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, Pencil, Plus } from "lucide-react";
+import { useState, useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+// Creates a group, or renames the given one
+export function GroupDialog({
+  group,
+  onSaved,
+}: {
+  group?: OrganizationGroup;
+  onSaved: () => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [pending, startTransition] = useTransition();
+
+  const form = useForm<OrganizationGroupSchemaType>({
+    resolver: zodResolver(organizationGroupSchema),
+    defaultValues: {
+      name: group?.name ?? "",
+      description: group?.description ?? "",
+    },
+  });
+
+  function onSubmit(values: OrganizationGroupSchemaType) {
+    startTransition(async () => {
+      const { error } = await tryCatch(
+        group
+          ? organizationApi.updateGroup({ groupId: group.id, ...values })
+          : organizationApi.createGroup(values)
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success(group ? "Group updated" : `Group ${values.name} created`);
+
+      if (!group) form.reset();
+      setIsOpen(false);
+      onSaved();
+    });
+  }
+
+  function onOpenChange(open: boolean) {
+    // The group may have changed since the dialog was last opened
+    if (open && group) {
+      form.reset({ name: group.name, description: group.description ?? "" });
+    }
+    setIsOpen(open);
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        {group ? (
+          <Button variant="ghost" size="icon">
+            <Pencil className="size-4" />
+          </Button>
+        ) : (
+          <Button>
+            <Plus className="size-4" />
+            New group
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{group ? "Edit group" : "Create a group"}</DialogTitle>
+          <DialogDescription>
+            Group names are unique within your organization.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Sales" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button disabled={pending} type="submit" className="w-full">
+                {pending ? (
+                  <>
+                    <Loader2 className="size-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : group ? (
+                  "Save changes"
+                ) : (
+                  "Create group"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import type { OrganizationGroup, OrganizationMember } from "@/lib/auth-types";
+import { Loader2, Users } from "lucide-react";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+export function GroupMembersDialog({
+  group,
+  members,
+  onSaved,
+}: {
+  group: OrganizationGroup;
+  members: OrganizationMember[];
+  onSaved: () => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [pending, startTransition] = useTransition();
+  const [selected, setSelected] = useState<string[]>([]);
+
+  function onOpenChange(open: boolean) {
+    if (open) {
+      setSelected(group.members.map((member) => member.id));
+    }
+    setIsOpen(open);
+  }
+
+  function onSubmit() {
+    startTransition(async () => {
+      const { error } = await tryCatch(
+        organizationApi.setGroupMembers(group.id, selected)
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success(`Members of ${group.name} updated`);
+      setIsOpen(false);
+      onSaved();
+    });
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Users className="size-4" />
+          Members
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Members of {group.name}</DialogTitle>
+          <DialogDescription>
+            {selected.length} of {members.length} members selected.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-80 space-y-2 overflow-y-auto rounded-md border p-3">
+          {members.map((member) => (
+            <label key={member.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={selected.includes(member.id)}
+                onCheckedChange={(checked) =>
+                  setSelected((current) =>
+                    checked
+                      ? [...current, member.id]
+                      : current.filter((id) => id !== member.id)
+                  )
+                }
+              />
+              <span>{member.name}</span>
+              <span className="text-muted-foreground">{member.email}</span>
+            </label>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button disabled={pending} onClick={onSubmit} className="w-full">
+            {pending ? (
+              <>
+                <Loader2 className="size-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save members"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import type { OrganizationGroup, OrganizationMember } from "@/lib/auth-types";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { DeleteGroupButton } from "./DeleteGroupButton";
+import { GroupDialog } from "./GroupDialog";
+import { GroupMembersDialog } from "./GroupMembersDialog";
+
+export function GroupsTable() {
+  const [groups, setGroups] = useState<OrganizationGroup[] | null>(null);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+
+  const loadGroups = useCallback(async () => {
+    const { data, error } = await tryCatch(
+      Promise.all([organizationApi.getGroups(), organizationApi.getMembers()])
+    );
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    setGroups(data[0].groups);
+    setMembers(data[1].members);
+  }, []);
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
+
+  if (!groups) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 3 }).map((_, index) => (
+          <Skeleton key={index} className="h-12 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <GroupDialog onSaved={loadGroups} />
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No groups yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Group</TableHead>
+              <TableHead>Members</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {groups.map((group) => (
+              <TableRow key={group.id}>
+                <TableCell>
+                  <p className="font-medium">{group.name}</p>
+                  {group.description && (
+                    <p className="text-xs text-muted-foreground">
+                      {group.description}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="tabular-nums">
+                  {group.members.length}
+                </TableCell>
+                <TableCell>
+                  {new Date(group.createdAt).toLocaleDateString()}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    <GroupMembersDialog
+                      group={group}
+                      members={members}
+                      onSaved={loadGroups}
+                    />
+                    <GroupDialog group={group} onSaved={loadGroups} />
+                    <DeleteGroupButton group={group} onDeleted={loadGroups} />
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { requireOrganizationAdmin } from "@/app/data/user/require-organization";
+import { GroupsTable } from "./_components/GroupsTable";
+
+export default async function OrganizationGroupsPage() {
+  const { organization } = await requireOrganizationAdmin();
+
+  return (
+    <>
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-bold">Groups</h1>
+        <p className="text-muted-foreground">
+          Departments and cohorts of {organization.name}. Use groups to invite
+          members, assign seats and courses, and filter reports.
+        </p>
+      </div>
+
+      <GroupsTable />
+    </>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import type { PendingInvitation } from "@/lib/auth-types";
+import { RefreshCw, X } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState, useTransition } from "react";
+import { toast } from "sonner";
+import { InviteMemberDialog } from "./InviteMemberDialog";
+
+export function InvitationsTable() {
+  const router = useRouter();
+  const [invitations, setInvitations] = useState<PendingInvitation[] | null>(
+    null
+  );
+  const [pending, startTransition] = useTransition();
+
+  const loadInvitations = useCallback(async () => {
+    const { data, error } = await tryCatch(
+      organizationApi.getPendingInvitations()
+    );
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    setInvitations(data.invitations);
+  }, []);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
+
+  function refresh() {
+    loadInvitations();
+    router.refresh();
+  }
+
+  function resendInvitation(invitation: PendingInvitation) {
+    startTransition(async () => {
+      const { error } = await tryCatch(
+        organizationApi.resendInvitation(invitation.id)
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success(`Invitation resent to ${invitation.email}`);
+      refresh();
+    });
+  }
+
+  function cancelInvitation(invitation: PendingInvitation) {
+    startTransition(async () => {
+      const { error } = await tryCatch(
+        organizationApi.cancelInvitation(invitation.id)
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success(`Invitation for ${invitation.email} cancelled`);
+      refresh();
+    });
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <InviteMemberDialog onInvited={refresh} />
+      </div>
+
+      {!invitations ? (
+        <div className="space-y-2">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <Skeleton key={index} className="h-12 w-full" />
+          ))}
+        </div>
+      ) : invitations.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No pending invitations.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Email</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Invited by</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invitations.map((invitation) => {
+              const expiresAt = new Date(invitation.expiresAt);
+              const isExpired = expiresAt < new Date();
+
+              return (
+                <TableRow key={invitation.id}>
+                  <TableCell className="font-medium">
+                    {invitation.email}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{invitation.role}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {invitation.sender.name || invitation.sender.email}
+                  </TableCell>
+                  <TableCell>
+                    {isExpired ? (
+                      <Badge variant="destructive">Expired</Badge>
+                    ) : (
+                      expiresAt.toLocaleDateString()
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => resendInvitation(invitation)}
+                        disabled={pending}
+                      >
+                        <RefreshCw className="size-4" />
+                        Resend
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => cancelInvitation(invitation)}
+                        disabled={pending}
+                      >
+                        <X className="size-4" />
+                        Cancel
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
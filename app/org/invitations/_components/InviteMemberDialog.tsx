@@ -0,0 +1,210 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import type { OrganizationGroup } from "@/lib/auth-types";
+import { inviteMemberSchema, InviteMemberSchemaType } from "@/lib/zodSchemas";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, UserPlus } from "lucide-react";
+import { useEffect, useState, useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+export function InviteMemberDialog({ onInvited }: { onInvited: () => void }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [pending, startTransition] = useTransition();
+  const [groups, setGroups] = useState<OrganizationGroup[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    organizationApi
+      .getGroups()
+      .then((data) => setGroups(data.groups))
+      .catch(() => setGroups([]));
+  }, [isOpen]);
+
+  const form = useForm<InviteMemberSchemaType>({
+    resolver: zodResolver(inviteMemberSchema),
+    defaultValues: {
+      email: "",
+      role: "MEMBER",
+      message: "",
+      groupIds: [],
+    },
+  });
+
+  function onSubmit(values: InviteMemberSchemaType) {
+    startTransition(async () => {
+      const { data: result, error } = await tryCatch(
+        organizationApi.inviteMember({
+          ...values,
+          message: values.message || undefined,
+        })
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      if (result.emailSent) {
+        toast.success(`Invitation sent to ${values.email}`);
+      } else {
+        toast.warning(
+          "Invitation created, but the email could not be sent. Try resending it."
+        );
+      }
+
+      form.reset();
+      setIsOpen(false);
+      onInvited();
+    });
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <UserPlus className="size-4" />
+          Invite member
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Invite a member</DialogTitle>
+          <DialogDescription>
+            We will email them a link to join your organization.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="email"
+                      placeholder="m@example.com"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="role"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Role</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="MEMBER">Member</SelectItem>
+                      <SelectItem value="ADMIN">Admin</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="message"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Message (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {groups.length > 0 && (
+              <FormField
+                control={form.control}
+                name="groupIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Groups (optional)</FormLabel>
+                    <div className="max-h-32 space-y-2 overflow-y-auto rounded-md border p-3">
+                      {groups.map((group) => (
+                        <label
+                          key={group.id}
+                          className="flex items-center gap-2 text-sm"
+                        >
+                          <Checkbox
+                            checked={field.value.includes(group.id)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, group.id]
+                                  : field.value.filter((id) => id !== group.id)
+                              )
+                            }
+                          />
+                          {group.name}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <DialogFooter>
+              <Button disabled={pending} type="submit" className="w-full">
+                {pending ? (
+                  <>
+                    <Loader2 className="size-4 animate-spin" />
+                    Sending...
+                  </>
+                ) : (
+                  "Send invitation"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
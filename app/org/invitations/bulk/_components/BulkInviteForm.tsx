@@ -0,0 +1,198 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import type { BulkInviteRowResult } from "@/lib/auth-types";
+import { downloadCsv, parseCsvRecords } from "@/lib/csv";
+import { Download, Loader2, Upload } from "lucide-react";
+import { ChangeEvent, useState, useTransition } from "react";
+import { toast } from "sonner";
+
+const statusVariants = {
+  invited: "default",
+  skipped: "secondary",
+  error: "destructive",
+} as const;
+
+export function BulkInviteForm() {
+  const [pending, startTransition] = useTransition();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<Record<string, string>[]>([]);
+  const [message, setMessage] = useState("");
+  const [results, setResults] = useState<BulkInviteRowResult[] | null>(null);
+
+  async function onFileChange(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    setResults(null);
+
+    if (!file) {
+      setFileName(null);
+      setRows([]);
+      return;
+    }
+
+    const records = parseCsvRecords(await file.text());
+
+    if (records.length > 0 && !("email" in records[0])) {
+      toast.error("The CSV file needs an 'email' column");
+      setRows([]);
+      return;
+    }
+
+    setFileName(file.name);
+    setRows(records);
+  }
+
+  function onSubmit() {
+    startTransition(async () => {
+      const { data: result, error } = await tryCatch(
+        organizationApi.bulkInviteMembers({
+          rows,
+          message: message || undefined,
+        })
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      setResults(result.results);
+      toast.success(`${result.invitedCount} invitations created`);
+
+      if (!result.emailSent) {
+        toast.warning("Some invitation emails could not be sent");
+      }
+    });
+  }
+
+  function downloadReport() {
+    if (!results) return;
+
+    downloadCsv("bulk-invite-report.csv", [
+      ["row", "email", "status", "message"],
+      ...results.map((result) => [
+        result.row,
+        result.email,
+        result.status,
+        result.message,
+      ]),
+    ]);
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Upload CSV</CardTitle>
+          <CardDescription>
+            Columns: <code>email</code>, <code>role</code> (ADMIN or MEMBER,
+            defaults to MEMBER), optional <code>courses</code> with course slugs
+            and optional <code>groups</code> with group names, both separated by
+            semicolons.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-2">
+            <Label htmlFor="csv">CSV file</Label>
+            <Input
+              id="csv"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={onFileChange}
+              disabled={pending}
+            />
+            {fileName && (
+              <p className="text-sm text-muted-foreground">
+                {fileName}: {rows.length} rows found
+              </p>
+            )}
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="message">Message (optional)</Label>
+            <Textarea
+              id="message"
+              placeholder="Welcome to the team!"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              disabled={pending}
+            />
+          </div>
+
+          <Button onClick={onSubmit} disabled={pending || rows.length === 0}>
+            {pending ? (
+              <>
+                <Loader2 className="size-4 animate-spin" />
+                Inviting...
+              </>
+            ) : (
+              <>
+                <Upload className="size-4" />
+                Invite {rows.length} people
+              </>
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {results && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Report</CardTitle>
+            <Button variant="outline" size="sm" onClick={downloadReport}>
+              <Download className="size-4" />
+              Download CSV
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Message</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map((result) => (
+                  <TableRow key={result.row}>
+                    <TableCell>{result.row}</TableCell>
+                    <TableCell>{result.email}</TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariants[result.status]}>
+                        {result.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{result.message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,21 @@
+import { requireOrganizationAdmin } from "@/app/data/user/require-organization";
+import { BulkInviteForm } from "./_components/BulkInviteForm";
+
+export default async function BulkInvitePage() {
+  const { organization } = await requireOrganizationAdmin();
+
+  return (
+    <>
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-bold">Bulk invite members</h1>
+        <p className="text-muted-foreground">
+          Upload a CSV file to invite many people to {organization.name} at
+          once. {organization.usedSeats} of {organization.maxSeats} seats are
+          currently in use.
+        </p>
+      </div>
+
+      <BulkInviteForm />
+    </>
+  );
+}
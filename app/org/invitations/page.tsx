@@ -0,0 +1,33 @@
+import { requireOrganizationAdmin } from "@/app/data/user/require-organization";
+import { buttonVariants } from "@/components/ui/button";
+import { Upload } from "lucide-react";
+import Link from "next/link";
+import { InvitationsTable } from "./_components/InvitationsTable";
+
+export default async function OrganizationInvitationsPage() {
+  const { organization } = await requireOrganizationAdmin();
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl font-bold">Invitations</h1>
+          <p className="text-muted-foreground">
+            Pending invitations to {organization.name}. Invitations expire after
+            7 days, resending one restarts that period.
+          </p>
+        </div>
+
+        <Link
+          className={buttonVariants({ variant: "outline" })}
+          href="/org/invitations/bulk"
+        >
+          <Upload className="size-4" />
+          Bulk invite
+        </Link>
+      </div>
+
+      <InvitationsTable />
+    </>
+  );
+}
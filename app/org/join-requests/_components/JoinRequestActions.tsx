@@ -0,0 +1,132 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import { Check, Loader2, X } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+type Decision = "approve" | "reject";
+
+interface iAppProps {
+  requestId: string;
+  requesterName: string;
+  disabled?: boolean;
+}
+
+export function JoinRequestActions({
+  requestId,
+  requesterName,
+  disabled,
+}: iAppProps) {
+  const router = useRouter();
+  const [decision, setDecision] = useState<Decision | null>(null);
+  const [reason, setReason] = useState("");
+  const [pending, startTransition] = useTransition();
+
+  function openDialog(value: Decision) {
+    setReason("");
+    setDecision(value);
+  }
+
+  function submitDecision() {
+    if (!decision) return;
+
+    startTransition(async () => {
+      const data = { requestId, reason: reason.trim() || undefined };
+      const { error } = await tryCatch(
+        decision === "approve"
+          ? organizationApi.approveJoinRequest(data)
+          : organizationApi.rejectJoinRequest(data)
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success(
+        decision === "approve"
+          ? `${requesterName} has joined your organization`
+          : "Join request rejected"
+      );
+      setDecision(null);
+      router.refresh();
+    });
+  }
+
+  return (
+    <>
+      <div className="flex justify-end gap-2">
+        <Button
+          size="sm"
+          onClick={() => openDialog("approve")}
+          disabled={disabled}
+        >
+          <Check className="size-4" />
+          Approve
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => openDialog("reject")}
+        >
+          <X className="size-4" />
+          Reject
+        </Button>
+      </div>
+
+      <Dialog
+        open={decision !== null}
+        onOpenChange={(open) => !open && setDecision(null)}
+      >
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>
+              {decision === "approve" ? "Approve" : "Reject"} {requesterName}
+            </DialogTitle>
+            <DialogDescription>
+              The requester will be notified by email. The reason is optional
+              and included in that email.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Reason (optional)"
+            maxLength={500}
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+          />
+          <DialogFooter>
+            <Button
+              onClick={submitDecision}
+              disabled={pending}
+              variant={decision === "reject" ? "destructive" : "default"}
+            >
+              {pending ? (
+                <>
+                  <Loader2 className="size-4 animate-spin" />
+                  Saving...
+                </>
+              ) : decision === "approve" ? (
+                "Approve request"
+              ) : (
+                "Reject request"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
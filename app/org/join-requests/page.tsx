@@ -0,0 +1,136 @@
+import { getJoinRequests } from "@/app/data/organization/get-join-requests";
+import { requireOrganizationAdmin } from "@/app/data/user/require-organization";
+import { Badge } from "@/components/ui/badge";
+import { buttonVariants } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { JoinRequestStatus } from "@/lib/generated/prisma";
+import { cn } from "@/lib/utils";
+import Link from "next/link";
+import { JoinRequestActions } from "./_components/JoinRequestActions";
+
+type SearchParams = Promise<{ status?: string }>;
+
+const statusFilters = [
+  { status: JoinRequestStatus.PENDING, label: "Pending" },
+  { status: JoinRequestStatus.APPROVED, label: "Approved" },
+  { status: JoinRequestStatus.REJECTED, label: "Rejected" },
+];
+
+export default async function JoinRequestsPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  const { organization } = await requireOrganizationAdmin();
+  const { status: statusParam } = await searchParams;
+
+  const status =
+    statusFilters.find((filter) => filter.status === statusParam)?.status ??
+    JoinRequestStatus.PENDING;
+  const joinRequests = await getJoinRequests(status);
+  const seatsLeft = organization.maxSeats - organization.usedSeats;
+
+  return (
+    <>
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-bold">Join requests</h1>
+        <p className="text-muted-foreground">
+          Review people asking to join {organization.name}. {seatsLeft} of{" "}
+          {organization.maxSeats} seats are still available.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        {statusFilters.map((filter) => (
+          <Link
+            key={filter.status}
+            href={`/org/join-requests?status=${filter.status}`}
+            className={buttonVariants({
+              variant: filter.status === status ? "default" : "outline",
+              size: "sm",
+            })}
+          >
+            {filter.label}
+          </Link>
+        ))}
+      </div>
+
+      {joinRequests.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No {status.toLowerCase()} join requests.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Requester</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Message</TableHead>
+              <TableHead>Requested</TableHead>
+              <TableHead className="text-right">
+                {status === JoinRequestStatus.PENDING ? "Actions" : "Decision"}
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {joinRequests.map((joinRequest) => (
+              <TableRow key={joinRequest.id}>
+                <TableCell>
+                  <p className="font-medium">{joinRequest.user.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {joinRequest.user.email}
+                  </p>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline">{joinRequest.source}</Badge>
+                </TableCell>
+                <TableCell className="max-w-xs whitespace-normal text-sm">
+                  {joinRequest.message ?? "—"}
+                </TableCell>
+                <TableCell>
+                  {joinRequest.createdAt.toLocaleDateString()}
+                </TableCell>
+                <TableCell className="text-right">
+                  {status === JoinRequestStatus.PENDING ? (
+                    <JoinRequestActions
+                      requestId={joinRequest.id}
+                      requesterName={joinRequest.user.name}
+                      disabled={seatsLeft <= 0}
+                    />
+                  ) : (
+                    <div
+                      className={cn(
+                        "text-sm",
+                        !joinRequest.reason && "text-muted-foreground"
+                      )}
+                    >
+                      <p>
+                        {joinRequest.reviewedBy
+                          ? `By ${joinRequest.reviewedBy.name}`
+                          : "Automatically"}
+                        {joinRequest.reviewedAt &&
+                          ` on ${joinRequest.reviewedAt.toLocaleDateString()}`}
+                      </p>
+                      {joinRequest.reason && (
+                        <p className="text-xs text-muted-foreground">
+                          {joinRequest.reason}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,42 @@
+import { requireOrganizationAdmin } from "@/app/data/user/require-organization";
+import { OrganizationStatusBanner } from "@/components/general/OrganizationStatusBanner";
+import { SiteHeader } from "@/components/sidebar/site-header";
+import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
+import { ReactNode } from "react";
+import { OrganizationAppSidebar } from "./_components/OrganizationAppSidebar";
+
+export default async function OrganizationLayout({
+  children,
+}: {
+  children: ReactNode;
+}) {
+  const { organization } = await requireOrganizationAdmin();
+
+  return (
+    <SidebarProvider
+      style={
+        {
+          "--sidebar-width": "calc(var(--spacing) * 72)",
+          "--header-height": "calc(var(--spacing) * 12)",
+        } as React.CSSProperties
+      }
+    >
+      <OrganizationAppSidebar
+        variant="inset"
+        organizationName={organization.name}
+        role={organization.role}
+      />
+      <SidebarInset>
+        <SiteHeader />
+        <div className="flex flex-1 flex-col">
+          <div className="@container/main flex flex-1 flex-col gap-2">
+            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+              <OrganizationStatusBanner />
+              {children}
+            </div>
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { tryCatch } from "@/hooks/try-catch";
+import { Loader2 } from "lucide-react";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { assignGroupSeats } from "../actions";
+
+interface iAppProps {
+  licenseId: string;
+  groups: { id: string; name: string }[];
+  disabled?: boolean;
+}
+
+export function AssignGroupSeats({ licenseId, groups, disabled }: iAppProps) {
+  const [groupId, setGroupId] = useState<string>();
+  const [pending, startTransition] = useTransition();
+
+  function onSubmit() {
+    if (!groupId) return;
+
+    startTransition(async () => {
+      const { data: result, error } = await tryCatch(
+        assignGroupSeats(licenseId, groupId)
+      );
+
+      if (error) {
+        toast.error("An unexpected error occurred. Please try again.");
+        return;
+      }
+
+      if (result.status === "success") {
+        toast.success(result.message);
+      } else if (result.status === "error") {
+        toast.error(result.message);
+      }
+    });
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={groupId} onValueChange={setGroupId}>
+        <SelectTrigger className="w-48" size="sm">
+          <SelectValue placeholder="Select a group" />
+        </SelectTrigger>
+        <SelectContent>
+          {groups.map((group) => (
+            <SelectItem key={group.id} value={group.id}>
+              {group.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        size="sm"
+        onClick={onSubmit}
+        disabled={pending || disabled || !groupId}
+      >
+        {pending ? (
+          <>
+            <Loader2 className="size-4 animate-spin" />
+            Assigning...
+          </>
+        ) : (
+          "Assign to group"
+        )}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { tryCatch } from "@/hooks/try-catch";
+import { Loader2 } from "lucide-react";
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { assignSeat, revokeSeat } from "../actions";
+
+interface iAppProps {
+  licenseId: string;
+  memberId: string;
+  hasSeat: boolean;
+  disabled?: boolean;
+}
+
+export function SeatToggleButton({
+  licenseId,
+  memberId,
+  hasSeat,
+  disabled,
+}: iAppProps) {
+  const [pending, startTransition] = useTransition();
+
+  function onSubmit() {
+    startTransition(async () => {
+      const { data: result, error } = await tryCatch(
+        hasSeat
+          ? revokeSeat(licenseId, memberId)
+          : assignSeat(licenseId, memberId)
+      );
+
+      if (error) {
+        toast.error("An unexpected error occurred. Please try again.");
+        return;
+      }
+
+      if (result.status === "success") {
+        toast.success(result.message);
+      } else if (result.status === "error") {
+        toast.error(result.message);
+      }
+    });
+  }
+
+  return (
+    <Button
+      size="sm"
+      variant={hasSeat ? "outline" : "default"}
+      onClick={onSubmit}
+      disabled={pending || disabled}
+    >
+      {pending ? (
+        <>
+          <Loader2 className="size-4 animate-spin" />
+          Saving...
+        </>
+      ) : hasSeat ? (
+        "Revoke seat"
+      ) : (
+        "Assign seat"
+      )}
+    </Button>
+  );
+}
@@ -0,0 +1,195 @@
+"use server";
+
+import { requireOrganizationAdmin } from "@/app/data/user/require-organization";
+import { prisma } from "@/lib/db";
+import { assignLicenseSeat, revokeLicenseSeat } from "@/lib/license-seats";
+import { ApiResponse } from "@/lib/types";
+import { revalidatePath } from "next/cache";
+
+export async function assignSeat(
+  licenseId: string,
+  memberId: string
+): Promise<ApiResponse> {
+  const { user, organization } = await requireOrganizationAdmin();
+
+  try {
+    const license = await prisma.courseLicense.findUnique({
+      where: {
+        id: licenseId,
+        organizationId: organization.id,
+      },
+      select: {
+        courseId: true,
+      },
+    });
+
+    if (!license) {
+      return {
+        status: "error",
+        message: "License not found",
+      };
+    }
+
+    const result = await assignLicenseSeat({
+      organizationId: organization.id,
+      courseId: license.courseId,
+      userId: memberId,
+      assignedBy: user.id,
+    });
+
+    if (!result.success) {
+      return {
+        status: "error",
+        message: result.message,
+      };
+    }
+
+    revalidatePath(`/org/licenses/${licenseId}`);
+
+    return {
+      status: "success",
+      message: "Seat assigned successfully",
+    };
+  } catch {
+    return {
+      status: "error",
+      message: "Failed to assign seat",
+    };
+  }
+}
+
+export async function revokeSeat(
+  licenseId: string,
+  memberId: string
+): Promise<ApiResponse> {
+  const { user, organization } = await requireOrganizationAdmin();
+
+  try {
+    const license = await prisma.courseLicense.findUnique({
+      where: {
+        id: licenseId,
+        organizationId: organization.id,
+      },
+      select: {
+        courseId: true,
+      },
+    });
+
+    if (!license) {
+      return {
+        status: "error",
+        message: "License not found",
+      };
+    }
+
+    const result = await revokeLicenseSeat({
+      organizationId: organization.id,
+      courseId: license.courseId,
+      userId: memberId,
+      revokedBy: user.id,
+    });
+
+    if (!result.success) {
+      return {
+        status: "error",
+        message: result.message,
+      };
+    }
+
+    revalidatePath(`/org/licenses/${licenseId}`);
+
+    return {
+      status: "success",
+      message: "Seat revoked successfully",
+    };
+  } catch {
+    return {
+      status: "error",
+      message: "Failed to revoke seat",
+    };
+  }
+}
+
+// Gives a seat to every member of the group who has no access yet
+export async function assignGroupSeats(
+  licenseId: string,
+  groupId: string
+): Promise<ApiResponse> {
+  const { user, organization } = await requireOrganizationAdmin();
+
+  try {
+    const [license, group] = await Promise.all([
+      prisma.courseLicense.findUnique({
+        where: {
+          id: licenseId,
+          organizationId: organization.id,
+        },
+        select: {
+          courseId: true,
+        },
+      }),
+      prisma.organizationGroup.findUnique({
+        where: {
+          id: groupId,
+          organizationId: organization.id,
+        },
+        select: {
+          name: true,
+          members: {
+            select: {
+              membership: {
+                select: {
+                  userId: true,
+                },
+              },
+            },
+          },
+        },
+      }),
+    ]);
+
+    if (!license || !group) {
+      return {
+        status: "error",
+        message: license ? "Group not found" : "License not found",
+      };
+    }
+
+    let assigned = 0;
+    let failed = 0;
+
+    for (const { membership } of group.members) {
+      const result = await assignLicenseSeat({
+        organizationId: organization.id,
+        courseId: license.courseId,
+        userId: membership.userId,
+        assignedBy: user.id,
+      });
+
+      if (result.success) {
+        assigned++;
+      } else if (result.reason !== "already_enrolled") {
+        failed++;
+      }
+    }
+
+    revalidatePath(`/org/licenses/${licenseId}`);
+
+    if (failed > 0) {
+      return {
+        status: "error",
+        message: `Assigned ${assigned} seats to ${group.name}, ${failed} members could not get a seat`,
+      };
+    }
+
+    return {
+      status: "success",
+      message: `Assigned ${assigned} seats to ${group.name}`,
+    };
+  } catch {
+    return {
+      status: "error",
+      message: "Failed to assign seats",
+    };
+  }
+}
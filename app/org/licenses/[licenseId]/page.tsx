@@ -0,0 +1,122 @@
+import { getLicenseSeats } from "@/app/data/organization/get-license-seats";
+import { Badge } from "@/components/ui/badge";
+import { buttonVariants } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { isLicenseValid } from "@/lib/license-seats";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import { AssignGroupSeats } from "./_components/AssignGroupSeats";
+import { SeatToggleButton } from "./_components/SeatToggleButton";
+
+type Params = Promise<{ licenseId: string }>;
+
+export default async function LicenseSeatsPage({ params }: { params: Params }) {
+  const { licenseId } = await params;
+  const { license, groups, members } = await getLicenseSeats(licenseId);
+
+  const isValid = isLicenseValid(license);
+  const seatsLeft = license.seats - license.usedSeats;
+
+  return (
+    <>
+      <div className="flex items-center gap-4">
+        <Link
+          className={buttonVariants({ variant: "outline", size: "icon" })}
+          href="/org/licenses"
+        >
+          <ArrowLeft className="size-4" />
+        </Link>
+        <h1 className="text-2xl font-bold">{license.course.title}</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Seat usage</span>
+            {isValid ? (
+              <Badge>Active</Badge>
+            ) : (
+              <Badge variant="destructive">Expired</Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Progress value={(license.usedSeats / license.seats) * 100} />
+          <p className="text-sm text-muted-foreground">
+            {license.usedSeats} of {license.seats} seats assigned
+            {license.validUntil &&
+              ` · valid until ${license.validUntil.toLocaleDateString()}`}
+          </p>
+          {groups.length > 0 && (
+            <AssignGroupSeats
+              licenseId={license.id}
+              groups={groups}
+              disabled={!isValid || seatsLeft <= 0}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Member</TableHead>
+            <TableHead>Role</TableHead>
+            <TableHead>Access</TableHead>
+            <TableHead className="text-right">Seat</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {members.map((member) => {
+            const hasSeat =
+              member.enrollment?.enrollmentType === "ORGANIZATION" &&
+              member.enrollment.organizationId === license.organizationId;
+            const ownsCourse =
+              member.enrollment?.enrollmentType === "INDIVIDUAL" &&
+              member.enrollment.status === "Active";
+
+            return (
+              <TableRow key={member.id}>
+                <TableCell>
+                  <p className="font-medium">{member.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {member.email}
+                  </p>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline">{member.organizationRole}</Badge>
+                </TableCell>
+                <TableCell>
+                  {hasSeat
+                    ? "Licensed seat"
+                    : ownsCourse
+                    ? "Purchased individually"
+                    : "No access"}
+                </TableCell>
+                <TableCell className="text-right">
+                  {!ownsCourse && (
+                    <SeatToggleButton
+                      licenseId={license.id}
+                      memberId={member.id}
+                      hasSeat={hasSeat}
+                      disabled={!hasSeat && (!isValid || seatsLeft <= 0)}
+                    />
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </>
+  );
+}
@@ -0,0 +1,95 @@
+import { getOrganizationLicenses } from "@/app/data/organization/get-organization-licenses";
+import { EmptyState } from "@/components/general/EmptyState";
+import { Badge } from "@/components/ui/badge";
+import { buttonVariants } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { isLicenseValid } from "@/lib/license-seats";
+import Link from "next/link";
+
+export default async function OrganizationLicensesPage() {
+  const licenses = await getOrganizationLicenses();
+
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Course Licenses</h1>
+
+        <Link className={buttonVariants()} href="/courses">
+          Buy more seats
+        </Link>
+      </div>
+
+      {licenses.length === 0 ? (
+        <EmptyState
+          title="No course licenses yet"
+          description="Buy a course for your team to assign seats to your members."
+          buttonText="Browse Courses"
+          href="/courses"
+        />
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Course</TableHead>
+              <TableHead>Seats used</TableHead>
+              <TableHead>Valid until</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Manage</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {licenses.map((license) => (
+              <TableRow key={license.id}>
+                <TableCell className="font-medium">
+                  {license.course.title}
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-3">
+                    <Progress
+                      className="w-24"
+                      value={(license.usedSeats / license.seats) * 100}
+                    />
+                    <span className="text-sm tabular-nums">
+                      {license.usedSeats} / {license.seats}
+                    </span>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  {license.validUntil
+                    ? license.validUntil.toLocaleDateString()
+                    : "Perpetual"}
+                </TableCell>
+                <TableCell>
+                  {isLicenseValid(license) ? (
+                    <Badge>Active</Badge>
+                  ) : (
+                    <Badge variant="destructive">Expired</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Link
+                    className={buttonVariants({
+                      variant: "outline",
+                      size: "sm",
+                    })}
+                    href={`/org/licenses/${license.id}`}
+                  >
+                    Assign seats
+                  </Link>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </>
+  );
+}
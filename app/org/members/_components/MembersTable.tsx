@@ -0,0 +1,200 @@
+"use client";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import type { OrganizationMember, OrganizationRole } from "@/lib/auth-types";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState, useTransition } from "react";
+import { toast } from "sonner";
+import { RemoveMemberButton } from "./RemoveMemberButton";
+import { TransferOwnershipDialog } from "./TransferOwnershipDialog";
+
+interface iAppProps {
+  currentUserId: string;
+  currentUserEmail: string;
+  currentRole: OrganizationRole;
+}
+
+export function MembersTable({
+  currentUserId,
+  currentUserEmail,
+  currentRole,
+}: iAppProps) {
+  const router = useRouter();
+  const [members, setMembers] = useState<OrganizationMember[] | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  const loadMembers = useCallback(async () => {
+    const { data, error } = await tryCatch(organizationApi.getMembers());
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    setMembers(data.members);
+  }, []);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  function refresh() {
+    loadMembers();
+    router.refresh();
+  }
+
+  function changeRole(memberId: string, role: "ADMIN" | "MEMBER") {
+    startTransition(async () => {
+      const { error } = await tryCatch(
+        organizationApi.updateMemberRole({ memberId, role })
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success("Member role updated");
+      refresh();
+    });
+  }
+
+  if (!members) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 3 }).map((_, index) => (
+          <Skeleton key={index} className="h-12 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Member</TableHead>
+          <TableHead>Role</TableHead>
+          <TableHead>Groups</TableHead>
+          <TableHead>Joined</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {members.map((member) => {
+          const isSelf = member.id === currentUserId;
+          const isOwner = member.organizationRole === "OWNER";
+          // Only the owner can demote admins, see updateMemberRole
+          const canChangeRole =
+            !isSelf &&
+            !isOwner &&
+            (currentRole === "OWNER" || member.organizationRole === "MEMBER");
+
+          return (
+            <TableRow key={member.id}>
+              <TableCell>
+                <div className="flex items-center gap-3">
+                  <Avatar className="size-8">
+                    <AvatarImage
+                      src={
+                        member.image ??
+                        `https://avatar.vercel.sh/${member.email}`
+                      }
+                      alt={member.name}
+                    />
+                    <AvatarFallback>
+                      {(member.name || member.email).charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <p className="font-medium">
+                      {member.name}
+                      {isSelf && (
+                        <span className="text-muted-foreground"> (you)</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {member.email}
+                    </p>
+                  </div>
+                </div>
+              </TableCell>
+              <TableCell>
+                {canChangeRole ? (
+                  <Select
+                    value={member.organizationRole}
+                    onValueChange={(value) =>
+                      changeRole(member.id, value as "ADMIN" | "MEMBER")
+                    }
+                    disabled={pending}
+                  >
+                    <SelectTrigger className="w-32" size="sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ADMIN">ADMIN</SelectItem>
+                      <SelectItem value="MEMBER">MEMBER</SelectItem>
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant={isOwner ? "default" : "outline"}>
+                    {member.organizationRole}
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-1">
+                  {member.groups.length === 0
+                    ? "—"
+                    : member.groups.map((group) => (
+                        <Badge key={group.id} variant="secondary">
+                          {group.name}
+                        </Badge>
+                      ))}
+                </div>
+              </TableCell>
+              <TableCell>
+                {member.joinedOrganizationAt
+                  ? new Date(member.joinedOrganizationAt).toLocaleDateString()
+                  : "—"}
+              </TableCell>
+              <TableCell className="text-right">
+                <div className="flex justify-end gap-2">
+                  {currentRole === "OWNER" && !isSelf && (
+                    <TransferOwnershipDialog
+                      member={member}
+                      currentUserEmail={currentUserEmail}
+                      onTransferred={refresh}
+                    />
+                  )}
+                  {!isSelf && !isOwner && (
+                    <RemoveMemberButton member={member} onRemoved={refresh} />
+                  )}
+                </div>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import type { OrganizationMember } from "@/lib/auth-types";
+import { UserMinus } from "lucide-react";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+export function RemoveMemberButton({
+  member,
+  onRemoved,
+}: {
+  member: OrganizationMember;
+  onRemoved: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [pending, startTransition] = useTransition();
+
+  function onSubmit() {
+    startTransition(async () => {
+      const { error } = await tryCatch(organizationApi.removeMember(member.id));
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success(`${member.name} was removed from the organization`);
+      setOpen(false);
+      onRemoved();
+    });
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="icon">
+          <UserMinus className="size-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Remove {member.name}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {member.email} will lose access to the courses of your organization.
+            You can invite them again later.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button variant="destructive" onClick={onSubmit} disabled={pending}>
+            {pending ? "Removing..." : "Remove"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
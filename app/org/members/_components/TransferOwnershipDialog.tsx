@@ -0,0 +1,155 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import type { OrganizationMember } from "@/lib/auth-types";
+import { Crown, Loader2 } from "lucide-react";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+interface iAppProps {
+  member: OrganizationMember;
+  currentUserEmail: string;
+  onTransferred: () => void;
+}
+
+export function TransferOwnershipDialog({
+  member,
+  currentUserEmail,
+  onTransferred,
+}: iAppProps) {
+  const [open, setOpen] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+  const [otp, setOtp] = useState("");
+  const [pending, startTransition] = useTransition();
+
+  function onOpenChange(value: boolean) {
+    setOpen(value);
+    setCodeSent(false);
+    setOtp("");
+  }
+
+  function sendCode() {
+    startTransition(async () => {
+      const { error } = await tryCatch(
+        organizationApi.sendOwnershipTransferOtp(currentUserEmail)
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success(`Verification code sent to ${currentUserEmail}`);
+      setCodeSent(true);
+    });
+  }
+
+  function transferOwnership() {
+    startTransition(async () => {
+      const { error } = await tryCatch(
+        organizationApi.transferOwnership({ newOwnerId: member.id, otp })
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success(`${member.name} is now the owner of your organization`);
+      onOpenChange(false);
+      onTransferred();
+    });
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Transfer ownership">
+          <Crown className="size-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Transfer ownership to {member.name}</DialogTitle>
+          <DialogDescription>
+            {member.email} becomes the owner and you will stay in the
+            organization as an admin. Confirm with the code we send to your
+            email.
+          </DialogDescription>
+        </DialogHeader>
+
+        {codeSent && (
+          <div className="flex flex-col items-center gap-2">
+            <InputOTP
+              value={otp}
+              onChange={(value) => setOtp(value)}
+              maxLength={6}
+              className="gap-2"
+              disabled={pending}
+            >
+              <InputOTPGroup>
+                <InputOTPSlot index={0} />
+                <InputOTPSlot index={1} />
+                <InputOTPSlot index={2} />
+              </InputOTPGroup>
+              <InputOTPGroup>
+                <InputOTPSlot index={3} />
+                <InputOTPSlot index={4} />
+                <InputOTPSlot index={5} />
+              </InputOTPGroup>
+            </InputOTP>
+            <p className="text-sm text-muted-foreground">
+              Enter the 6-digit code from your email
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {codeSent ? (
+            <Button
+              variant="destructive"
+              onClick={transferOwnership}
+              disabled={pending || otp.length !== 6}
+            >
+              {pending ? (
+                <>
+                  <Loader2 className="size-4 animate-spin" />
+                  Transferring...
+                </>
+              ) : (
+                "Transfer ownership"
+              )}
+            </Button>
+          ) : (
+            <Button onClick={sendCode} disabled={pending}>
+              {pending ? (
+                <>
+                  <Loader2 className="size-4 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                "Send verification code"
+              )}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
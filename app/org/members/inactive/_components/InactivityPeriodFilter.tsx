@@ -0,0 +1,35 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePathname, useRouter } from "next/navigation";
+
+const inactivityPeriods = [14, 30, 60, 90, 180];
+
+export function InactivityPeriodFilter({ days }: { days: number }) {
+  const router = useRouter();
+  const pathname = usePathname();
+
+  return (
+    <Select
+      value={String(days)}
+      onValueChange={(value) => router.push(`${pathname}?days=${value}`)}
+    >
+      <SelectTrigger className="w-56">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {inactivityPeriods.map((period) => (
+          <SelectItem key={period} value={String(period)}>
+            No activity for {period} days
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
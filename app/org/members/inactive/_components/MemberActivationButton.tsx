@@ -0,0 +1,61 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { tryCatch } from "@/hooks/try-catch";
+import { Loader2 } from "lucide-react";
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { deactivateMember, reactivateMember } from "../actions";
+
+interface iAppProps {
+  memberId: string;
+  active: boolean;
+  disabled?: boolean;
+}
+
+export function MemberActivationButton({
+  memberId,
+  active,
+  disabled,
+}: iAppProps) {
+  const [pending, startTransition] = useTransition();
+
+  function onSubmit() {
+    startTransition(async () => {
+      const { data: result, error } = await tryCatch(
+        active ? deactivateMember(memberId) : reactivateMember(memberId)
+      );
+
+      if (error) {
+        toast.error("An unexpected error occurred. Please try again.");
+        return;
+      }
+
+      if (result.status === "success") {
+        toast.success(result.message);
+      } else if (result.status === "error") {
+        toast.error(result.message);
+      }
+    });
+  }
+
+  return (
+    <Button
+      size="sm"
+      variant={active ? "outline" : "default"}
+      onClick={onSubmit}
+      disabled={pending || disabled}
+    >
+      {pending ? (
+        <>
+          <Loader2 className="size-4 animate-spin" />
+          Saving...
+        </>
+      ) : active ? (
+        "Deactivate"
+      ) : (
+        "Reactivate"
+      )}
+    </Button>
+  );
+}
@@ -0,0 +1,79 @@
+"use server";
+
+import { requireOrganizationAdmin } from "@/app/data/user/require-organization";
+import {
+  deactivateOrganizationMember,
+  reactivateOrganizationMember,
+} from "@/lib/organization-inactivity";
+import { ApiResponse } from "@/lib/types";
+import { revalidatePath } from "next/cache";
+
+export async function deactivateMember(memberId: string): Promise<ApiResponse> {
+  const { user, organization } = await requireOrganizationAdmin();
+
+  if (memberId === user.id) {
+    return {
+      status: "error",
+      message: "You cannot deactivate yourself",
+    };
+  }
+
+  try {
+    const result = await deactivateOrganizationMember({
+      organizationId: organization.id,
+      userId: memberId,
+      deactivatedBy: user.id,
+      reason: "manual",
+    });
+
+    if (!result.success) {
+      return {
+        status: "error",
+        message: result.message,
+      };
+    }
+
+    revalidatePath("/org/members/inactive");
+
+    return {
+      status: "success",
+      message: "Member deactivated, their seat is free again",
+    };
+  } catch {
+    return {
+      status: "error",
+      message: "Failed to deactivate member",
+    };
+  }
+}
+
+export async function reactivateMember(memberId: string): Promise<ApiResponse> {
+  const { user, organization } = await requireOrganizationAdmin();
+
+  try {
+    const result = await reactivateOrganizationMember({
+      organizationId: organization.id,
+      userId: memberId,
+      reactivatedBy: user.id,
+    });
+
+    if (!result.success) {
+      return {
+        status: "error",
+        message: result.message,
+      };
+    }
+
+    revalidatePath("/org/members/inactive");
+
+    return {
+      status: "success",
+      message: "Member reactivated",
+    };
+  } catch {
+    return {
+      status: "error",
+      message: "Failed to reactivate member",
+    };
+  }
+}
@@ -0,0 +1,153 @@
+import { getInactiveMembersReport } from "@/app/data/organization/get-inactive-members";
+import { Badge } from "@/components/ui/badge";
+import { buttonVariants } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import { InactivityPeriodFilter } from "./_components/InactivityPeriodFilter";
+import { MemberActivationButton } from "./_components/MemberActivationButton";
+
+type SearchParams = Promise<{ days?: string }>;
+
+const DEFAULT_DAYS = 30;
+
+export default async function InactiveMembersPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  const { days: daysParam } = await searchParams;
+  const parsedDays = Number.parseInt(daysParam ?? "", 10);
+  const days = parsedDays >= 1 && parsedDays <= 365 ? parsedDays : DEFAULT_DAYS;
+
+  const report = await getInactiveMembersReport(days);
+
+  return (
+    <>
+      <div className="flex items-center gap-4">
+        <Link
+          className={buttonVariants({ variant: "outline", size: "icon" })}
+          href="/org/members"
+        >
+          <ArrowLeft className="size-4" />
+        </Link>
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl font-bold">Inactive members</h1>
+          <p className="text-muted-foreground">
+            Members without a sign-in or course progress in the selected period.
+            Deactivating a member frees their seat and keeps their progress.
+            {report.autoDeactivateAfterDays
+              ? ` Seats are reclaimed automatically after ${report.autoDeactivateAfterDays} days without activity.`
+              : ""}
+          </p>
+        </div>
+      </div>
+
+      <InactivityPeriodFilter days={days} />
+
+      {report.inactive.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Every member was active in the last {days} days.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Member</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Last sign-in</TableHead>
+              <TableHead>Last course progress</TableHead>
+              <TableHead className="text-right">Seat</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.inactive.map((member) => (
+              <TableRow key={member.userId}>
+                <TableCell>
+                  <p className="font-medium">{member.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {member.email}
+                  </p>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline">{member.role}</Badge>
+                  {member.inactivityWarningSentAt && (
+                    <Badge variant="secondary" className="ml-1">
+                      Warned
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {member.lastSignInAt
+                    ? member.lastSignInAt.toLocaleDateString()
+                    : "Never"}
+                </TableCell>
+                <TableCell>
+                  {member.lastLearningAt
+                    ? member.lastLearningAt.toLocaleDateString()
+                    : "Never"}
+                </TableCell>
+                <TableCell className="text-right">
+                  <MemberActivationButton memberId={member.userId} active />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {report.deactivated.length > 0 && (
+        <section className="space-y-4">
+          <h2 className="text-xl font-semibold">Deactivated members</h2>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Deactivated</TableHead>
+                <TableHead className="text-right">Seat</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.deactivated.map((member) => (
+                <TableRow key={member.id}>
+                  <TableCell>
+                    <p className="font-medium">{member.user.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {member.user.email}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{member.role}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {member.deactivatedAt.toLocaleDateString()}
+                    <span className="text-muted-foreground">
+                      {member.reason === "inactivity"
+                        ? " · inactivity policy"
+                        : " · by an admin"}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <MemberActivationButton
+                      memberId={member.user.id}
+                      active={false}
+                      disabled={report.seatsFull}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </section>
+      )}
+    </>
+  );
+}
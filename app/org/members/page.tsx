@@ -0,0 +1,37 @@
+import { requireOrganizationAdmin } from "@/app/data/user/require-organization";
+import { buttonVariants } from "@/components/ui/button";
+import { UserX } from "lucide-react";
+import Link from "next/link";
+import { MembersTable } from "./_components/MembersTable";
+
+export default async function OrganizationMembersPage() {
+  const { user, organization } = await requireOrganizationAdmin();
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl font-bold">Members</h1>
+          <p className="text-muted-foreground">
+            {organization.usedSeats} of {organization.maxSeats} seats are
+            currently in use.
+          </p>
+        </div>
+
+        <Link
+          className={buttonVariants({ variant: "outline" })}
+          href="/org/members/inactive"
+        >
+          <UserX className="size-4" />
+          Inactive members
+        </Link>
+      </div>
+
+      <MembersTable
+        currentUserId={user.id}
+        currentUserEmail={user.email}
+        currentRole={organization.role}
+      />
+    </>
+  );
+}
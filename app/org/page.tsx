@@ -0,0 +1,87 @@
+import { getOrganizationStats } from "@/app/data/organization/get-organization-stats";
+import { requireOrganizationAdmin } from "@/app/data/user/require-organization";
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  IconLicense,
+  IconMail,
+  IconUserPlus,
+  IconUsers,
+} from "@tabler/icons-react";
+import Link from "next/link";
+
+export default async function OrganizationOverviewPage() {
+  const { organization } = await requireOrganizationAdmin();
+  const stats = await getOrganizationStats();
+
+  const cards = [
+    {
+      title: "Members",
+      value: `${stats.members} / ${stats.maxSeats}`,
+      description: "Organization seats in use",
+      href: "/org/members",
+      icon: IconUsers,
+    },
+    {
+      title: "Pending invitations",
+      value: stats.pendingInvitations,
+      description: "Invitations waiting to be accepted",
+      href: "/org/invitations",
+      icon: IconMail,
+    },
+    {
+      title: "Join requests",
+      value: stats.pendingJoinRequests,
+      description: "Requests waiting for your review",
+      href: "/org/join-requests",
+      icon: IconUserPlus,
+    },
+    {
+      title: "Course licenses",
+      value: `${stats.usedLicenseSeats} / ${stats.licenseSeats}`,
+      description: `Seats assigned across ${stats.licenses} licenses`,
+      href: "/org/licenses",
+      icon: IconLicense,
+    },
+  ];
+
+  return (
+    <>
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-bold">{organization.name}</h1>
+        <p className="text-muted-foreground">
+          Manage your members, invitations and course licenses.
+        </p>
+      </div>
+
+      <div className="*:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card grid grid-cols-1 gap-4 *:data-[slot=card]:bg-gradient-to-t *:data-[slot=card]:shadow-xs @xl/main:grid-cols-2 @5xl/main:grid-cols-4">
+        {cards.map((card) => (
+          <Card key={card.title} className="@container/card">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <div>
+                <CardDescription>{card.title}</CardDescription>
+                <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
+                  {card.value}
+                </CardTitle>
+              </div>
+              <card.icon className="size-6 text-muted-foreground" />
+            </CardHeader>
+            <CardFooter className="flex-col items-start gap-1.5 text-sm">
+              <Link
+                href={card.href}
+                className="text-muted-foreground hover:underline"
+              >
+                {card.description}
+              </Link>
+            </CardFooter>
+          </Card>
+        ))}
+      </div>
+    </>
+  );
+}
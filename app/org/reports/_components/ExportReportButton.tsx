@@ -0,0 +1,59 @@
+"use client";
+
+import type { TeamProgressMemberType } from "@/app/data/organization/get-team-progress";
+import { Button } from "@/components/ui/button";
+import { CsvValue, downloadCsv } from "@/lib/csv";
+import { Download } from "lucide-react";
+
+export function ExportReportButton({
+  members,
+}: {
+  members: TeamProgressMemberType[];
+}) {
+  function exportCsv() {
+    const rows: CsvValue[][] = [
+      [
+        "name",
+        "email",
+        "role",
+        "course",
+        "access",
+        "completed_lessons",
+        "total_lessons",
+        "completion_percentage",
+        "status",
+        "last_activity",
+      ],
+      ...members.flatMap((member) =>
+        member.courses.length === 0
+          ? [[member.name, member.email, member.role]]
+          : member.courses.map((course) => [
+              member.name,
+              member.email,
+              member.role,
+              course.courseTitle,
+              course.enrollmentType === "ORGANIZATION"
+                ? "license_seat"
+                : "individual",
+              course.completedLessons,
+              course.totalLessons,
+              course.completionPercentage,
+              course.status,
+              course.lastActivity,
+            ])
+      ),
+    ];
+
+    downloadCsv(
+      `team-progress-${new Date().toISOString().slice(0, 10)}.csv`,
+      rows
+    );
+  }
+
+  return (
+    <Button variant="outline" onClick={exportCsv}>
+      <Download className="size-4" />
+      Export CSV
+    </Button>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+
+const ALL = "all";
+
+interface iAppProps {
+  courses: { id: string; title: string }[];
+  groups: { id: string; name: string }[];
+  courseId?: string;
+  role?: string;
+  groupId?: string;
+}
+
+export function ReportFilters({
+  courses,
+  groups,
+  courseId,
+  role,
+  groupId,
+}: iAppProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  function setFilter(key: "courseId" | "role" | "groupId", value: string) {
+    const params = new URLSearchParams(searchParams);
+
+    if (value === ALL) {
+      params.delete(key);
+    } else {
+      params.set(key, value);
+    }
+
+    router.push(`${pathname}?${params.toString()}`);
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Select
+        value={courseId ?? ALL}
+        onValueChange={(value) => setFilter("courseId", value)}
+      >
+        <SelectTrigger className="w-64">
+          <SelectValue placeholder="Course" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All courses</SelectItem>
+          {courses.map((course) => (
+            <SelectItem key={course.id} value={course.id}>
+              {course.title}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={role ?? ALL}
+        onValueChange={(value) => setFilter("role", value)}
+      >
+        <SelectTrigger className="w-40">
+          <SelectValue placeholder="Role" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All roles</SelectItem>
+          <SelectItem value="OWNER">Owner</SelectItem>
+          <SelectItem value="ADMIN">Admin</SelectItem>
+          <SelectItem value="MEMBER">Member</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {groups.length > 0 && (
+        <Select
+          value={groupId ?? ALL}
+          onValueChange={(value) => setFilter("groupId", value)}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Group" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All groups</SelectItem>
+            {groups.map((group) => (
+              <SelectItem key={group.id} value={group.id}>
+                {group.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import {
+  CourseProgressStatus,
+  getTeamProgress,
+} from "@/app/data/organization/get-team-progress";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { OrganizationRole } from "@/lib/generated/prisma";
+import { ExportReportButton } from "./_components/ExportReportButton";
+import { ReportFilters } from "./_components/ReportFilters";
+
+type SearchParams = Promise<{
+  courseId?: string;
+  role?: string;
+  groupId?: string;
+}>;
+
+const statusLabels: Record<CourseProgressStatus, string> = {
+  not_started: "Not started",
+  in_progress: "In progress",
+  completed: "Completed",
+};
+
+export default async function TeamReportsPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  const { courseId, role, groupId } = await searchParams;
+  const roleFilter = Object.values(OrganizationRole).find(
+    (value) => value === role
+  );
+
+  const report = await getTeamProgress({
+    courseId,
+    role: roleFilter,
+    groupId,
+  });
+
+  const summaryCards = [
+    { title: "Members", value: report.summary.members },
+    { title: "Members with activity", value: report.summary.activeMembers },
+    {
+      title: "Average completion",
+      value: `${report.summary.averageCompletion}%`,
+    },
+    { title: "Courses not started", value: report.summary.notStarted },
+  ];
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl font-bold">Team progress</h1>
+          <p className="text-muted-foreground">
+            Course completion of your members on the courses your organization
+            licensed.
+          </p>
+        </div>
+
+        <ExportReportButton members={report.members} />
+      </div>
+
+      <ReportFilters
+        courses={report.courses}
+        groups={report.groups}
+        courseId={courseId}
+        role={roleFilter}
+        groupId={groupId}
+      />
+
+      <div className="grid grid-cols-1 gap-4 @xl/main:grid-cols-2 @5xl/main:grid-cols-4">
+        {summaryCards.map((card) => (
+          <Card key={card.title}>
+            <CardHeader>
+              <CardDescription>{card.title}</CardDescription>
+              <CardTitle className="text-2xl font-semibold tabular-nums">
+                {card.value}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Member</TableHead>
+            <TableHead>Course</TableHead>
+            <TableHead>Completion</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Last activity</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {report.members.map((member) =>
+            member.courses.length === 0 ? (
+              <TableRow key={member.id}>
+                <TableCell>
+                  <p className="font-medium">{member.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {member.email}
+                  </p>
+                </TableCell>
+                <TableCell
+                  colSpan={4}
+                  className="text-sm text-muted-foreground"
+                >
+                  No licensed courses assigned
+                </TableCell>
+              </TableRow>
+            ) : (
+              member.courses.map((course, index) => (
+                <TableRow key={`${member.id}-${course.courseId}`}>
+                  <TableCell>
+                    {index === 0 && (
+                      <>
+                        <p className="font-medium">{member.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {member.email}
+                        </p>
+                      </>
+                    )}
+                  </TableCell>
+                  <TableCell>{course.courseTitle}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-3">
+                      <Progress
+                        className="w-24"
+                        value={course.completionPercentage}
+                      />
+                      <span className="text-sm tabular-nums">
+                        {course.completionPercentage}%
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={
+                        course.status === "completed"
+                          ? "default"
+                          : course.status === "in_progress"
+                          ? "secondary"
+                          : "outline"
+                      }
+                    >
+                      {statusLabels[course.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {course.lastActivity
+                      ? course.lastActivity.toLocaleDateString()
+                      : "—"}
+                  </TableCell>
+                </TableRow>
+              ))
+            )
+          )}
+        </TableBody>
+      </Table>
+    </>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import type { OrganizationSettingsType } from "@/app/data/organization/get-organization-settings";
+import { Uploader } from "@/components/file-uploader/Uploader";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import {
+  organizationBrandingSchema,
+  OrganizationBrandingSchemaType,
+} from "@/lib/zodSchemas";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+export function BrandingSettingsForm({
+  organization,
+}: {
+  organization: OrganizationSettingsType;
+}) {
+  const router = useRouter();
+  const [pending, startTransition] = useTransition();
+
+  const form = useForm<OrganizationBrandingSchemaType>({
+    resolver: zodResolver(organizationBrandingSchema),
+    defaultValues: {
+      logo: organization.logo ?? "",
+      displayName: organization.displayName ?? "",
+      brandColor: organization.brandColor ?? "",
+      emailSenderName: organization.emailSenderName ?? "",
+    },
+  });
+
+  function onSubmit(values: OrganizationBrandingSchemaType) {
+    startTransition(async () => {
+      // Empty fields fall back to the PrecuityAI defaults
+      const { error } = await tryCatch(
+        organizationApi.updateOrganization({
+          logo: values.logo || null,
+          displayName: values.displayName || null,
+          brandColor: values.brandColor || null,
+          emailSenderName: values.emailSenderName || null,
+        })
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success("Branding saved");
+      router.refresh();
+    });
+  }
+
+  return (
+    <Form {...form}>
+      <form className="space-y-6" onSubmit={form.handleSubmit(onSubmit)}>
+        <FormField
+          control={form.control}
+          name="logo"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Logo</FormLabel>
+              <FormControl>
+                <Uploader
+                  fileTypeAccepted="image"
+                  onChange={field.onChange}
+                  value={field.value}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="displayName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Display name</FormLabel>
+              <FormControl>
+                <Input placeholder={organization.name} {...field} />
+              </FormControl>
+              <FormDescription>
+                Shown to your members instead of PrecuityAI.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="brandColor"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Primary color</FormLabel>
+              <div className="flex gap-2">
+                <Input
+                  type="color"
+                  className="w-14 p-1"
+                  value={field.value || "#000000"}
+                  onChange={field.onChange}
+                  disabled={pending}
+                />
+                <FormControl>
+                  <Input placeholder="#4f46e5" {...field} />
+                </FormControl>
+              </div>
+              <FormDescription>
+                Used for buttons and highlights in the dashboard and emails.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="emailSenderName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email sender name</FormLabel>
+              <FormControl>
+                <Input placeholder="PrecuityAI" {...field} />
+              </FormControl>
+              <FormDescription>
+                The name your members see as the sender of emails.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={pending}>
+          {pending ? (
+            <>
+              <Loader2 className="size-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save branding"
+          )}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import type { OrganizationDomainsType } from "@/app/data/organization/get-organization-domains";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import { Copy, Loader2, ShieldCheck } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+export function DomainVerificationSettings({
+  domains,
+}: {
+  domains: OrganizationDomainsType;
+}) {
+  const router = useRouter();
+
+  async function copy(value: string) {
+    await navigator.clipboard.writeText(value);
+    toast.success("Copied to clipboard");
+  }
+
+  if (domains.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Add your email domains in the organization settings above to verify
+        them.
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Domain</TableHead>
+          <TableHead>TXT record</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {domains.map((domain) => (
+          <TableRow key={domain.domain}>
+            <TableCell className="font-medium">{domain.domain}</TableCell>
+            <TableCell>
+              <div className="grid gap-1 text-xs">
+                <span className="flex items-center gap-1">
+                  <span className="text-muted-foreground">Name</span>
+                  <code>{domain.record.name}</code>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="size-6"
+                    onClick={() => copy(domain.record.name)}
+                  >
+                    <Copy className="size-3" />
+                  </Button>
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="text-muted-foreground">Value</span>
+                  <code>{domain.record.value}</code>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="size-6"
+                    onClick={() => copy(domain.record.value)}
+                  >
+                    <Copy className="size-3" />
+                  </Button>
+                </span>
+              </div>
+            </TableCell>
+            <TableCell>
+              {domain.verifiedAt ? (
+                <Badge>Verified</Badge>
+              ) : (
+                <Badge variant="outline">Unverified</Badge>
+              )}
+            </TableCell>
+            <TableCell className="text-right">
+              {!domain.verifiedAt && (
+                <VerifyDomainButton
+                  domain={domain.domain}
+                  onVerified={() => router.refresh()}
+                />
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function VerifyDomainButton({
+  domain,
+  onVerified,
+}: {
+  domain: string;
+  onVerified: () => void;
+}) {
+  const [pending, startTransition] = useTransition();
+
+  function onVerify() {
+    startTransition(async () => {
+      const { error } = await tryCatch(organizationApi.verifyDomain(domain));
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success(`${domain} was verified`);
+      onVerified();
+    });
+  }
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      onClick={onVerify}
+      disabled={pending}
+    >
+      {pending ? (
+        <Loader2 className="size-4 animate-spin" />
+      ) : (
+        <ShieldCheck className="size-4" />
+      )}
+      Verify
+    </Button>
+  );
+}
@@ -0,0 +1,263 @@
+"use client";
+
+import type { OrganizationSettingsType } from "@/app/data/organization/get-organization-settings";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import {
+  organizationSettingsSchema,
+  OrganizationSettingsSchemaType,
+} from "@/lib/zodSchemas";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+export function OrganizationSettingsForm({
+  organization,
+}: {
+  organization: OrganizationSettingsType;
+}) {
+  const router = useRouter();
+  const [pending, startTransition] = useTransition();
+
+  const form = useForm<OrganizationSettingsSchemaType>({
+    resolver: zodResolver(organizationSettingsSchema),
+    defaultValues: {
+      name: organization.name,
+      description: organization.description ?? "",
+      contactEmail: organization.contactEmail ?? "",
+      domains: organization.domains.join(", "),
+      allowSelfSignup: organization.allowSelfSignup,
+      requireAdminApproval: organization.requireAdminApproval,
+      autoDeactivateAfterDays: organization.autoDeactivateAfterDays
+        ? (String(
+            organization.autoDeactivateAfterDays
+          ) as OrganizationSettingsSchemaType["autoDeactivateAfterDays"])
+        : "off",
+    },
+  });
+
+  function onSubmit(values: OrganizationSettingsSchemaType) {
+    startTransition(async () => {
+      const { error } = await tryCatch(
+        organizationApi.updateOrganization({
+          name: values.name,
+          description: values.description,
+          contactEmail: values.contactEmail || undefined,
+          domains: values.domains
+            .split(",")
+            .map((domain) => domain.trim())
+            .filter(Boolean),
+          allowSelfSignup: values.allowSelfSignup,
+          requireAdminApproval: values.requireAdminApproval,
+          autoDeactivateAfterDays:
+            values.autoDeactivateAfterDays === "off"
+              ? null
+              : Number(values.autoDeactivateAfterDays),
+        })
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success("Organization settings saved");
+      router.refresh();
+    });
+  }
+
+  return (
+    <Form {...form}>
+      <form className="space-y-6" onSubmit={form.handleSubmit(onSubmit)}>
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormItem>
+          <FormLabel>Slug</FormLabel>
+          <Input value={organization.slug} disabled />
+          <FormDescription>
+            People can ask to join at /join/{organization.slug}
+          </FormDescription>
+        </FormItem>
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="contactEmail"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Contact email</FormLabel>
+              <FormControl>
+                <Input type="email" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="domains"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email domains</FormLabel>
+              <FormControl>
+                <Input placeholder="acme.com, acme.io" {...field} />
+              </FormControl>
+              <FormDescription>
+                Comma separated. Used to add people signing in with these
+                domains when self signup is enabled, once you verify them below.
+                Public email providers such as gmail.com are not allowed.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="allowSelfSignup"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+              <FormControl>
+                <Checkbox
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                  disabled={pending}
+                />
+              </FormControl>
+              <div className="space-y-1 leading-none">
+                <FormLabel>Allow self signup</FormLabel>
+                <FormDescription>
+                  People with one of the verified email domains join
+                  automatically when they sign in.
+                </FormDescription>
+              </div>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="requireAdminApproval"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+              <FormControl>
+                <Checkbox
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                  disabled={pending}
+                />
+              </FormControl>
+              <div className="space-y-1 leading-none">
+                <FormLabel>Require admin approval</FormLabel>
+                <FormDescription>
+                  Self signups create a join request an admin has to approve.
+                </FormDescription>
+              </div>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="autoDeactivateAfterDays"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Reclaim seats of inactive members</FormLabel>
+              <Select
+                onValueChange={field.onChange}
+                value={field.value}
+                disabled={pending}
+              >
+                <FormControl>
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="off">Off</SelectItem>
+                  <SelectItem value="30">
+                    After 30 days without activity
+                  </SelectItem>
+                  <SelectItem value="60">
+                    After 60 days without activity
+                  </SelectItem>
+                  <SelectItem value="90">
+                    After 90 days without activity
+                  </SelectItem>
+                  <SelectItem value="180">
+                    After 180 days without activity
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Members are emailed a week before their seat is released. They
+                keep their progress and can be reactivated.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={pending}>
+          {pending ? (
+            <>
+              <Loader2 className="size-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save changes"
+          )}
+        </Button>
+      </form>
+    </Form>
+  );
+}
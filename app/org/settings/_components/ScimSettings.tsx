@@ -0,0 +1,214 @@
+"use client";
+
+import type { OrganizationScimTokensType } from "@/app/data/organization/get-organization-scim-tokens";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import { Copy, KeyRound, Loader2, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+export function ScimSettings({ tokens, baseUrl }: OrganizationScimTokensType) {
+  const router = useRouter();
+  const [pending, startTransition] = useTransition();
+  const [name, setName] = useState("");
+  const [secret, setSecret] = useState<string | null>(null);
+
+  function onCreate() {
+    startTransition(async () => {
+      const { data, error } = await tryCatch(
+        organizationApi.createScimToken(name)
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      setSecret(data.secret);
+      setName("");
+      router.refresh();
+    });
+  }
+
+  async function copy(value: string) {
+    await navigator.clipboard.writeText(value);
+    toast.success("Copied to clipboard");
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-2">
+        <Label>SCIM base URL</Label>
+        <div className="flex gap-2">
+          <Input value={baseUrl} readOnly />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={() => copy(baseUrl)}
+          >
+            <Copy className="size-4" />
+          </Button>
+        </div>
+      </div>
+
+      {secret && (
+        <div className="grid gap-2 rounded-md border p-4">
+          <Label>New token</Label>
+          <div className="flex gap-2">
+            <Input value={secret} readOnly />
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => copy(secret)}
+            >
+              <Copy className="size-4" />
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Copy the token into your identity provider now. It will not be shown
+            again.
+          </p>
+        </div>
+      )}
+
+      <div className="grid gap-2">
+        <Label htmlFor="scim-token-name">Create a token</Label>
+        <div className="flex gap-2">
+          <Input
+            id="scim-token-name"
+            placeholder="Okta"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={pending}
+          />
+          <Button
+            type="button"
+            onClick={onCreate}
+            disabled={pending || !name.trim()}
+          >
+            {pending ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <KeyRound className="size-4" />
+            )}
+            Create token
+          </Button>
+        </div>
+      </div>
+
+      {tokens.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead>Last used</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tokens.map((token) => (
+              <TableRow key={token.id}>
+                <TableCell>{token.name}</TableCell>
+                <TableCell>
+                  {new Date(token.createdAt).toLocaleDateString()}
+                </TableCell>
+                <TableCell>
+                  {token.lastUsedAt
+                    ? new Date(token.lastUsedAt).toLocaleString()
+                    : "Never"}
+                </TableCell>
+                <TableCell className="text-right">
+                  <RevokeScimTokenButton
+                    tokenId={token.id}
+                    name={token.name}
+                    onRevoked={() => router.refresh()}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+function RevokeScimTokenButton({
+  tokenId,
+  name,
+  onRevoked,
+}: {
+  tokenId: string;
+  name: string;
+  onRevoked: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [pending, startTransition] = useTransition();
+
+  function onSubmit() {
+    startTransition(async () => {
+      const { error } = await tryCatch(
+        organizationApi.revokeScimToken(tokenId)
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success(`${name} was revoked`);
+      setOpen(false);
+      onRevoked();
+    });
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="icon">
+          <Trash2 className="size-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Revoke {name}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Your identity provider can no longer provision members with this
+            token.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button variant="destructive" onClick={onSubmit} disabled={pending}>
+            {pending ? "Revoking..." : "Revoke"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,262 @@
+"use client";
+
+import type { OrganizationSsoConnectionType } from "@/app/data/organization/get-organization-sso-connection";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import { ssoConnectionSchema, SsoConnectionSchemaType } from "@/lib/zodSchemas";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+export function SsoSettingsForm({
+  connection,
+  redirectURI,
+}: OrganizationSsoConnectionType) {
+  const router = useRouter();
+  const [pending, startTransition] = useTransition();
+  const [deleteOpen, setDeleteOpen] = useState(false);
+
+  const form = useForm<SsoConnectionSchemaType>({
+    resolver: zodResolver(ssoConnectionSchema),
+    defaultValues: {
+      issuer: connection?.issuer ?? "",
+      clientId: connection?.clientId ?? "",
+      clientSecret: "",
+      allowedDomains: connection?.allowedDomains.join(", ") ?? "",
+      enabled: connection?.enabled ?? true,
+    },
+  });
+
+  function onSubmit(values: SsoConnectionSchemaType) {
+    if (!connection && !values.clientSecret) {
+      form.setError("clientSecret", { message: "Client secret is required" });
+      return;
+    }
+
+    startTransition(async () => {
+      const { error } = await tryCatch(
+        organizationApi.saveSsoConnection({
+          issuer: values.issuer,
+          clientId: values.clientId,
+          clientSecret: values.clientSecret || undefined,
+          allowedDomains: values.allowedDomains
+            .split(",")
+            .map((domain) => domain.trim())
+            .filter(Boolean),
+          enabled: values.enabled,
+        })
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success("Single sign-on settings saved");
+      form.resetField("clientSecret");
+      router.refresh();
+    });
+  }
+
+  function onDelete() {
+    startTransition(async () => {
+      const { error } = await tryCatch(organizationApi.deleteSsoConnection());
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success("Single sign-on removed");
+      setDeleteOpen(false);
+      form.reset({
+        issuer: "",
+        clientId: "",
+        clientSecret: "",
+        allowedDomains: "",
+        enabled: true,
+      });
+      router.refresh();
+    });
+  }
+
+  return (
+    <Form {...form}>
+      <form className="space-y-6" onSubmit={form.handleSubmit(onSubmit)}>
+        <FormField
+          control={form.control}
+          name="issuer"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Issuer URL</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="https://login.microsoftonline.com/<tenant>/v2.0"
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription>
+                The discovery document is read from
+                /.well-known/openid-configuration below this URL.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="clientId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Client ID</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="clientSecret"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Client secret</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  autoComplete="off"
+                  placeholder={connection ? "Unchanged" : undefined}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="allowedDomains"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email domains</FormLabel>
+              <FormControl>
+                <Input placeholder="acme.com, acme.io" {...field} />
+              </FormControl>
+              <FormDescription>
+                Comma separated. People with these domains sign in through your
+                identity provider and join the organization on their first
+                sign-in. Every domain must be verified first.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="enabled"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+              <FormControl>
+                <Checkbox
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                  disabled={pending}
+                />
+              </FormControl>
+              <div className="space-y-1 leading-none">
+                <FormLabel>Enforce single sign-on</FormLabel>
+                <FormDescription>
+                  Email code sign-in is disabled for these domains. People with
+                  an existing account confirm it with an email code once to link
+                  it.
+                </FormDescription>
+              </div>
+            </FormItem>
+          )}
+        />
+
+        {redirectURI && (
+          <FormItem>
+            <FormLabel>Redirect URI</FormLabel>
+            <Input value={redirectURI} readOnly />
+            <FormDescription>
+              Register this URL with your identity provider.
+            </FormDescription>
+          </FormItem>
+        )}
+
+        <div className="flex gap-2">
+          <Button type="submit" disabled={pending}>
+            {pending ? (
+              <>
+                <Loader2 className="size-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save single sign-on"
+            )}
+          </Button>
+
+          {connection && (
+            <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+              <AlertDialogTrigger asChild>
+                <Button type="button" variant="outline" disabled={pending}>
+                  Remove
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Remove single sign-on?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Members go back to signing in with an email code. Accounts
+                    created through single sign-on are kept.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <Button
+                    variant="destructive"
+                    onClick={onDelete}
+                    disabled={pending}
+                  >
+                    {pending ? "Removing..." : "Remove"}
+                  </Button>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,98 @@
+import { getOrganizationDomains } from "@/app/data/organization/get-organization-domains";
+import { getOrganizationSettings } from "@/app/data/organization/get-organization-settings";
+import { getOrganizationScimTokens } from "@/app/data/organization/get-organization-scim-tokens";
+import { getOrganizationSsoConnection } from "@/app/data/organization/get-organization-sso-connection";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { BrandingSettingsForm } from "./_components/BrandingSettingsForm";
+import { DomainVerificationSettings } from "./_components/DomainVerificationSettings";
+import { OrganizationSettingsForm } from "./_components/OrganizationSettingsForm";
+import { ScimSettings } from "./_components/ScimSettings";
+import { SsoSettingsForm } from "./_components/SsoSettingsForm";
+
+export default async function OrganizationSettingsPage() {
+  const [organization, domains, sso, scim] = await Promise.all([
+    getOrganizationSettings(),
+    getOrganizationDomains(),
+    getOrganizationSsoConnection(),
+    getOrganizationScimTokens(),
+  ]);
+
+  return (
+    <>
+      <h1 className="text-2xl font-bold">Settings</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Organization settings</CardTitle>
+          <CardDescription>
+            Only the organization owner can change these settings.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <OrganizationSettingsForm organization={organization} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Domain verification</CardTitle>
+          <CardDescription>
+            Publish the TXT record of each email domain with your DNS provider.
+            Automatic joining, single sign-on and SCIM only use verified
+            domains.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DomainVerificationSettings domains={domains} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Branding</CardTitle>
+          <CardDescription>
+            Your logo, name and color replace the PrecuityAI branding for your
+            members in the dashboard and in emails.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <BrandingSettingsForm organization={organization} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Single sign-on</CardTitle>
+          <CardDescription>
+            Let members sign in through your OpenID Connect identity provider,
+            such as Okta, Microsoft Entra ID or Google Workspace.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SsoSettingsForm {...sso} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>SCIM provisioning</CardTitle>
+          <CardDescription>
+            Create, update and deactivate members from your HR system or
+            identity provider. The Admins and Members groups set the role of a
+            member. Only verified domains can be provisioned, and people who
+            already have an account receive an invitation instead.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ScimSettings {...scim} />
+        </CardContent>
+      </Card>
+    </>
+  );
+}
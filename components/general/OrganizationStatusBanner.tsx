@@ -0,0 +1,51 @@
+import { getOrganizationStatus } from "@/app/data/organization/get-organization-status";
+import { inactiveOrganizationMessages } from "@/lib/organization-status";
+import { AlertTriangle, Clock } from "lucide-react";
+import Link from "next/link";
+import { TrialCountdown } from "./TrialCountdown";
+
+export async function OrganizationStatusBanner() {
+  const organization = await getOrganizationStatus();
+
+  if (!organization || organization.access.state === "active") {
+    return null;
+  }
+
+  const isOwner = organization.role === "OWNER";
+
+  if (organization.access.state === "trial") {
+    return (
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border border-primary/30 bg-primary/10 px-4 py-3 text-sm">
+        <Clock className="size-4 text-primary" />
+        <span>
+          {organization.name} is on a free trial.{" "}
+          {organization.trialEndsAt && (
+            <TrialCountdown trialEndsAt={organization.trialEndsAt} />
+          )}
+        </span>
+        {isOwner && (
+          <Link href="/org/billing" className="ml-auto font-medium underline">
+            Choose a plan
+          </Link>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border border-destructive/30 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+      <AlertTriangle className="size-4" />
+      <span>
+        {inactiveOrganizationMessages[organization.access.state]}. Courses from
+        your organization are unavailable until it is reactivated.
+      </span>
+      {isOwner ? (
+        <Link href="/org/billing" className="ml-auto font-medium underline">
+          Reactivate
+        </Link>
+      ) : (
+        <span className="ml-auto">Please contact your organization owner.</span>
+      )}
+    </div>
+  );
+}
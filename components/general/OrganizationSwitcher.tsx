@@ -0,0 +1,63 @@
+"use client";
+
+import {
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useOrganizations } from "@/hooks/use-organizations";
+import { Building2 } from "lucide-react";
+
+// Dropdown menu entries to switch the active organization, rendered inside the
+// user menus. Individual learners without organization see nothing.
+export function OrganizationSwitcher() {
+  const { organizations, activeOrganizationId, switchOrganization, pending } =
+    useOrganizations();
+
+  if (organizations.length === 0) {
+    return null;
+  }
+
+  const activeOrganization = organizations.find(
+    (organization) => organization.id === activeOrganizationId
+  );
+
+  return (
+    <>
+      <DropdownMenuSub>
+        <DropdownMenuSubTrigger disabled={pending} className="gap-2">
+          <Building2 size={16} className="opacity-60" aria-hidden="true" />
+          <span className="truncate">
+            {activeOrganization?.name ?? "Organization"}
+          </span>
+        </DropdownMenuSubTrigger>
+        <DropdownMenuSubContent className="min-w-48">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">
+            Switch organization
+          </DropdownMenuLabel>
+          <DropdownMenuRadioGroup
+            value={activeOrganizationId ?? ""}
+            onValueChange={switchOrganization}
+          >
+            {organizations.map((organization) => (
+              <DropdownMenuRadioItem
+                key={organization.id}
+                value={organization.id}
+              >
+                <span className="truncate">{organization.name}</span>
+                <span className="ml-auto pl-2 text-xs capitalize text-muted-foreground">
+                  {organization.role.toLowerCase()}
+                </span>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuSubContent>
+      </DropdownMenuSub>
+      <DropdownMenuSeparator />
+    </>
+  );
+}
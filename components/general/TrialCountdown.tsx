@@ -0,0 +1,37 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+function formatRemaining(trialEndsAt: Date) {
+  const remaining = trialEndsAt.getTime() - Date.now();
+
+  if (remaining <= 0) {
+    return "The trial has ended.";
+  }
+
+  const days = Math.floor(remaining / (24 * 60 * 60 * 1000));
+  const hours = Math.floor((remaining / (60 * 60 * 1000)) % 24);
+  const minutes = Math.floor((remaining / (60 * 1000)) % 60);
+
+  if (days > 0) {
+    return `${days} ${days === 1 ? "day" : "days"} ${hours}h left.`;
+  }
+
+  return `${hours}h ${minutes}m left.`;
+}
+
+export function TrialCountdown({ trialEndsAt }: { trialEndsAt: Date }) {
+  const [remaining, setRemaining] = useState(() =>
+    formatRemaining(new Date(trialEndsAt))
+  );
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setRemaining(formatRemaining(new Date(trialEndsAt)));
+    }, 60 * 1000);
+
+    return () => clearInterval(interval);
+  }, [trialEndsAt]);
+
+  return <strong suppressHydrationWarning>{remaining}</strong>;
+}
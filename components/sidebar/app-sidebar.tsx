@@ -10,9 +10,12 @@ import {
   IconFolder,
   IconHelp,
   IconListDetails,
+  IconReceiptRefund,
   IconSearch,
   IconSettings,
+  IconTicket,
   IconUsers,
+  IconWebhook,
 } from "@tabler/icons-react";
 import Logo from "@/public/logo.png";
 
@@ -43,6 +46,21 @@ const data = {
       url: "/admin/courses",
       icon: IconListDetails,
     },
+    {
+      title: "Enrollments",
+      url: "/admin/enrollments",
+      icon: IconReceiptRefund,
+    },
+    {
+      title: "Coupons",
+      url: "/admin/coupons",
+      icon: IconTicket,
+    },
+    {
+      title: "Webhooks",
+      url: "/admin/webhooks",
+      icon: IconWebhook,
+    },
     {
       title: "Analytics",
       url: "#",
@@ -26,6 +26,7 @@ import { authClient } from "@/lib/auth-client";
 import Link from "next/link";
 import { HomeIcon, Tv2 } from "lucide-react";
 import { useSignOut } from "@/hooks/use-singout";
+import { OrganizationSwitcher } from "@/components/general/OrganizationSwitcher";
 
 export function NavUser() {
   const { isMobile } = useSidebar();
@@ -107,6 +108,7 @@ export function NavUser() {
               </div>
             </DropdownMenuLabel>
             <DropdownMenuSeparator />
+            <OrganizationSwitcher />
             <DropdownMenuGroup>
               <DropdownMenuItem asChild>
                 <Link href="/">
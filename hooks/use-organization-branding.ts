@@ -0,0 +1,25 @@
+"use client";
+
+import { organizationApi } from "@/lib/auth-client";
+import type { OrganizationBranding } from "@/lib/organization-branding";
+import { useEffect, useState } from "react";
+
+// Branding of the active organization, null for signed out users and users
+// without an organization
+export function useOrganizationBranding(userId: string | undefined) {
+  const [branding, setBranding] = useState<OrganizationBranding | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setBranding(null);
+      return;
+    }
+
+    organizationApi
+      .getBranding()
+      .then((data) => setBranding(data.branding))
+      .catch(() => setBranding(null));
+  }, [userId]);
+
+  return branding;
+}
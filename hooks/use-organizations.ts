@@ -0,0 +1,51 @@
+"use client";
+
+import { tryCatch } from "@/hooks/try-catch";
+import { organizationApi } from "@/lib/auth-client";
+import type { OrganizationList } from "@/lib/auth-types";
+import { useRouter } from "next/navigation";
+import { useEffect, useState, useTransition } from "react";
+import { toast } from "sonner";
+
+// Organizations of the signed in user and a switcher for the active one
+export function useOrganizations() {
+  const router = useRouter();
+  const [data, setData] = useState<OrganizationList | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  useEffect(() => {
+    organizationApi
+      .listOrganizations()
+      .then(setData)
+      .catch(() => setData(null));
+  }, []);
+
+  function switchOrganization(organizationId: string) {
+    if (organizationId === data?.activeOrganizationId) return;
+
+    startTransition(async () => {
+      const { error } = await tryCatch(
+        organizationApi.setActiveOrganization(organizationId)
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      setData(
+        (current) =>
+          current && { ...current, activeOrganizationId: organizationId }
+      );
+      toast.success("Switched organization");
+      router.refresh();
+    });
+  }
+
+  return {
+    organizations: data?.organizations ?? [],
+    activeOrganizationId: data?.activeOrganizationId ?? null,
+    switchOrganization,
+    pending,
+  };
+}
@@ -6,10 +6,30 @@ import type {
   SessionUser,
   CreateOrganizationInput,
   InviteOrganizationMemberInput,
+  BulkInviteInput,
+  BulkInviteResponse,
   AcceptInvitationInput,
   UpdateOrganizationInput,
+  OrganizationDomain,
   OrganizationMember,
+  OrganizationList,
+  PendingInvitation,
+  OrganizationActivityFilters,
+  OrganizationActivityPage,
+  UpdateMemberRoleInput,
+  TransferOwnershipInput,
+  RequestToJoinInput,
+  ReviewJoinRequestInput,
+  OrganizationJoinRequest,
+  JoinRequestStatus,
+  OrganizationSsoConnection,
+  SaveSsoConnectionInput,
+  OrganizationScimToken,
+  OrganizationGroup,
+  CreateGroupInput,
+  UpdateGroupInput,
 } from "./auth-types";
+import type { OrganizationBranding } from "./organization-branding";
 
 // Create the auth client with plugins
 export const authClient = createAuthClient({
@@ -46,6 +66,23 @@ export const organizationApi = {
     return response.json();
   },
 
+  bulkInviteMembers: async (
+    data: BulkInviteInput
+  ): Promise<BulkInviteResponse> => {
+    const response = await fetch("/api/auth/organization/invite/bulk", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(data),
+    });
+    const result = await response.json();
+    // Only a report of the rows counts as success
+    if (!response.ok || !Array.isArray(result.results)) {
+      throw new Error(result.error || "Failed to invite members");
+    }
+    return result;
+  },
+
   acceptInvitation: async (data: AcceptInvitationInput) => {
     const response = await fetch("/api/auth/organization/accept-invitation", {
       method: "POST",
@@ -100,6 +137,33 @@ export const organizationApi = {
     return response.json();
   },
 
+  getDomains: async (): Promise<{ domains: OrganizationDomain[] }> => {
+    const response = await fetch("/api/auth/organization/domains", {
+      method: "GET",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to get domains");
+    }
+    return response.json();
+  },
+
+  verifyDomain: async (domain: string) => {
+    const response = await fetch("/api/auth/organization/domain/verify", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ domain }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to verify domain");
+    }
+    return response.json();
+  },
+
   removeMember: async (memberId: string) => {
     const response = await fetch("/api/auth/organization/remove-member", {
       method: "POST",
@@ -114,6 +178,87 @@ export const organizationApi = {
     return response.json();
   },
 
+  updateMemberRole: async (data: UpdateMemberRoleInput) => {
+    const response = await fetch("/api/auth/organization/member/role", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to update member role");
+    }
+    return response.json();
+  },
+
+  // Sends the OTP the owner re-enters to confirm an ownership transfer
+  sendOwnershipTransferOtp: async (email: string) => {
+    const { error } = await authClient.emailOtp.sendVerificationOtp({
+      email,
+      type: "sign-in",
+    });
+    if (error) {
+      throw new Error(error.message || "Failed to send verification code");
+    }
+  },
+
+  transferOwnership: async (data: TransferOwnershipInput) => {
+    const response = await fetch("/api/auth/organization/transfer-ownership", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to transfer ownership");
+    }
+    return response.json();
+  },
+
+  listOrganizations: async (): Promise<OrganizationList> => {
+    const response = await fetch("/api/auth/organization/list", {
+      method: "GET",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to get organizations");
+    }
+    return response.json();
+  },
+
+  getBranding: async (): Promise<{
+    branding: OrganizationBranding | null;
+  }> => {
+    const response = await fetch("/api/auth/organization/branding", {
+      method: "GET",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to get branding");
+    }
+    return response.json();
+  },
+
+  setActiveOrganization: async (organizationId: string) => {
+    const response = await fetch("/api/auth/organization/set-active", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ organizationId }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to switch organization");
+    }
+    return response.json();
+  },
+
   getMembers: async (): Promise<{ members: OrganizationMember[] }> => {
     const response = await fetch("/api/auth/organization/members", {
       method: "GET",
@@ -127,7 +272,9 @@ export const organizationApi = {
     return response.json();
   },
 
-  getPendingInvitations: async () => {
+  getPendingInvitations: async (): Promise<{
+    invitations: PendingInvitation[];
+  }> => {
     const response = await fetch("/api/auth/organization/invitations", {
       method: "GET",
       headers: { "Content-Type": "application/json" },
@@ -153,6 +300,321 @@ export const organizationApi = {
     }
     return response.json();
   },
+
+  resendInvitation: async (invitationId: string) => {
+    const response = await fetch("/api/auth/organization/invitation/resend", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ invitationId }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to resend invitation");
+    }
+    return response.json();
+  },
+
+  getActivities: async (
+    filters: OrganizationActivityFilters = {}
+  ): Promise<OrganizationActivityPage> => {
+    const params = new URLSearchParams(
+      Object.entries(filters)
+        .filter(([, value]) => value !== undefined && value !== "")
+        .map(([key, value]) => [key, String(value)])
+    );
+    const response = await fetch(
+      `/api/auth/organization/activities?${params.toString()}`,
+      {
+        method: "GET",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+      }
+    );
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to get activities");
+    }
+    return response.json();
+  },
+
+  requestToJoin: async (data: RequestToJoinInput) => {
+    const response = await fetch("/api/auth/organization/join-request", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to request to join");
+    }
+    return response.json();
+  },
+
+  getMyJoinRequests: async (): Promise<{
+    joinRequests: OrganizationJoinRequest[];
+  }> => {
+    const response = await fetch("/api/auth/organization/join-request/mine", {
+      method: "GET",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to get join requests");
+    }
+    return response.json();
+  },
+
+  cancelJoinRequest: async (requestId: string) => {
+    const response = await fetch("/api/auth/organization/join-request/cancel", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ requestId }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to cancel join request");
+    }
+    return response.json();
+  },
+
+  getJoinRequests: async (
+    status: JoinRequestStatus = "PENDING"
+  ): Promise<{ joinRequests: OrganizationJoinRequest[] }> => {
+    const response = await fetch(
+      `/api/auth/organization/join-requests?status=${status}`,
+      {
+        method: "GET",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+      }
+    );
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to get join requests");
+    }
+    return response.json();
+  },
+
+  approveJoinRequest: async (data: ReviewJoinRequestInput) => {
+    const response = await fetch(
+      "/api/auth/organization/join-request/approve",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(data),
+      }
+    );
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to approve join request");
+    }
+    return response.json();
+  },
+
+  rejectJoinRequest: async (data: ReviewJoinRequestInput) => {
+    const response = await fetch("/api/auth/organization/join-request/reject", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to reject join request");
+    }
+    return response.json();
+  },
+
+  getGroups: async (): Promise<{ groups: OrganizationGroup[] }> => {
+    const response = await fetch("/api/auth/organization/groups", {
+      method: "GET",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to get groups");
+    }
+    return response.json();
+  },
+
+  createGroup: async (data: CreateGroupInput) => {
+    const response = await fetch("/api/auth/organization/group/create", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to create group");
+    }
+    return response.json();
+  },
+
+  updateGroup: async (data: UpdateGroupInput) => {
+    const response = await fetch("/api/auth/organization/group/update", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to update group");
+    }
+    return response.json();
+  },
+
+  deleteGroup: async (groupId: string) => {
+    const response = await fetch("/api/auth/organization/group/delete", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ groupId }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to delete group");
+    }
+    return response.json();
+  },
+
+  setGroupMembers: async (groupId: string, memberIds: string[]) => {
+    const response = await fetch("/api/auth/organization/group/members", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ groupId, memberIds }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to update group members");
+    }
+    return response.json();
+  },
+
+  getSsoConnection: async (): Promise<{
+    connection: OrganizationSsoConnection | null;
+    redirectURI: string | null;
+  }> => {
+    const response = await fetch("/api/auth/organization/sso", {
+      method: "GET",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to get single sign-on settings");
+    }
+    return response.json();
+  },
+
+  saveSsoConnection: async (data: SaveSsoConnectionInput) => {
+    const response = await fetch("/api/auth/organization/sso", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to save single sign-on settings");
+    }
+    return response.json();
+  },
+
+  deleteSsoConnection: async () => {
+    const response = await fetch("/api/auth/organization/sso/delete", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to remove single sign-on");
+    }
+    return response.json();
+  },
+
+  getScimTokens: async (): Promise<{
+    tokens: OrganizationScimToken[];
+    baseUrl: string;
+  }> => {
+    const response = await fetch("/api/auth/organization/scim/tokens", {
+      method: "GET",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to get SCIM tokens");
+    }
+    return response.json();
+  },
+
+  createScimToken: async (
+    name: string
+  ): Promise<{ token: OrganizationScimToken; secret: string }> => {
+    const response = await fetch("/api/auth/organization/scim/tokens/create", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ name }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to create SCIM token");
+    }
+    return response.json();
+  },
+
+  revokeScimToken: async (tokenId: string) => {
+    const response = await fetch("/api/auth/organization/scim/tokens/revoke", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ tokenId }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to revoke SCIM token");
+    }
+    return response.json();
+  },
+
+  // Resolves to null when the email domain does not use single sign-on.
+  // linkAccount links the IdP to the signed in account with the same email.
+  signInWithSso: async (
+    email: string,
+    callbackURL: string,
+    linkAccount?: boolean
+  ): Promise<{ url: string } | null> => {
+    const response = await fetch("/api/auth/sign-in/organization-sso", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({
+        email,
+        callbackURL,
+        errorCallbackURL: "/login",
+        linkAccount,
+      }),
+    });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to start single sign-on");
+    }
+    return response.json();
+  },
 };
 
 // Export typed hooks
@@ -1,13 +1,102 @@
-import { createAuthEndpoint } from "better-auth/api";
+import {
+  APIError,
+  createAuthEndpoint,
+  createAuthMiddleware,
+} from "better-auth/api";
+import { setSessionCookie } from "better-auth/cookies";
 import { z } from "zod";
 import { prisma } from "./db";
-import type { OrganizationContext, CombinedRole } from "./auth-types";
+import {
+  sendInvitationCourseReportEmail,
+  sendInvitationEmail,
+  sendInvitationEmails,
+  sendJoinRequestDecisionEmail,
+} from "./organization-emails";
+import { assignLicenseSeat, releaseMemberLicenseSeats } from "./license-seats";
+import {
+  getOrganizationBranding,
+  getOrganizationUploadPrefix,
+} from "./organization-branding";
+import { handleDomainAutoJoin } from "./organization-domain-join";
+import {
+  getVerificationRecord,
+  isPublicEmailDomain,
+  normalizeDomain,
+  syncOrganizationDomains,
+  verifyOrganizationDomain,
+} from "./organization-domains";
+import {
+  getActiveMembership,
+  isOrganizationMember,
+} from "./organization-membership";
+import { isOrganizationActive } from "./organization-status";
+import { TRIAL_SEATS } from "./organization-trials";
+import type {
+  OrganizationContext,
+  CombinedRole,
+  BulkInviteRowResult,
+} from "./auth-types";
+import { bulkInviteRowSchema } from "./zodSchemas";
 import {
   OrganizationRole,
   OrganizationStatus,
   InvitationStatus,
+  JoinRequestStatus,
 } from "./generated/prisma";
-import type { BetterAuthPlugin } from "better-auth";
+import type { BetterAuthPlugin, GenericEndpointContext } from "better-auth";
+
+// Stores the organization on the current session and refreshes the session
+// cookie cache, so the switch applies to the very next request
+async function setActiveOrganization(
+  ctx: GenericEndpointContext,
+  organizationId: string | null
+) {
+  const session = ctx.context.session;
+
+  if (!session) return;
+
+  const updatedSession = await ctx.context.internalAdapter.updateSession(
+    session.session.token,
+    { activeOrganizationId: organizationId }
+  );
+
+  await setSessionCookie(ctx, {
+    session: updatedSession ?? {
+      ...session.session,
+      activeOrganizationId: organizationId,
+    },
+    user: session.user,
+  });
+}
+
+// Memberships of the given users, or null when one of them is not a member
+async function findGroupMemberships(organizationId: string, userIds: string[]) {
+  const memberships = await prisma.organizationMembership.findMany({
+    where: { organizationId, userId: { in: userIds } },
+    select: { id: true, userId: true },
+  });
+
+  return memberships.length === new Set(userIds).size ? memberships : null;
+}
+
+// Adds a new member to the groups of their invitation that still exist
+async function joinInvitationGroups(
+  organizationId: string,
+  membershipId: string,
+  groupIds: string[]
+) {
+  if (groupIds.length === 0) return;
+
+  const groups = await prisma.organizationGroup.findMany({
+    where: { organizationId, id: { in: groupIds } },
+    select: { id: true },
+  });
+
+  await prisma.organizationGroupMember.createMany({
+    data: groups.map((group) => ({ groupId: group.id, membershipId })),
+    skipDuplicates: true,
+  });
+}
 
 export const organizationPlugin = (): BetterAuthPlugin => {
   return {
@@ -28,7 +117,6 @@ export const organizationPlugin = (): BetterAuthPlugin => {
               .regex(/^[a-z0-9-]+$/),
             description: z.string().optional(),
             contactEmail: z.string().email().optional(),
-            maxSeats: z.number().min(1).default(5),
           }),
         },
         async (ctx) => {
@@ -58,23 +146,24 @@ export const organizationPlugin = (): BetterAuthPlugin => {
               slug: body.slug,
               description: body.description,
               contactEmail: body.contactEmail,
-              maxSeats: body.maxSeats ?? 5,
+              maxSeats: TRIAL_SEATS,
               ownerId: userId,
               status: OrganizationStatus.TRIAL,
               trialEndsAt: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // 14 days trial
             },
           });
 
-          // Update user to be part of the organization
-          await prisma.user.update({
-            where: { id: userId },
+          // Make the creator the owner and switch to the new organization
+          await prisma.organizationMembership.create({
             data: {
               organizationId: organization.id,
-              organizationRole: OrganizationRole.OWNER,
-              joinedOrganizationAt: new Date(),
+              userId: userId,
+              role: OrganizationRole.OWNER,
             },
           });
 
+          await setActiveOrganization(ctx, organization.id);
+
           // Log activity
           await prisma.organizationActivity.create({
             data: {
@@ -97,9 +186,11 @@ export const organizationPlugin = (): BetterAuthPlugin => {
           requiresAuth: true,
           body: z.object({
             email: z.string().email(),
-            role: z.enum(["OWNER", "ADMIN", "MEMBER"]),
+            // Ownership is only handed over through transferOwnership
+            role: z.enum(["ADMIN", "MEMBER"]),
             message: z.string().optional(),
             courseIds: z.array(z.string()).optional(),
+            groupIds: z.array(z.string()).optional(),
           }),
         },
         async (ctx) => {
@@ -110,12 +201,12 @@ export const organizationPlugin = (): BetterAuthPlugin => {
             return ctx.json({ error: "Unauthorized" }, { status: 401 });
           }
 
-          const user = await prisma.user.findUnique({
-            where: { id: userId },
-            include: { organization: true },
-          });
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
 
-          if (!user?.organizationId || !user.organization) {
+          if (!membership) {
             return ctx.json(
               { error: "User is not part of an organization" },
               { status: 400 }
@@ -124,8 +215,8 @@ export const organizationPlugin = (): BetterAuthPlugin => {
 
           // Check permissions (only OWNER and ADMIN can invite)
           if (
-            user.organizationRole !== OrganizationRole.OWNER &&
-            user.organizationRole !== OrganizationRole.ADMIN
+            membership.role !== OrganizationRole.OWNER &&
+            membership.role !== OrganizationRole.ADMIN
           ) {
             return ctx.json(
               { error: "Insufficient permissions" },
@@ -133,12 +224,19 @@ export const organizationPlugin = (): BetterAuthPlugin => {
             );
           }
 
+          if (!isOrganizationActive(membership.organization)) {
+            return ctx.json(
+              { error: "Organization is not active" },
+              { status: 403 }
+            );
+          }
+
           // Check seat availability
-          const memberCount = await prisma.user.count({
-            where: { organizationId: user.organizationId },
+          const memberCount = await prisma.organizationMembership.count({
+            where: { organizationId: membership.organizationId },
           });
 
-          if (memberCount >= user.organization.maxSeats) {
+          if (memberCount >= membership.organization.maxSeats) {
             return ctx.json(
               { error: "Organization has reached maximum seat limit" },
               { status: 400 }
@@ -146,11 +244,14 @@ export const organizationPlugin = (): BetterAuthPlugin => {
           }
 
           // Check if already invited or member
-          const existingMember = await prisma.user.findUnique({
-            where: { email: body.email },
+          const existingMember = await prisma.organizationMembership.findFirst({
+            where: {
+              organizationId: membership.organizationId,
+              user: { email: body.email },
+            },
           });
 
-          if (existingMember?.organizationId === user.organizationId) {
+          if (existingMember) {
             return ctx.json(
               { error: "User is already a member of this organization" },
               { status: 400 }
@@ -161,7 +262,7 @@ export const organizationPlugin = (): BetterAuthPlugin => {
             await prisma.organizationInvitation.findUnique({
               where: {
                 organizationId_email: {
-                  organizationId: user.organizationId,
+                  organizationId: membership.organizationId,
                   email: body.email,
                 },
               },
@@ -177,24 +278,48 @@ export const organizationPlugin = (): BetterAuthPlugin => {
             );
           }
 
-          // Create invitation
-          const invitation = await prisma.organizationInvitation.create({
-            data: {
-              organizationId: user.organizationId,
-              email: body.email,
-              role: body.role as OrganizationRole,
-              message: body.message,
-              senderId: userId,
-              courseIds: body.courseIds || [],
-              status: InvitationStatus.PENDING,
-              expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+          const groupIds = [...new Set(body.groupIds ?? [])];
+          const groupCount = await prisma.organizationGroup.count({
+            where: {
+              organizationId: membership.organizationId,
+              id: { in: groupIds },
             },
           });
 
+          if (groupCount !== groupIds.length) {
+            return ctx.json({ error: "Group not found" }, { status: 400 });
+          }
+
+          // Create invitation (re-use the row of a cancelled or expired one)
+          const invitationData = {
+            role: body.role,
+            message: body.message,
+            senderId: userId,
+            courseIds: body.courseIds || [],
+            groupIds: groupIds,
+            status: InvitationStatus.PENDING,
+            expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+            acceptedAt: null,
+            rejectedAt: null,
+          };
+
+          const invitation = existingInvitation
+            ? await prisma.organizationInvitation.update({
+                where: { id: existingInvitation.id },
+                data: { ...invitationData, token: crypto.randomUUID() },
+              })
+            : await prisma.organizationInvitation.create({
+                data: {
+                  ...invitationData,
+                  organizationId: membership.organizationId,
+                  email: body.email,
+                },
+              });
+
           // Log activity
           await prisma.organizationActivity.create({
             data: {
-              organizationId: user.organizationId,
+              organizationId: membership.organizationId,
               userId: userId,
               action: "member_invited",
               entityType: "invitation",
@@ -203,10 +328,332 @@ export const organizationPlugin = (): BetterAuthPlugin => {
             },
           });
 
-          // TODO: Send invitation email via Resend
-          // await sendInvitationEmail(invitation);
+          // Send invitation email, the invitation stays valid if this fails
+          let emailSent = true;
+          try {
+            await sendInvitationEmail({
+              ...invitation,
+              organization: membership.organization,
+              sender: membership.user,
+            });
+          } catch (error) {
+            emailSent = false;
+            console.error("Failed to send invitation email:", error);
+          }
+
+          return ctx.json({ invitation, emailSent });
+        }
+      ),
+
+      bulkInviteMembers: createAuthEndpoint(
+        "/organization/invite/bulk",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            rows: z.array(z.record(z.string(), z.unknown())).min(1).max(1000),
+            message: z.string().optional(),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          // Check permissions (only OWNER and ADMIN can invite)
+          if (
+            membership.role !== OrganizationRole.OWNER &&
+            membership.role !== OrganizationRole.ADMIN
+          ) {
+            throw new APIError("FORBIDDEN", {
+              error: "Insufficient permissions",
+            });
+          }
+
+          if (!isOrganizationActive(membership.organization)) {
+            throw new APIError("FORBIDDEN", {
+              error: "Organization is not active",
+            });
+          }
+
+          const organizationId = membership.organizationId;
+          const organization = membership.organization;
+          const results: BulkInviteRowResult[] = [];
+
+          // Validate every row first, row numbers match the CSV (header = 1)
+          const validRows = body.rows.flatMap((raw, index) => {
+            const row = index + 2;
+            const parsed = bulkInviteRowSchema.safeParse(raw);
+
+            if (!parsed.success) {
+              results.push({
+                row,
+                email: typeof raw.email === "string" ? raw.email : "",
+                status: "error",
+                message: parsed.error.errors
+                  .map((error) => error.message)
+                  .join(", "),
+              });
+              return [];
+            }
+
+            return [{ row, ...parsed.data }];
+          });
+
+          const emails = validRows.map((row) => row.email);
+          const slugs = [...new Set(validRows.flatMap((row) => row.courses))];
+
+          const [existingMembers, existingInvitations, courses, groups] =
+            await Promise.all([
+              prisma.user.findMany({
+                where: {
+                  email: { in: emails },
+                  organizationMemberships: { some: { organizationId } },
+                },
+                select: { email: true },
+              }),
+              prisma.organizationInvitation.findMany({
+                where: { organizationId, email: { in: emails } },
+                select: {
+                  id: true,
+                  email: true,
+                  status: true,
+                  expiresAt: true,
+                },
+              }),
+              prisma.course.findMany({
+                where: { slug: { in: slugs } },
+                select: { id: true, slug: true },
+              }),
+              prisma.organizationGroup.findMany({
+                where: { organizationId },
+                select: { id: true, name: true },
+              }),
+            ]);
+
+          const memberEmails = new Set(existingMembers.map((m) => m.email));
+          const invitationsByEmail = new Map(
+            existingInvitations.map((invitation) => [
+              invitation.email,
+              invitation,
+            ])
+          );
+          const courseIdsBySlug = new Map(
+            courses.map((course) => [course.slug, course.id])
+          );
+          // Group names are matched case-insensitively
+          const groupIdsByName = new Map(
+            groups.map((group) => [group.name.toLowerCase(), group.id])
+          );
+
+          const seenEmails = new Set<string>();
+          const rowsToInvite: ((typeof validRows)[number] & {
+            courseIds: string[];
+            groupIds: string[];
+            existingInvitationId?: string;
+          })[] = [];
+
+          for (const row of validRows) {
+            const skip = (message: string) =>
+              results.push({
+                row: row.row,
+                email: row.email,
+                status: "skipped",
+                message,
+              });
+
+            if (seenEmails.has(row.email)) {
+              skip("Duplicate email in file");
+              continue;
+            }
+            seenEmails.add(row.email);
+
+            if (memberEmails.has(row.email)) {
+              skip("Already a member of this organization");
+              continue;
+            }
+
+            const existingInvitation = invitationsByEmail.get(row.email);
+
+            if (
+              existingInvitation?.status === InvitationStatus.PENDING &&
+              existingInvitation.expiresAt > new Date()
+            ) {
+              skip("Invitation already pending");
+              continue;
+            }
+
+            const unknownSlugs = row.courses.filter(
+              (slug) => !courseIdsBySlug.has(slug)
+            );
+
+            if (unknownSlugs.length > 0) {
+              results.push({
+                row: row.row,
+                email: row.email,
+                status: "error",
+                message: `Unknown course slug: ${unknownSlugs.join(", ")}`,
+              });
+              continue;
+            }
+
+            const unknownGroups = row.groups.filter(
+              (name) => !groupIdsByName.has(name.toLowerCase())
+            );
+
+            if (unknownGroups.length > 0) {
+              results.push({
+                row: row.row,
+                email: row.email,
+                status: "error",
+                message: `Unknown group: ${unknownGroups.join(", ")}`,
+              });
+              continue;
+            }
+
+            rowsToInvite.push({
+              ...row,
+              courseIds: row.courses.map(
+                (slug) => courseIdsBySlug.get(slug) as string
+              ),
+              groupIds: row.groups.map(
+                (name) => groupIdsByName.get(name.toLowerCase()) as string
+              ),
+              existingInvitationId: existingInvitation?.id,
+            });
+          }
+
+          // Members and pending invitations both count towards the seat limit
+          const [memberCount, pendingCount] = await Promise.all([
+            prisma.organizationMembership.count({ where: { organizationId } }),
+            prisma.organizationInvitation.count({
+              where: {
+                organizationId,
+                status: InvitationStatus.PENDING,
+                expiresAt: { gt: new Date() },
+              },
+            }),
+          ]);
+
+          const availableSeats = Math.max(
+            organization.maxSeats - memberCount - pendingCount,
+            0
+          );
+
+          if (rowsToInvite.length > availableSeats) {
+            throw new APIError("BAD_REQUEST", {
+              error: `Not enough seats: ${rowsToInvite.length} invitations requested but only ${availableSeats} seats are available`,
+            });
+          }
+
+          const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+          const invitationData = (row: (typeof rowsToInvite)[number]) => ({
+            role: row.role as OrganizationRole,
+            message: body.message,
+            senderId: userId,
+            courseIds: row.courseIds,
+            groupIds: row.groupIds,
+            status: InvitationStatus.PENDING,
+            expiresAt,
+          });
+
+          const newRows = rowsToInvite.filter(
+            (row) => !row.existingInvitationId
+          );
+          const reusedRows = rowsToInvite.filter(
+            (row) => row.existingInvitationId
+          );
+
+          // Create the whole batch atomically, re-using cancelled/expired rows
+          const invitations = await prisma.$transaction(async (tx) => {
+            const created = await tx.organizationInvitation.createManyAndReturn(
+              {
+                data: newRows.map((row) => ({
+                  ...invitationData(row),
+                  organizationId,
+                  email: row.email,
+                })),
+              }
+            );
+
+            const updated = await Promise.all(
+              reusedRows.map((row) =>
+                tx.organizationInvitation.update({
+                  where: { id: row.existingInvitationId },
+                  data: {
+                    ...invitationData(row),
+                    token: crypto.randomUUID(),
+                    acceptedAt: null,
+                    rejectedAt: null,
+                  },
+                })
+              )
+            );
+
+            const all = [...created, ...updated];
+
+            await tx.organizationActivity.createMany({
+              data: all.map((invitation) => ({
+                organizationId,
+                userId,
+                action: "member_invited",
+                entityType: "invitation",
+                entityId: invitation.id,
+                metadata: {
+                  email: invitation.email,
+                  role: invitation.role,
+                  source: "bulk",
+                },
+              })),
+            });
+
+            return all;
+          });
+
+          for (const row of rowsToInvite) {
+            results.push({
+              row: row.row,
+              email: row.email,
+              status: "invited",
+              message: "Invitation sent",
+            });
+          }
+
+          let emailSent = true;
+          try {
+            await sendInvitationEmails(
+              invitations.map((invitation) => ({
+                ...invitation,
+                organization,
+                sender: membership.user,
+              }))
+            );
+          } catch (error) {
+            emailSent = false;
+            console.error("Failed to send bulk invitation emails:", error);
+          }
+
+          results.sort((a, b) => a.row - b.row);
 
-          return ctx.json({ invitation });
+          return ctx.json({
+            results,
+            invitedCount: invitations.length,
+            emailSent,
+          });
         }
       ),
 
@@ -229,7 +676,10 @@ export const organizationPlugin = (): BetterAuthPlugin => {
 
           const invitation = await prisma.organizationInvitation.findUnique({
             where: { token: body.token },
-            include: { organization: true },
+            include: {
+              organization: true,
+              sender: { select: { name: true, email: true } },
+            },
           });
 
           if (!invitation) {
@@ -254,6 +704,13 @@ export const organizationPlugin = (): BetterAuthPlugin => {
             );
           }
 
+          if (!isOrganizationActive(invitation.organization)) {
+            return ctx.json(
+              { error: "Organization is not active" },
+              { status: 403 }
+            );
+          }
+
           const user = await prisma.user.findUnique({
             where: { id: userId },
           });
@@ -265,23 +722,34 @@ export const organizationPlugin = (): BetterAuthPlugin => {
             );
           }
 
-          if (user?.organizationId) {
+          if (await isOrganizationMember(invitation.organizationId, userId)) {
             return ctx.json(
-              { error: "User is already part of an organization" },
+              { error: "User is already a member of this organization" },
               { status: 400 }
             );
           }
 
-          // Update user to join organization
-          await prisma.user.update({
-            where: { id: userId },
+          // Join the organization and switch to it
+          const newMembership = await prisma.organizationMembership.create({
             data: {
               organizationId: invitation.organizationId,
-              organizationRole: invitation.role,
-              joinedOrganizationAt: new Date(),
+              userId: userId,
+              // Invitations sent before owners were excluded join as members
+              role:
+                invitation.role === OrganizationRole.OWNER
+                  ? OrganizationRole.MEMBER
+                  : invitation.role,
             },
           });
 
+          await joinInvitationGroups(
+            invitation.organizationId,
+            newMembership.id,
+            invitation.groupIds
+          );
+
+          await setActiveOrganization(ctx, invitation.organizationId);
+
           // Update invitation status
           await prisma.organizationInvitation.update({
             where: { id: invitation.id },
@@ -302,9 +770,72 @@ export const organizationPlugin = (): BetterAuthPlugin => {
             },
           });
 
+          // Grant the courses attached to the invitation from the org licenses
+          const grantedCourseIds: string[] = [];
+          const failedCourses: {
+            courseId: string;
+            title: string;
+            reason: string;
+            message: string;
+          }[] = [];
+
+          if (invitation.courseIds.length > 0) {
+            const courses = await prisma.course.findMany({
+              where: { id: { in: invitation.courseIds } },
+              select: { id: true, title: true },
+            });
+
+            for (const course of courses) {
+              const result = await assignLicenseSeat({
+                organizationId: invitation.organizationId,
+                courseId: course.id,
+                userId: userId,
+                assignedBy: invitation.senderId,
+                source: "invitation",
+              });
+
+              if (result.success || result.reason === "already_enrolled") {
+                grantedCourseIds.push(course.id);
+              } else {
+                failedCourses.push({
+                  courseId: course.id,
+                  title: course.title,
+                  reason: result.reason,
+                  message: result.message,
+                });
+              }
+            }
+          }
+
+          if (failedCourses.length > 0) {
+            await prisma.organizationActivity.create({
+              data: {
+                organizationId: invitation.organizationId,
+                userId: userId,
+                action: "invitation_courses_not_granted",
+                entityType: "invitation",
+                entityId: invitation.id,
+                metadata: { failedCourses },
+              },
+            });
+
+            try {
+              await sendInvitationCourseReportEmail({
+                sender: invitation.sender,
+                memberEmail: invitation.email,
+                organizationName: invitation.organization.name,
+                failedCourses,
+              });
+            } catch (error) {
+              console.error("Failed to send invitation course report:", error);
+            }
+          }
+
           return ctx.json({
             success: true,
             organization: invitation.organization,
+            grantedCourseIds,
+            failedCourses,
           });
         }
       ),
@@ -322,18 +853,19 @@ export const organizationPlugin = (): BetterAuthPlugin => {
             return ctx.json({ error: "Unauthorized" }, { status: 401 });
           }
 
-          const user = await prisma.user.findUnique({
-            where: { id: userId },
-          });
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
 
-          if (!user?.organizationId) {
+          if (!membership) {
             return ctx.json(
               { error: "User is not part of an organization" },
               { status: 400 }
             );
           }
 
-          if (user.organizationRole === OrganizationRole.OWNER) {
+          if (membership.role === OrganizationRole.OWNER) {
             return ctx.json(
               {
                 error:
@@ -343,18 +875,21 @@ export const organizationPlugin = (): BetterAuthPlugin => {
             );
           }
 
-          const organizationId = user.organizationId;
+          const organizationId = membership.organizationId;
 
-          // Update user
-          await prisma.user.update({
-            where: { id: userId },
-            data: {
-              organizationId: null,
-              organizationRole: null,
-              joinedOrganizationAt: null,
-            },
+          await prisma.organizationMembership.delete({
+            where: { id: membership.id },
+          });
+
+          await releaseMemberLicenseSeats({
+            organizationId: organizationId,
+            userId: userId,
+            revokedBy: userId,
           });
 
+          // Fall back to the user's next organization, if any
+          await setActiveOrganization(ctx, null);
+
           // Log activity
           await prisma.organizationActivity.create({
             data: {
@@ -383,27 +918,132 @@ export const organizationPlugin = (): BetterAuthPlugin => {
             return ctx.json({ error: "Unauthorized" }, { status: 401 });
           }
 
-          const user = await prisma.user.findUnique({
-            where: { id: userId },
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            return ctx.json({ organization: null });
+          }
+
+          const organization = await prisma.organization.findUnique({
+            where: { id: membership.organizationId },
             include: {
-              organization: {
-                include: {
-                  _count: {
-                    select: {
-                      members: true,
-                      courseLicenses: true,
-                    },
-                  },
+              _count: {
+                select: {
+                  members: true,
+                  courseLicenses: true,
                 },
               },
             },
           });
 
-          if (!user?.organization) {
-            return ctx.json({ organization: null });
+          return ctx.json({ organization });
+        }
+      ),
+
+      listOrganizations: createAuthEndpoint(
+        "/organization/list",
+        {
+          method: "GET",
+          requiresAuth: true,
+        },
+        async (ctx) => {
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            return ctx.json({ error: "Unauthorized" }, { status: 401 });
+          }
+
+          const [memberships, activeMembership] = await Promise.all([
+            prisma.organizationMembership.findMany({
+              where: { userId },
+              include: {
+                organization: {
+                  select: {
+                    id: true,
+                    name: true,
+                    slug: true,
+                    logo: true,
+                    status: true,
+                  },
+                },
+              },
+              orderBy: { joinedAt: "asc" },
+            }),
+            getActiveMembership(
+              userId,
+              ctx.context.session?.session.activeOrganizationId
+            ),
+          ]);
+
+          const organizations = memberships.map((membership) => ({
+            ...membership.organization,
+            role: membership.role,
+            joinedAt: membership.joinedAt,
+          }));
+
+          return ctx.json({
+            organizations,
+            activeOrganizationId: activeMembership?.organizationId ?? null,
+          });
+        }
+      ),
+
+      getBranding: createAuthEndpoint(
+        "/organization/branding",
+        {
+          method: "GET",
+          requiresAuth: true,
+        },
+        async (ctx) => {
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            return ctx.json({ error: "Unauthorized" }, { status: 401 });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          return ctx.json({
+            branding: membership
+              ? getOrganizationBranding(membership.organization)
+              : null,
+          });
+        }
+      ),
+
+      setActiveOrganization: createAuthEndpoint(
+        "/organization/set-active",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            organizationId: z.string(),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            return ctx.json({ error: "Unauthorized" }, { status: 401 });
+          }
+
+          if (!(await isOrganizationMember(body.organizationId, userId))) {
+            return ctx.json(
+              { error: "User is not a member of this organization" },
+              { status: 403 }
+            );
           }
 
-          return ctx.json({ organization: user.organization });
+          await setActiveOrganization(ctx, body.organizationId);
+
+          return ctx.json({ success: true });
         }
       ),
 
@@ -420,32 +1060,49 @@ export const organizationPlugin = (): BetterAuthPlugin => {
             return ctx.json({ error: "Unauthorized" }, { status: 401 });
           }
 
-          const user = await prisma.user.findUnique({
-            where: { id: userId },
-          });
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
 
-          if (!user?.organizationId) {
+          if (!membership) {
             return ctx.json(
               { error: "User is not part of an organization" },
               { status: 400 }
             );
           }
 
-          const members = await prisma.user.findMany({
-            where: { organizationId: user.organizationId },
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              image: true,
-              organizationRole: true,
-              joinedOrganizationAt: true,
+          const memberships = await prisma.organizationMembership.findMany({
+            where: { organizationId: membership.organizationId },
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  email: true,
+                  image: true,
+                },
+              },
+              groups: {
+                select: {
+                  group: { select: { id: true, name: true } },
+                },
+              },
             },
             orderBy: {
-              joinedOrganizationAt: "desc",
+              joinedAt: "desc",
             },
           });
 
+          const members = memberships.map(
+            ({ user, role, joinedAt, groups }) => ({
+              ...user,
+              organizationRole: role,
+              joinedOrganizationAt: joinedAt,
+              groups: groups.map(({ group }) => group),
+            })
+          );
+
           return ctx.json({ members });
         }
       ),
@@ -467,11 +1124,12 @@ export const organizationPlugin = (): BetterAuthPlugin => {
             return ctx.json({ error: "Unauthorized" }, { status: 401 });
           }
 
-          const user = await prisma.user.findUnique({
-            where: { id: userId },
-          });
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
 
-          if (!user?.organizationId) {
+          if (!membership) {
             return ctx.json(
               { error: "User is not part of an organization" },
               { status: 400 }
@@ -480,8 +1138,8 @@ export const organizationPlugin = (): BetterAuthPlugin => {
 
           // Check permissions (only OWNER and ADMIN can remove members)
           if (
-            user.organizationRole !== OrganizationRole.OWNER &&
-            user.organizationRole !== OrganizationRole.ADMIN
+            membership.role !== OrganizationRole.OWNER &&
+            membership.role !== OrganizationRole.ADMIN
           ) {
             return ctx.json(
               { error: "Insufficient permissions" },
@@ -489,21 +1147,25 @@ export const organizationPlugin = (): BetterAuthPlugin => {
             );
           }
 
-          const memberToRemove = await prisma.user.findUnique({
-            where: { id: body.memberId },
-          });
+          const memberToRemove = await prisma.organizationMembership.findUnique(
+            {
+              where: {
+                organizationId_userId: {
+                  organizationId: membership.organizationId,
+                  userId: body.memberId,
+                },
+              },
+            }
+          );
 
-          if (
-            !memberToRemove ||
-            memberToRemove.organizationId !== user.organizationId
-          ) {
+          if (!memberToRemove) {
             return ctx.json(
               { error: "Member not found in organization" },
               { status: 404 }
             );
           }
 
-          if (memberToRemove.organizationRole === OrganizationRole.OWNER) {
+          if (memberToRemove.role === OrganizationRole.OWNER) {
             return ctx.json(
               { error: "Cannot remove organization owner" },
               { status: 400 }
@@ -511,19 +1173,20 @@ export const organizationPlugin = (): BetterAuthPlugin => {
           }
 
           // Remove member from organization
-          await prisma.user.update({
-            where: { id: body.memberId },
-            data: {
-              organizationId: null,
-              organizationRole: null,
-              joinedOrganizationAt: null,
-            },
+          await prisma.organizationMembership.delete({
+            where: { id: memberToRemove.id },
+          });
+
+          await releaseMemberLicenseSeats({
+            organizationId: membership.organizationId,
+            userId: body.memberId,
+            revokedBy: userId,
           });
 
           // Log activity
           await prisma.organizationActivity.create({
             data: {
-              organizationId: user.organizationId,
+              organizationId: membership.organizationId,
               userId: userId,
               action: "member_removed",
               entityType: "user",
@@ -536,6 +1199,237 @@ export const organizationPlugin = (): BetterAuthPlugin => {
         }
       ),
 
+      updateMemberRole: createAuthEndpoint(
+        "/organization/member/role",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            memberId: z.string(),
+            role: z.enum(["ADMIN", "MEMBER"]),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          // Check permissions (only OWNER and ADMIN can change roles)
+          if (
+            membership.role !== OrganizationRole.OWNER &&
+            membership.role !== OrganizationRole.ADMIN
+          ) {
+            throw new APIError("FORBIDDEN", {
+              error: "Insufficient permissions",
+            });
+          }
+
+          if (body.memberId === userId) {
+            throw new APIError("BAD_REQUEST", {
+              error: "You cannot change your own role",
+            });
+          }
+
+          const member = await prisma.organizationMembership.findUnique({
+            where: {
+              organizationId_userId: {
+                organizationId: membership.organizationId,
+                userId: body.memberId,
+              },
+            },
+          });
+
+          if (!member) {
+            throw new APIError("NOT_FOUND", {
+              error: "Member not found in organization",
+            });
+          }
+
+          if (member.role === OrganizationRole.OWNER) {
+            throw new APIError("BAD_REQUEST", {
+              error: "Use ownership transfer to change the owner's role",
+            });
+          }
+
+          // Admins can promote members, but only the owner can demote admins
+          if (
+            member.role === OrganizationRole.ADMIN &&
+            membership.role !== OrganizationRole.OWNER
+          ) {
+            throw new APIError("FORBIDDEN", {
+              error: "Only the organization owner can demote admins",
+            });
+          }
+
+          if (member.role === body.role) {
+            return ctx.json({ success: true });
+          }
+
+          await prisma.$transaction([
+            prisma.organizationMembership.update({
+              where: { id: member.id },
+              data: { role: body.role as OrganizationRole },
+            }),
+            prisma.organizationActivity.create({
+              data: {
+                organizationId: membership.organizationId,
+                userId: userId,
+                action: "member_role_updated",
+                entityType: "user",
+                entityId: member.userId,
+                metadata: {
+                  previousRole: member.role,
+                  newRole: body.role,
+                },
+              },
+            }),
+          ]);
+
+          return ctx.json({ success: true });
+        }
+      ),
+
+      transferOwnership: createAuthEndpoint(
+        "/organization/transfer-ownership",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            newOwnerId: z.string(),
+            otp: z.string().min(1),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          if (membership.role !== OrganizationRole.OWNER) {
+            throw new APIError("FORBIDDEN", {
+              error: "Only the organization owner can transfer ownership",
+            });
+          }
+
+          if (body.newOwnerId === userId) {
+            throw new APIError("BAD_REQUEST", {
+              error: "You already own this organization",
+            });
+          }
+
+          const newOwner = await prisma.organizationMembership.findUnique({
+            where: {
+              organizationId_userId: {
+                organizationId: membership.organizationId,
+                userId: body.newOwnerId,
+              },
+            },
+          });
+
+          if (!newOwner) {
+            throw new APIError("NOT_FOUND", {
+              error: "Member not found in organization",
+            });
+          }
+
+          // The owner confirms the transfer with a sign-in OTP sent to their
+          // own email, checked the same way the emailOTP plugin does
+          const verification =
+            await ctx.context.internalAdapter.findVerificationValue(
+              `sign-in-otp-${membership.user.email}`
+            );
+
+          if (!verification || verification.expiresAt < new Date()) {
+            throw new APIError("BAD_REQUEST", {
+              error: "Verification code expired. Request a new one.",
+            });
+          }
+
+          const [otpValue, attempts] = verification.value.split(":");
+
+          if (parseInt(attempts || "0") >= 3) {
+            await ctx.context.internalAdapter.deleteVerificationValue(
+              verification.id
+            );
+            throw new APIError("FORBIDDEN", {
+              error: "Too many attempts. Request a new code.",
+            });
+          }
+
+          if (body.otp !== otpValue) {
+            await ctx.context.internalAdapter.updateVerificationValue(
+              verification.id,
+              { value: `${otpValue}:${parseInt(attempts || "0") + 1}` }
+            );
+            throw new APIError("BAD_REQUEST", {
+              error: "Invalid verification code",
+            });
+          }
+
+          await ctx.context.internalAdapter.deleteVerificationValue(
+            verification.id
+          );
+
+          await prisma.$transaction([
+            prisma.organization.update({
+              where: { id: membership.organizationId },
+              data: { ownerId: newOwner.userId },
+            }),
+            prisma.organizationMembership.update({
+              where: { id: newOwner.id },
+              data: { role: OrganizationRole.OWNER },
+            }),
+            prisma.organizationMembership.update({
+              where: { id: membership.id },
+              data: { role: OrganizationRole.ADMIN },
+            }),
+            prisma.organizationActivity.create({
+              data: {
+                organizationId: membership.organizationId,
+                userId: userId,
+                action: "ownership_transferred",
+                entityType: "organization",
+                entityId: membership.organizationId,
+                metadata: {
+                  previousOwnerId: userId,
+                  newOwnerId: newOwner.userId,
+                  newOwnerPreviousRole: newOwner.role,
+                },
+              },
+            }),
+          ]);
+
+          return ctx.json({ success: true });
+        }
+      ),
+
       updateOrganization: createAuthEndpoint(
         "/organization/update",
         {
@@ -545,10 +1439,30 @@ export const organizationPlugin = (): BetterAuthPlugin => {
             name: z.string().min(2).max(100).optional(),
             description: z.string().optional(),
             contactEmail: z.string().email().optional(),
-            maxSeats: z.number().min(1).optional(),
             allowSelfSignup: z.boolean().optional(),
             domains: z.array(z.string()).optional(),
             requireAdminApproval: z.boolean().optional(),
+            autoDeactivateAfterDays: z
+              .number()
+              .int()
+              .min(14)
+              .max(365)
+              .nullable()
+              .optional(),
+            // Branding, null resets to the PrecuityAI default
+            logo: z.string().nullable().optional(),
+            displayName: z.string().max(100).nullable().optional(),
+            brandColor: z
+              .string()
+              .regex(/^#[0-9a-f]{6}$/i)
+              .nullable()
+              .optional(),
+            emailSenderName: z
+              .string()
+              .max(60)
+              .regex(/^[^<>",\r\n]*$/)
+              .nullable()
+              .optional(),
           }),
         },
         async (ctx) => {
@@ -559,11 +1473,12 @@ export const organizationPlugin = (): BetterAuthPlugin => {
             return ctx.json({ error: "Unauthorized" }, { status: 401 });
           }
 
-          const user = await prisma.user.findUnique({
-            where: { id: userId },
-          });
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
 
-          if (!user?.organizationId) {
+          if (!membership) {
             return ctx.json(
               { error: "User is not part of an organization" },
               { status: 400 }
@@ -571,29 +1486,57 @@ export const organizationPlugin = (): BetterAuthPlugin => {
           }
 
           // Check permissions (only OWNER can update organization)
-          if (user.organizationRole !== OrganizationRole.OWNER) {
+          if (membership.role !== OrganizationRole.OWNER) {
             return ctx.json(
               { error: "Only organization owner can update settings" },
               { status: 403 }
             );
           }
 
+          // Logos are uploaded under the prefix of the organization, see the
+          // S3 upload route
+          if (
+            body.logo &&
+            !body.logo.startsWith(
+              getOrganizationUploadPrefix(membership.organizationId)
+            )
+          ) {
+            throw new APIError("BAD_REQUEST", { error: "Invalid logo" });
+          }
+
+          // Stored normalized so sign-in can match on the email domain
+          const domains = body.domains
+            ? [...new Set(body.domains.map(normalizeDomain))]
+            : undefined;
+          const publicDomain = domains?.find(isPublicEmailDomain);
+
+          if (publicDomain) {
+            throw new APIError("BAD_REQUEST", {
+              error: `${publicDomain} is a public email provider`,
+            });
+          }
+
           const updatedOrganization = await prisma.organization.update({
-            where: { id: user.organizationId },
+            where: { id: membership.organizationId },
             data: {
               ...body,
+              domains: domains,
               updatedAt: new Date(),
             },
           });
 
+          if (domains) {
+            await syncOrganizationDomains(membership.organizationId, domains);
+          }
+
           // Log activity
           await prisma.organizationActivity.create({
             data: {
-              organizationId: user.organizationId,
+              organizationId: membership.organizationId,
               userId: userId,
               action: "organization_updated",
               entityType: "organization",
-              entityId: user.organizationId,
+              entityId: membership.organizationId,
               metadata: { changes: body },
             },
           });
@@ -602,8 +1545,8 @@ export const organizationPlugin = (): BetterAuthPlugin => {
         }
       ),
 
-      getPendingInvitations: createAuthEndpoint(
-        "/organization/invitations",
+      getDomains: createAuthEndpoint(
+        "/organization/domains",
         {
           method: "GET",
           requiresAuth: true,
@@ -612,49 +1555,168 @@ export const organizationPlugin = (): BetterAuthPlugin => {
           const userId = ctx.context.session?.user?.id;
 
           if (!userId) {
-            return ctx.json({ error: "Unauthorized" }, { status: 401 });
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
           }
 
-          const user = await prisma.user.findUnique({
-            where: { id: userId },
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          if (membership.role !== OrganizationRole.OWNER) {
+            throw new APIError("FORBIDDEN", {
+              error: "Only organization owner can manage domains",
+            });
+          }
+
+          const domains = await prisma.organizationDomain.findMany({
+            where: { organizationId: membership.organizationId },
+            orderBy: { domain: "asc" },
           });
 
-          if (!user?.organizationId) {
-            return ctx.json(
-              { error: "User is not part of an organization" },
-              { status: 400 }
-            );
+          return ctx.json({
+            domains: domains.map((domain) => ({
+              domain: domain.domain,
+              verifiedAt: domain.verifiedAt,
+              record: getVerificationRecord(domain),
+            })),
+          });
+        }
+      ),
+
+      verifyDomain: createAuthEndpoint(
+        "/organization/domain/verify",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            domain: z.string().min(1),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
           }
 
-          const invitations = await prisma.organizationInvitation.findMany({
-            where: {
-              organizationId: user.organizationId,
-              status: InvitationStatus.PENDING,
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          if (membership.role !== OrganizationRole.OWNER) {
+            throw new APIError("FORBIDDEN", {
+              error: "Only organization owner can manage domains",
+            });
+          }
+
+          const result = await verifyOrganizationDomain(
+            membership.organizationId,
+            body.domain
+          );
+
+          if (!result.verified) {
+            throw new APIError("BAD_REQUEST", { error: result.message });
+          }
+
+          await prisma.organizationActivity.create({
+            data: {
+              organizationId: membership.organizationId,
+              userId: userId,
+              action: "domain_verified",
+              entityType: "organization",
+              entityId: membership.organizationId,
+              metadata: { domain: normalizeDomain(body.domain) },
             },
+          });
+
+          return ctx.json({ success: true });
+        }
+      ),
+
+      getGroups: createAuthEndpoint(
+        "/organization/groups",
+        {
+          method: "GET",
+          requiresAuth: true,
+        },
+        async (ctx) => {
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          if (
+            membership.role !== OrganizationRole.OWNER &&
+            membership.role !== OrganizationRole.ADMIN
+          ) {
+            throw new APIError("FORBIDDEN", {
+              error: "Insufficient permissions",
+            });
+          }
+
+          const groups = await prisma.organizationGroup.findMany({
+            where: { organizationId: membership.organizationId },
             include: {
-              sender: {
+              members: {
                 select: {
-                  name: true,
-                  email: true,
+                  membership: {
+                    select: {
+                      user: {
+                        select: { id: true, name: true, email: true },
+                      },
+                    },
+                  },
                 },
               },
             },
-            orderBy: {
-              createdAt: "desc",
-            },
+            orderBy: { name: "asc" },
           });
 
-          return ctx.json({ invitations });
+          return ctx.json({
+            groups: groups.map(({ members, ...group }) => ({
+              ...group,
+              members: members.map(({ membership }) => membership.user),
+            })),
+          });
         }
       ),
 
-      cancelInvitation: createAuthEndpoint(
-        "/organization/invitation/cancel",
+      createGroup: createAuthEndpoint(
+        "/organization/group/create",
         {
           method: "POST",
           requiresAuth: true,
           body: z.object({
-            invitationId: z.string(),
+            name: z.string().trim().min(1).max(100),
+            description: z.string().max(500).optional(),
+            memberIds: z.array(z.string()).optional(),
           }),
         },
         async (ctx) => {
@@ -662,96 +1724,1168 @@ export const organizationPlugin = (): BetterAuthPlugin => {
           const userId = ctx.context.session?.user?.id;
 
           if (!userId) {
-            return ctx.json({ error: "Unauthorized" }, { status: 401 });
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
           }
 
-          const user = await prisma.user.findUnique({
-            where: { id: userId },
-          });
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
 
-          if (!user?.organizationId) {
-            return ctx.json(
-              { error: "User is not part of an organization" },
-              { status: 400 }
-            );
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
           }
 
-          // Check permissions
           if (
-            user.organizationRole !== OrganizationRole.OWNER &&
-            user.organizationRole !== OrganizationRole.ADMIN
+            membership.role !== OrganizationRole.OWNER &&
+            membership.role !== OrganizationRole.ADMIN
           ) {
-            return ctx.json(
-              { error: "Insufficient permissions" },
-              { status: 403 }
-            );
+            throw new APIError("FORBIDDEN", {
+              error: "Insufficient permissions",
+            });
           }
 
-          const invitation = await prisma.organizationInvitation.findUnique({
-            where: { id: body.invitationId },
+          const existingGroup = await prisma.organizationGroup.findUnique({
+            where: {
+              organizationId_name: {
+                organizationId: membership.organizationId,
+                name: body.name,
+              },
+            },
           });
 
-          if (
-            !invitation ||
-            invitation.organizationId !== user.organizationId
-          ) {
-            return ctx.json({ error: "Invitation not found" }, { status: 404 });
+          if (existingGroup) {
+            throw new APIError("BAD_REQUEST", {
+              error: "A group with this name already exists",
+            });
           }
 
-          if (invitation.status !== InvitationStatus.PENDING) {
-            return ctx.json(
-              { error: "Invitation is no longer pending" },
-              { status: 400 }
-            );
+          const memberships = await findGroupMemberships(
+            membership.organizationId,
+            body.memberIds ?? []
+          );
+
+          if (!memberships) {
+            throw new APIError("BAD_REQUEST", {
+              error: "Only members of the organization can join a group",
+            });
           }
 
-          await prisma.organizationInvitation.update({
-            where: { id: body.invitationId },
+          const group = await prisma.organizationGroup.create({
             data: {
-              status: InvitationStatus.REJECTED,
-              rejectedAt: new Date(),
+              organizationId: membership.organizationId,
+              name: body.name,
+              description: body.description || null,
+              members: {
+                create: memberships.map((member) => ({
+                  membershipId: member.id,
+                })),
+              },
             },
           });
 
-          return ctx.json({ success: true });
+          // Log activity
+          await prisma.organizationActivity.create({
+            data: {
+              organizationId: membership.organizationId,
+              userId: userId,
+              action: "group_created",
+              entityType: "group",
+              entityId: group.id,
+              metadata: { name: group.name, members: memberships.length },
+            },
+          });
+
+          return ctx.json({ group });
+        }
+      ),
+
+      updateGroup: createAuthEndpoint(
+        "/organization/group/update",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            groupId: z.string(),
+            name: z.string().trim().min(1).max(100),
+            description: z.string().max(500).optional(),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          if (
+            membership.role !== OrganizationRole.OWNER &&
+            membership.role !== OrganizationRole.ADMIN
+          ) {
+            throw new APIError("FORBIDDEN", {
+              error: "Insufficient permissions",
+            });
+          }
+
+          const group = await prisma.organizationGroup.findUnique({
+            where: {
+              id: body.groupId,
+              organizationId: membership.organizationId,
+            },
+          });
+
+          if (!group) {
+            throw new APIError("NOT_FOUND", { error: "Group not found" });
+          }
+
+          const nameTaken = await prisma.organizationGroup.findFirst({
+            where: {
+              organizationId: membership.organizationId,
+              name: body.name,
+              id: { not: group.id },
+            },
+          });
+
+          if (nameTaken) {
+            throw new APIError("BAD_REQUEST", {
+              error: "A group with this name already exists",
+            });
+          }
+
+          const updatedGroup = await prisma.organizationGroup.update({
+            where: { id: group.id },
+            data: {
+              name: body.name,
+              description: body.description || null,
+            },
+          });
+
+          // Log activity
+          await prisma.organizationActivity.create({
+            data: {
+              organizationId: membership.organizationId,
+              userId: userId,
+              action: "group_updated",
+              entityType: "group",
+              entityId: group.id,
+              metadata: {
+                name: group.name,
+                changes: {
+                  name: updatedGroup.name,
+                  description: updatedGroup.description,
+                },
+              },
+            },
+          });
+
+          return ctx.json({ group: updatedGroup });
+        }
+      ),
+
+      deleteGroup: createAuthEndpoint(
+        "/organization/group/delete",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            groupId: z.string(),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          if (
+            membership.role !== OrganizationRole.OWNER &&
+            membership.role !== OrganizationRole.ADMIN
+          ) {
+            throw new APIError("FORBIDDEN", {
+              error: "Insufficient permissions",
+            });
+          }
+
+          const group = await prisma.organizationGroup.findUnique({
+            where: {
+              id: body.groupId,
+              organizationId: membership.organizationId,
+            },
+          });
+
+          if (!group) {
+            throw new APIError("NOT_FOUND", { error: "Group not found" });
+          }
+
+          // Assignments would lose their learners along with the group
+          const assignments = await prisma.courseAssignment.count({
+            where: { targetGroupId: group.id },
+          });
+
+          if (assignments > 0) {
+            throw new APIError("BAD_REQUEST", {
+              error:
+                "This group is targeted by course assignments. Delete them first.",
+            });
+          }
+
+          // Members keep their enrollments
+          await prisma.organizationGroup.delete({
+            where: { id: group.id },
+          });
+
+          // Log activity
+          await prisma.organizationActivity.create({
+            data: {
+              organizationId: membership.organizationId,
+              userId: userId,
+              action: "group_deleted",
+              entityType: "group",
+              entityId: group.id,
+              metadata: { name: group.name },
+            },
+          });
+
+          return ctx.json({ success: true });
+        }
+      ),
+
+      setGroupMembers: createAuthEndpoint(
+        "/organization/group/members",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            groupId: z.string(),
+            memberIds: z.array(z.string()),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          if (
+            membership.role !== OrganizationRole.OWNER &&
+            membership.role !== OrganizationRole.ADMIN
+          ) {
+            throw new APIError("FORBIDDEN", {
+              error: "Insufficient permissions",
+            });
+          }
+
+          const group = await prisma.organizationGroup.findUnique({
+            where: {
+              id: body.groupId,
+              organizationId: membership.organizationId,
+            },
+            include: {
+              members: {
+                select: { membershipId: true },
+              },
+            },
+          });
+
+          if (!group) {
+            throw new APIError("NOT_FOUND", { error: "Group not found" });
+          }
+
+          const memberships = await findGroupMemberships(
+            membership.organizationId,
+            body.memberIds
+          );
+
+          if (!memberships) {
+            throw new APIError("BAD_REQUEST", {
+              error: "Only members of the organization can join a group",
+            });
+          }
+
+          const currentIds = new Set(
+            group.members.map((member) => member.membershipId)
+          );
+          const nextIds = new Set(memberships.map((member) => member.id));
+          const added = [...nextIds].filter((id) => !currentIds.has(id));
+          const removed = [...currentIds].filter((id) => !nextIds.has(id));
+
+          await prisma.$transaction([
+            prisma.organizationGroupMember.deleteMany({
+              where: { groupId: group.id, membershipId: { in: removed } },
+            }),
+            prisma.organizationGroupMember.createMany({
+              data: added.map((membershipId) => ({
+                groupId: group.id,
+                membershipId,
+              })),
+            }),
+          ]);
+
+          // Log activity
+          if (added.length > 0 || removed.length > 0) {
+            await prisma.organizationActivity.create({
+              data: {
+                organizationId: membership.organizationId,
+                userId: userId,
+                action: "group_members_updated",
+                entityType: "group",
+                entityId: group.id,
+                metadata: {
+                  name: group.name,
+                  added: added.length,
+                  removed: removed.length,
+                },
+              },
+            });
+          }
+
+          return ctx.json({ success: true });
+        }
+      ),
+
+      getPendingInvitations: createAuthEndpoint(
+        "/organization/invitations",
+        {
+          method: "GET",
+          requiresAuth: true,
+        },
+        async (ctx) => {
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            return ctx.json({ error: "Unauthorized" }, { status: 401 });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            return ctx.json(
+              { error: "User is not part of an organization" },
+              { status: 400 }
+            );
+          }
+
+          const invitations = await prisma.organizationInvitation.findMany({
+            where: {
+              organizationId: membership.organizationId,
+              status: InvitationStatus.PENDING,
+            },
+            include: {
+              sender: {
+                select: {
+                  name: true,
+                  email: true,
+                },
+              },
+            },
+            orderBy: {
+              createdAt: "desc",
+            },
+          });
+
+          return ctx.json({ invitations });
+        }
+      ),
+
+      cancelInvitation: createAuthEndpoint(
+        "/organization/invitation/cancel",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            invitationId: z.string(),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            return ctx.json({ error: "Unauthorized" }, { status: 401 });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            return ctx.json(
+              { error: "User is not part of an organization" },
+              { status: 400 }
+            );
+          }
+
+          // Check permissions
+          if (
+            membership.role !== OrganizationRole.OWNER &&
+            membership.role !== OrganizationRole.ADMIN
+          ) {
+            return ctx.json(
+              { error: "Insufficient permissions" },
+              { status: 403 }
+            );
+          }
+
+          const invitation = await prisma.organizationInvitation.findUnique({
+            where: { id: body.invitationId },
+          });
+
+          if (
+            !invitation ||
+            invitation.organizationId !== membership.organizationId
+          ) {
+            return ctx.json({ error: "Invitation not found" }, { status: 404 });
+          }
+
+          if (invitation.status !== InvitationStatus.PENDING) {
+            return ctx.json(
+              { error: "Invitation is no longer pending" },
+              { status: 400 }
+            );
+          }
+
+          await prisma.organizationInvitation.update({
+            where: { id: body.invitationId },
+            data: {
+              status: InvitationStatus.REJECTED,
+              rejectedAt: new Date(),
+            },
+          });
+
+          return ctx.json({ success: true });
+        }
+      ),
+
+      resendInvitation: createAuthEndpoint(
+        "/organization/invitation/resend",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            invitationId: z.string(),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            return ctx.json({ error: "Unauthorized" }, { status: 401 });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            return ctx.json(
+              { error: "User is not part of an organization" },
+              { status: 400 }
+            );
+          }
+
+          // Check permissions
+          if (
+            membership.role !== OrganizationRole.OWNER &&
+            membership.role !== OrganizationRole.ADMIN
+          ) {
+            return ctx.json(
+              { error: "Insufficient permissions" },
+              { status: 403 }
+            );
+          }
+
+          const invitation = await prisma.organizationInvitation.findUnique({
+            where: { id: body.invitationId },
+          });
+
+          if (
+            !invitation ||
+            invitation.organizationId !== membership.organizationId
+          ) {
+            return ctx.json({ error: "Invitation not found" }, { status: 404 });
+          }
+
+          if (invitation.status !== InvitationStatus.PENDING) {
+            return ctx.json(
+              { error: "Invitation is no longer pending" },
+              { status: 400 }
+            );
+          }
+
+          if (!isOrganizationActive(membership.organization)) {
+            return ctx.json(
+              { error: "Organization is not active" },
+              { status: 403 }
+            );
+          }
+
+          // Resending restarts the 7 day validity, the link stays the same
+          const updatedInvitation = await prisma.organizationInvitation.update({
+            where: { id: invitation.id },
+            data: {
+              expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+            },
+          });
+
+          try {
+            await sendInvitationEmail({
+              ...updatedInvitation,
+              organization: membership.organization,
+              sender: membership.user,
+            });
+          } catch (error) {
+            console.error("Failed to resend invitation email:", error);
+            return ctx.json(
+              { error: "Failed to send invitation email" },
+              { status: 500 }
+            );
+          }
+
+          // Log activity
+          await prisma.organizationActivity.create({
+            data: {
+              organizationId: membership.organizationId,
+              userId: userId,
+              action: "invitation_resent",
+              entityType: "invitation",
+              entityId: invitation.id,
+              metadata: { email: invitation.email },
+            },
+          });
+
+          return ctx.json({ success: true });
+        }
+      ),
+
+      getActivities: createAuthEndpoint(
+        "/organization/activities",
+        {
+          method: "GET",
+          requiresAuth: true,
+          query: z
+            .object({
+              action: z.string().optional(),
+              actorId: z.string().optional(),
+              from: z.coerce.date().optional(),
+              to: z.coerce.date().optional(),
+              page: z.coerce.number().int().min(1).default(1),
+              pageSize: z.coerce.number().int().min(1).max(100).default(25),
+            })
+            .optional(),
+        },
+        async (ctx) => {
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            return ctx.json({ error: "Unauthorized" }, { status: 401 });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            return ctx.json(
+              { error: "User is not part of an organization" },
+              { status: 400 }
+            );
+          }
+
+          // Check permissions (only OWNER and ADMIN can read the activity log)
+          if (
+            membership.role !== OrganizationRole.OWNER &&
+            membership.role !== OrganizationRole.ADMIN
+          ) {
+            return ctx.json(
+              { error: "Insufficient permissions" },
+              { status: 403 }
+            );
+          }
+
+          const page = ctx.query?.page ?? 1;
+          const pageSize = ctx.query?.pageSize ?? 25;
+
+          const where = {
+            organizationId: membership.organizationId,
+            action: ctx.query?.action || undefined,
+            userId: ctx.query?.actorId || undefined,
+            createdAt: {
+              gte: ctx.query?.from,
+              lte: ctx.query?.to,
+            },
+          };
+
+          const [activities, total] = await Promise.all([
+            prisma.organizationActivity.findMany({
+              where,
+              include: {
+                user: {
+                  select: { id: true, name: true, email: true },
+                },
+              },
+              orderBy: { createdAt: "desc" },
+              skip: (page - 1) * pageSize,
+              take: pageSize,
+            }),
+            prisma.organizationActivity.count({ where }),
+          ]);
+
+          return ctx.json({ activities, total, page, pageSize });
+        }
+      ),
+
+      requestToJoin: createAuthEndpoint(
+        "/organization/join-request",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            slug: z.string().min(2).max(50),
+            message: z.string().max(500).optional(),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const organization = await prisma.organization.findUnique({
+            where: { slug: body.slug },
+          });
+
+          if (!organization || !isOrganizationActive(organization)) {
+            throw new APIError("NOT_FOUND", {
+              error: "Organization not found",
+            });
+          }
+
+          if (await isOrganizationMember(organization.id, userId)) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is already a member of this organization",
+            });
+          }
+
+          const existingRequest =
+            await prisma.organizationJoinRequest.findUnique({
+              where: {
+                organizationId_userId: {
+                  organizationId: organization.id,
+                  userId: userId,
+                },
+              },
+            });
+
+          if (existingRequest?.status === JoinRequestStatus.PENDING) {
+            throw new APIError("BAD_REQUEST", {
+              error: "Join request already pending",
+            });
+          }
+
+          // Re-open a previous request instead of creating a second row
+          const requestData = {
+            source: "slug",
+            message: body.message,
+            status: JoinRequestStatus.PENDING,
+            reviewedById: null,
+            reviewedAt: null,
+            reason: null,
+          };
+
+          const joinRequest = existingRequest
+            ? await prisma.organizationJoinRequest.update({
+                where: { id: existingRequest.id },
+                data: requestData,
+              })
+            : await prisma.organizationJoinRequest.create({
+                data: {
+                  ...requestData,
+                  organizationId: organization.id,
+                  userId: userId,
+                },
+              });
+
+          // Log activity
+          await prisma.organizationActivity.create({
+            data: {
+              organizationId: organization.id,
+              userId: userId,
+              action: "join_requested",
+              entityType: "join_request",
+              entityId: joinRequest.id,
+              metadata: { source: "slug" },
+            },
+          });
+
+          return ctx.json({ joinRequest });
+        }
+      ),
+
+      getMyJoinRequests: createAuthEndpoint(
+        "/organization/join-request/mine",
+        {
+          method: "GET",
+          requiresAuth: true,
+        },
+        async (ctx) => {
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const joinRequests = await prisma.organizationJoinRequest.findMany({
+            where: { userId },
+            include: {
+              organization: {
+                select: { name: true, slug: true },
+              },
+            },
+            orderBy: { createdAt: "desc" },
+          });
+
+          return ctx.json({ joinRequests });
+        }
+      ),
+
+      cancelJoinRequest: createAuthEndpoint(
+        "/organization/join-request/cancel",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            requestId: z.string(),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const joinRequest = await prisma.organizationJoinRequest.findUnique({
+            where: { id: body.requestId },
+          });
+
+          if (!joinRequest || joinRequest.userId !== userId) {
+            throw new APIError("NOT_FOUND", {
+              error: "Join request not found",
+            });
+          }
+
+          if (joinRequest.status !== JoinRequestStatus.PENDING) {
+            throw new APIError("BAD_REQUEST", {
+              error: "Join request is no longer pending",
+            });
+          }
+
+          await prisma.organizationJoinRequest.update({
+            where: { id: joinRequest.id },
+            data: { status: JoinRequestStatus.CANCELLED },
+          });
+
+          return ctx.json({ success: true });
+        }
+      ),
+
+      getJoinRequests: createAuthEndpoint(
+        "/organization/join-requests",
+        {
+          method: "GET",
+          requiresAuth: true,
+          query: z
+            .object({
+              status: z
+                .enum(["PENDING", "APPROVED", "REJECTED", "CANCELLED"])
+                .optional(),
+            })
+            .optional(),
+        },
+        async (ctx) => {
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          // Check permissions (only OWNER and ADMIN can review requests)
+          if (
+            membership.role !== OrganizationRole.OWNER &&
+            membership.role !== OrganizationRole.ADMIN
+          ) {
+            throw new APIError("FORBIDDEN", {
+              error: "Insufficient permissions",
+            });
+          }
+
+          const joinRequests = await prisma.organizationJoinRequest.findMany({
+            where: {
+              organizationId: membership.organizationId,
+              status:
+                (ctx.query?.status as JoinRequestStatus) ??
+                JoinRequestStatus.PENDING,
+            },
+            include: {
+              user: {
+                select: { id: true, name: true, email: true, image: true },
+              },
+              reviewedBy: {
+                select: { name: true, email: true },
+              },
+            },
+            orderBy: { createdAt: "desc" },
+          });
+
+          return ctx.json({ joinRequests });
+        }
+      ),
+
+      approveJoinRequest: createAuthEndpoint(
+        "/organization/join-request/approve",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            requestId: z.string(),
+            reason: z.string().max(500).optional(),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          // Check permissions (only OWNER and ADMIN can review requests)
+          if (
+            membership.role !== OrganizationRole.OWNER &&
+            membership.role !== OrganizationRole.ADMIN
+          ) {
+            throw new APIError("FORBIDDEN", {
+              error: "Insufficient permissions",
+            });
+          }
+
+          const joinRequest = await prisma.organizationJoinRequest.findUnique({
+            where: { id: body.requestId },
+            include: { user: true },
+          });
+
+          if (
+            !joinRequest ||
+            joinRequest.organizationId !== membership.organizationId
+          ) {
+            throw new APIError("NOT_FOUND", {
+              error: "Join request not found",
+            });
+          }
+
+          if (joinRequest.status !== JoinRequestStatus.PENDING) {
+            throw new APIError("BAD_REQUEST", {
+              error: "Join request is no longer pending",
+            });
+          }
+
+          if (
+            await isOrganizationMember(
+              membership.organizationId,
+              joinRequest.userId
+            )
+          ) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is already a member of this organization",
+            });
+          }
+
+          if (!isOrganizationActive(membership.organization)) {
+            throw new APIError("FORBIDDEN", {
+              error: "Organization is not active",
+            });
+          }
+
+          // Check seat availability
+          const memberCount = await prisma.organizationMembership.count({
+            where: { organizationId: membership.organizationId },
+          });
+
+          if (memberCount >= membership.organization.maxSeats) {
+            throw new APIError("BAD_REQUEST", {
+              error: "Organization has reached maximum seat limit",
+            });
+          }
+
+          await prisma.$transaction([
+            prisma.organizationMembership.create({
+              data: {
+                organizationId: membership.organizationId,
+                userId: joinRequest.userId,
+                role: OrganizationRole.MEMBER,
+              },
+            }),
+            prisma.organizationJoinRequest.update({
+              where: { id: joinRequest.id },
+              data: {
+                status: JoinRequestStatus.APPROVED,
+                reviewedById: userId,
+                reviewedAt: new Date(),
+                reason: body.reason,
+              },
+            }),
+            prisma.organizationActivity.create({
+              data: {
+                organizationId: membership.organizationId,
+                userId: userId,
+                action: "member_joined",
+                entityType: "user",
+                entityId: joinRequest.userId,
+                metadata: {
+                  source: "join_request",
+                  joinRequestId: joinRequest.id,
+                  approvedBy: userId,
+                },
+              },
+            }),
+          ]);
+
+          try {
+            await sendJoinRequestDecisionEmail({
+              email: joinRequest.user.email,
+              name: joinRequest.user.name,
+              organization: membership.organization,
+              approved: true,
+              reason: body.reason,
+            });
+          } catch (error) {
+            console.error("Failed to send join request decision:", error);
+          }
+
+          return ctx.json({ success: true });
+        }
+      ),
+
+      rejectJoinRequest: createAuthEndpoint(
+        "/organization/join-request/reject",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            requestId: z.string(),
+            reason: z.string().max(500).optional(),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          // Check permissions (only OWNER and ADMIN can review requests)
+          if (
+            membership.role !== OrganizationRole.OWNER &&
+            membership.role !== OrganizationRole.ADMIN
+          ) {
+            throw new APIError("FORBIDDEN", {
+              error: "Insufficient permissions",
+            });
+          }
+
+          const joinRequest = await prisma.organizationJoinRequest.findUnique({
+            where: { id: body.requestId },
+            include: { user: true },
+          });
+
+          if (
+            !joinRequest ||
+            joinRequest.organizationId !== membership.organizationId
+          ) {
+            throw new APIError("NOT_FOUND", {
+              error: "Join request not found",
+            });
+          }
+
+          if (joinRequest.status !== JoinRequestStatus.PENDING) {
+            throw new APIError("BAD_REQUEST", {
+              error: "Join request is no longer pending",
+            });
+          }
+
+          await prisma.organizationJoinRequest.update({
+            where: { id: joinRequest.id },
+            data: {
+              status: JoinRequestStatus.REJECTED,
+              reviewedById: userId,
+              reviewedAt: new Date(),
+              reason: body.reason,
+            },
+          });
+
+          // Log activity
+          await prisma.organizationActivity.create({
+            data: {
+              organizationId: membership.organizationId,
+              userId: userId,
+              action: "join_request_rejected",
+              entityType: "join_request",
+              entityId: joinRequest.id,
+              metadata: {
+                requesterId: joinRequest.userId,
+                reason: body.reason ?? null,
+              },
+            },
+          });
+
+          try {
+            await sendJoinRequestDecisionEmail({
+              email: joinRequest.user.email,
+              name: joinRequest.user.name,
+              organization: membership.organization,
+              approved: false,
+              reason: body.reason,
+            });
+          } catch (error) {
+            console.error("Failed to send join request decision:", error);
+          }
+
+          return ctx.json({ success: true });
         }
       ),
     },
 
     hooks: {
       after: [
+        {
+          // Email-domain auto-join for users signing in (or up) with an OTP
+          matcher: (context) => context.path === "/sign-in/email-otp",
+          handler: createAuthMiddleware(async (ctx) => {
+            const newSession = ctx.context.newSession;
+
+            if (!newSession) return;
+
+            try {
+              await handleDomainAutoJoin(newSession.user);
+            } catch (error) {
+              console.error("Domain auto-join failed:", error);
+            }
+          }),
+        },
         {
           matcher: (context: any) => true,
           handler: async (context: any) => {
-            // Add organization context to session after any auth operation
+            // Add the active organization to the session after any auth operation
             if (context.session?.user?.id) {
-              const user = await prisma.user.findUnique({
-                where: { id: context.session.user.id },
-                include: {
-                  organization: true,
-                },
-              });
+              const membership = await getActiveMembership(
+                context.session.user.id,
+                context.session.session?.activeOrganizationId
+              );
 
-              if (user?.organization) {
+              if (membership) {
                 const organizationContext: OrganizationContext = {
-                  id: user.organization.id,
-                  name: user.organization.name,
-                  slug: user.organization.slug,
-                  role: user.organizationRole as OrganizationRole,
-                  maxSeats: user.organization.maxSeats,
-                  usedSeats: await prisma.user.count({
-                    where: { organizationId: user.organization.id },
+                  id: membership.organization.id,
+                  name: membership.organization.name,
+                  slug: membership.organization.slug,
+                  role: membership.role,
+                  maxSeats: membership.organization.maxSeats,
+                  usedSeats: await prisma.organizationMembership.count({
+                    where: { organizationId: membership.organizationId },
                   }),
-                  status: user.organization.status as any,
-                  trialEndsAt: user.organization.trialEndsAt,
+                  status: membership.organization.status as any,
+                  trialEndsAt: membership.organization.trialEndsAt,
                 };
 
                 // Determine combined role
                 let combinedRole: CombinedRole = "individual";
-                if (user.role === "admin") {
+                if (membership.user.role === "admin") {
                   combinedRole = "admin";
-                } else if (user.organizationRole) {
-                  switch (user.organizationRole) {
+                } else {
+                  switch (membership.role) {
                     case OrganizationRole.OWNER:
                       combinedRole = "org_owner";
                       break;
@@ -766,13 +2900,15 @@ export const organizationPlugin = (): BetterAuthPlugin => {
 
                 context.session.user = {
                   ...context.session.user,
-                  organizationId: user.organizationId,
+                  organizationId: membership.organizationId,
                   organization: organizationContext,
                   combinedRole,
                 };
               } else {
                 const combinedRole =
-                  user?.role === "admin" ? "admin" : "individual";
+                  context.session.user.role === "admin"
+                    ? "admin"
+                    : "individual";
                 context.session.user = {
                   ...context.session.user,
                   organizationId: null,
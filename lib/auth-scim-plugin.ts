@@ -0,0 +1,185 @@
+import { APIError, createAuthEndpoint } from "better-auth/api";
+import type { BetterAuthPlugin } from "better-auth";
+import { z } from "zod";
+import { prisma } from "./db";
+import { OrganizationRole } from "./generated/prisma";
+import { getActiveMembership } from "./organization-membership";
+import { generateScimToken, hashScimToken } from "./organization-scim";
+import { scimBaseUrl } from "./scim";
+
+// Management of the bearer tokens identity providers use to call the SCIM API
+// (see app/api/scim/v2)
+export const organizationScimPlugin = (): BetterAuthPlugin => {
+  return {
+    id: "organization-scim",
+
+    endpoints: {
+      getScimTokens: createAuthEndpoint(
+        "/organization/scim/tokens",
+        {
+          method: "GET",
+          requiresAuth: true,
+        },
+        async (ctx) => {
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          if (membership.role !== OrganizationRole.OWNER) {
+            throw new APIError("FORBIDDEN", {
+              error: "Only the organization owner can manage SCIM tokens",
+            });
+          }
+
+          const tokens = await prisma.organizationScimToken.findMany({
+            where: { organizationId: membership.organizationId },
+            omit: { tokenHash: true },
+            orderBy: { createdAt: "desc" },
+          });
+
+          return ctx.json({ tokens, baseUrl: scimBaseUrl });
+        }
+      ),
+
+      createScimToken: createAuthEndpoint(
+        "/organization/scim/tokens/create",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            name: z.string().trim().min(1).max(100),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          if (membership.role !== OrganizationRole.OWNER) {
+            throw new APIError("FORBIDDEN", {
+              error: "Only the organization owner can manage SCIM tokens",
+            });
+          }
+
+          const token = generateScimToken();
+
+          const scimToken = await prisma.organizationScimToken.create({
+            data: {
+              organizationId: membership.organizationId,
+              name: body.name,
+              tokenHash: hashScimToken(token),
+              createdById: userId,
+            },
+            omit: { tokenHash: true },
+          });
+
+          await prisma.organizationActivity.create({
+            data: {
+              organizationId: membership.organizationId,
+              userId: userId,
+              action: "scim_token_created",
+              entityType: "scim_token",
+              entityId: scimToken.id,
+              metadata: { name: body.name },
+            },
+          });
+
+          // The plain token is only shown once
+          return ctx.json({ token: scimToken, secret: token });
+        }
+      ),
+
+      revokeScimToken: createAuthEndpoint(
+        "/organization/scim/tokens/revoke",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            tokenId: z.string(),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          if (membership.role !== OrganizationRole.OWNER) {
+            throw new APIError("FORBIDDEN", {
+              error: "Only the organization owner can manage SCIM tokens",
+            });
+          }
+
+          const scimToken = await prisma.organizationScimToken.findFirst({
+            where: {
+              id: body.tokenId,
+              organizationId: membership.organizationId,
+            },
+          });
+
+          if (!scimToken) {
+            throw new APIError("NOT_FOUND", { error: "Token not found" });
+          }
+
+          await prisma.$transaction([
+            prisma.organizationScimToken.delete({
+              where: { id: scimToken.id },
+            }),
+            prisma.organizationActivity.create({
+              data: {
+                organizationId: membership.organizationId,
+                userId: userId,
+                action: "scim_token_revoked",
+                entityType: "scim_token",
+                entityId: scimToken.id,
+                metadata: { name: scimToken.name },
+              },
+            }),
+          ]);
+
+          return ctx.json({ success: true });
+        }
+      ),
+    },
+  };
+};
@@ -0,0 +1,363 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { betterAuth } from "better-auth";
+import { memoryAdapter } from "better-auth/adapters/memory";
+import { exportJWK, generateKeyPair, SignJWT, type KeyLike } from "jose";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    organizationSsoConnection: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    organizationDomain: {
+      count: vi.fn(),
+    },
+    organizationMembership: {
+      findUnique: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+    },
+    organizationActivity: {
+      create: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("./db", () => ({ prisma }));
+
+import { organizationSsoPlugin } from "./auth-sso-plugin";
+import { encryptClientSecret } from "./organization-sso";
+
+const CLIENT_ID = "precuityai-client";
+const KEY_ID = "test-key";
+
+// Minimal OpenID Connect provider: discovery, JWKS and a token endpoint that
+// hands out whatever ID token the test prepared
+let server: Server;
+let issuer: string;
+let privateKey: KeyLike;
+let publicJwk: Record<string, unknown>;
+let nextIdToken: string;
+
+async function signIdToken(
+  claims: Record<string, unknown>,
+  {
+    iss = issuer,
+    aud = CLIENT_ID,
+  }: {
+    iss?: string;
+    aud?: string;
+  } = {}
+) {
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg: "RS256", kid: KEY_ID })
+    .setIssuer(iss)
+    .setAudience(aud)
+    .setSubject(String(claims.sub ?? "idp-user-1"))
+    .setIssuedAt()
+    .setExpirationTime("5m")
+    .sign(privateKey);
+}
+
+const memory: Record<string, Record<string, unknown>[]> = {
+  user: [],
+  session: [],
+  account: [],
+  verification: [],
+};
+
+const auth = betterAuth({
+  baseURL: "http://localhost:3000",
+  secret: "test-secret-test-secret-test-secret",
+  database: memoryAdapter(memory),
+  plugins: [organizationSsoPlugin()],
+});
+
+const organization = {
+  id: "org-1",
+  name: "Acme",
+  maxSeats: 10,
+  status: "ACTIVE",
+  trialEndsAt: null,
+};
+
+async function connection() {
+  return {
+    id: "conn-1",
+    organizationId: organization.id,
+    organization,
+    issuer,
+    clientId: CLIENT_ID,
+    clientSecret: await encryptClientSecret("client-secret"),
+    allowedDomains: ["acme.com"],
+    enabled: true,
+  };
+}
+
+// Starts the sign-in, then returns from the IdP with the prepared ID token.
+// Resolves to the location the callback redirects to.
+async function signInThroughIdp(email = "jane@acme.com") {
+  const signIn = await auth.handler(
+    new Request("http://localhost:3000/api/auth/sign-in/organization-sso", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        email,
+        callbackURL: "/dashboard",
+        errorCallbackURL: "/login",
+      }),
+    })
+  );
+
+  expect(signIn.status).toBe(200);
+
+  const { url } = (await signIn.json()) as { url: string };
+  const state = new URL(url).searchParams.get("state");
+
+  const callback = await auth.handler(
+    new Request(
+      `http://localhost:3000/api/auth/sso/oidc/callback/conn-1?code=test-code&state=${state}`
+    )
+  );
+
+  expect(callback.status).toBe(302);
+
+  return {
+    location: callback.headers.get("location"),
+    cookie: callback.headers.get("set-cookie"),
+  };
+}
+
+beforeAll(async () => {
+  const keys = await generateKeyPair("RS256");
+  privateKey = keys.privateKey;
+  publicJwk = {
+    ...(await exportJWK(keys.publicKey)),
+    kid: KEY_ID,
+    alg: "RS256",
+  };
+
+  server = createServer((req, res) => {
+    res.setHeader("Content-Type", "application/json");
+
+    if (req.url === "/.well-known/openid-configuration") {
+      res.end(
+        JSON.stringify({
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`,
+        })
+      );
+    } else if (req.url === "/jwks") {
+      res.end(JSON.stringify({ keys: [publicJwk] }));
+    } else if (req.url === "/token" && req.method === "POST") {
+      res.end(
+        JSON.stringify({
+          access_token: "access-token",
+          token_type: "Bearer",
+          expires_in: 3600,
+          id_token: nextIdToken,
+        })
+      );
+    } else {
+      res.statusCode = 404;
+      res.end("{}");
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+
+  for (const table of Object.values(memory)) {
+    table.length = 0;
+  }
+
+  const ssoConnection = await connection();
+
+  prisma.organizationSsoConnection.findFirst.mockResolvedValue(ssoConnection);
+  prisma.organizationSsoConnection.findUnique.mockResolvedValue(ssoConnection);
+  prisma.organizationDomain.count.mockResolvedValue(1);
+  prisma.organizationMembership.findUnique.mockResolvedValue(null);
+  prisma.organizationMembership.count.mockResolvedValue(1);
+  prisma.$transaction.mockResolvedValue([]);
+});
+
+describe("organization SSO callback", () => {
+  it("signs in a new user with a valid ID token", async () => {
+    nextIdToken = await signIdToken({
+      sub: "idp-user-1",
+      email: "jane@acme.com",
+      name: "Jane",
+    });
+
+    const { location, cookie } = await signInThroughIdp();
+
+    expect(location).toBe("/dashboard");
+    expect(cookie).toContain("better-auth.session_token");
+    expect(memory.user).toHaveLength(1);
+    expect(memory.account[0]).toMatchObject({
+      providerId: "sso:conn-1",
+      accountId: "idp-user-1",
+    });
+    expect(prisma.organizationMembership.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        organizationId: organization.id,
+        userId: memory.user[0].id,
+      }),
+    });
+  });
+
+  it("rejects an ID token from another issuer", async () => {
+    nextIdToken = await signIdToken(
+      { sub: "idp-user-1", email: "jane@acme.com" },
+      { iss: "https://evil.example.com" }
+    );
+
+    const { location } = await signInThroughIdp();
+
+    expect(location).toBe("/login?error=invalid_token");
+    expect(memory.user).toHaveLength(0);
+  });
+
+  it("rejects an ID token issued for another client", async () => {
+    nextIdToken = await signIdToken(
+      { sub: "idp-user-1", email: "jane@acme.com" },
+      { aud: "another-client" }
+    );
+
+    const { location } = await signInThroughIdp();
+
+    expect(location).toBe("/login?error=invalid_token");
+    expect(memory.user).toHaveLength(0);
+  });
+
+  it("rejects an ID token not signed by the provider", async () => {
+    const { privateKey: otherKey } = await generateKeyPair("RS256");
+
+    nextIdToken = await new SignJWT({ email: "jane@acme.com" })
+      .setProtectedHeader({ alg: "RS256", kid: KEY_ID })
+      .setIssuer(issuer)
+      .setAudience(CLIENT_ID)
+      .setSubject("idp-user-1")
+      .setExpirationTime("5m")
+      .sign(otherKey);
+
+    const { location } = await signInThroughIdp();
+
+    expect(location).toBe("/login?error=invalid_token");
+    expect(memory.user).toHaveLength(0);
+  });
+
+  it("rejects emails outside of the connection's domains", async () => {
+    nextIdToken = await signIdToken({
+      sub: "idp-user-1",
+      email: "jane@other.com",
+    });
+
+    const { location } = await signInThroughIdp();
+
+    expect(location).toBe("/login?error=email_domain_not_allowed");
+    expect(memory.user).toHaveLength(0);
+  });
+
+  it("rejects domains the organization has not verified", async () => {
+    prisma.organizationDomain.count.mockResolvedValue(0);
+    nextIdToken = await signIdToken({
+      sub: "idp-user-1",
+      email: "jane@acme.com",
+    });
+
+    const { location } = await signInThroughIdp();
+
+    expect(location).toBe("/login?error=email_domain_not_allowed");
+    expect(prisma.organizationDomain.count).toHaveBeenCalledWith({
+      where: expect.objectContaining({
+        organizationId: organization.id,
+        domain: "acme.com",
+      }),
+    });
+    expect(memory.user).toHaveLength(0);
+  });
+
+  it("does not link an existing account without confirmation", async () => {
+    memory.user.push({
+      id: "existing-user",
+      email: "jane@acme.com",
+      name: "Jane",
+      emailVerified: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    nextIdToken = await signIdToken({
+      sub: "idp-user-1",
+      email: "jane@acme.com",
+    });
+
+    const { location, cookie } = await signInThroughIdp();
+
+    expect(location).toBe(
+      "/login?error=account_link_required&email=jane%40acme.com"
+    );
+    expect(cookie).toBeNull();
+    expect(memory.account).toHaveLength(0);
+  });
+});
+
+describe("organization SSO sign-in", () => {
+  it("requires a session to link an account", async () => {
+    const response = await auth.handler(
+      new Request("http://localhost:3000/api/auth/sign-in/organization-sso", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          email: "jane@acme.com",
+          callbackURL: "/dashboard",
+          linkAccount: true,
+        }),
+      })
+    );
+
+    expect(response.status).toBe(401);
+    expect(memory.verification).toHaveLength(0);
+  });
+
+  it("responds with 404 for domains without single sign-on", async () => {
+    prisma.organizationSsoConnection.findFirst.mockResolvedValue(null);
+
+    const response = await auth.handler(
+      new Request("http://localhost:3000/api/auth/sign-in/organization-sso", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          email: "jane@gmail.com",
+          callbackURL: "/dashboard",
+        }),
+      })
+    );
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({
+      error: "Single sign-on is not configured for this domain",
+    });
+  });
+});
@@ -0,0 +1,614 @@
+import {
+  APIError,
+  createAuthEndpoint,
+  createAuthMiddleware,
+  getSessionFromCtx,
+} from "better-auth/api";
+import { setSessionCookie } from "better-auth/cookies";
+import {
+  createAuthorizationURL,
+  generateState,
+  parseState,
+  validateAuthorizationCode,
+  validateToken,
+} from "better-auth/oauth2";
+import type { BetterAuthPlugin } from "better-auth";
+import { z } from "zod";
+import { prisma } from "./db";
+import { OrganizationRole } from "./generated/prisma";
+import { getEmailDomain } from "./organization-domain-join";
+import {
+  getVerifiedDomains,
+  isDomainVerified,
+  isPublicEmailDomain,
+} from "./organization-domains";
+import { getActiveMembership } from "./organization-membership";
+import {
+  decryptClientSecret,
+  discoverOidcProvider,
+  encryptClientSecret,
+  findSsoConnectionForEmail,
+  getSsoProviderId,
+  provisionSsoMember,
+} from "./organization-sso";
+import { isOrganizationActive } from "./organization-status";
+
+const domainSchema = z
+  .string()
+  .transform((domain) => domain.trim().toLowerCase().replace(/^@/, ""))
+  .pipe(z.string().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/));
+
+// Single sign-on through the OpenID Connect provider of an organization. Users
+// with an email from one of the connection's verified domains are sent to
+// their IdP, created on their first sign-in and placed into the organization.
+// Accounts that existed before are only linked once their owner confirms it by
+// signing in to them first.
+export const organizationSsoPlugin = (): BetterAuthPlugin => {
+  return {
+    id: "organization-sso",
+
+    endpoints: {
+      signInOrganizationSso: createAuthEndpoint(
+        "/sign-in/organization-sso",
+        {
+          method: "POST",
+          body: z.object({
+            email: z.string().email(),
+            callbackURL: z.string().optional(),
+            errorCallbackURL: z.string().optional(),
+            // Set by a signed in user confirming that the IdP identity with
+            // their email belongs to them
+            linkAccount: z.boolean().optional(),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+
+          let link: { email: string; userId: string } | undefined;
+
+          if (body.linkAccount) {
+            const session = await getSessionFromCtx(ctx);
+
+            if (
+              !session ||
+              session.user.email.toLowerCase() !== body.email.toLowerCase()
+            ) {
+              throw new APIError("UNAUTHORIZED", {
+                error: "Sign in to the account you want to link first",
+              });
+            }
+
+            link = { email: session.user.email, userId: session.user.id };
+          }
+
+          const connection = await findSsoConnectionForEmail(body.email);
+
+          if (!connection) {
+            throw new APIError("NOT_FOUND", {
+              error: "Single sign-on is not configured for this domain",
+            });
+          }
+
+          if (!isOrganizationActive(connection.organization)) {
+            throw new APIError("FORBIDDEN", {
+              error: "Organization is not active",
+            });
+          }
+
+          let provider;
+          try {
+            provider = await discoverOidcProvider(connection.issuer);
+          } catch (error) {
+            console.error("OIDC discovery failed:", error);
+            throw new APIError("BAD_GATEWAY", {
+              error: "Identity provider is not reachable",
+            });
+          }
+
+          const { state, codeVerifier } = await generateState(ctx, link);
+
+          const url = await createAuthorizationURL({
+            id: getSsoProviderId(connection.id),
+            options: {
+              clientId: connection.clientId,
+              clientSecret: await decryptClientSecret(connection.clientSecret),
+            },
+            authorizationEndpoint: provider.authorization_endpoint,
+            redirectURI: `${ctx.context.baseURL}/sso/oidc/callback/${connection.id}`,
+            state,
+            codeVerifier,
+            scopes: ["openid", "email", "profile"],
+            loginHint: body.email,
+          });
+
+          return ctx.json({ url: url.toString(), redirect: true });
+        }
+      ),
+
+      callbackOrganizationSso: createAuthEndpoint(
+        "/sso/oidc/callback/:connectionId",
+        {
+          method: "GET",
+          query: z.object({
+            code: z.string().optional(),
+            state: z.string(),
+            error: z.string().optional(),
+            error_description: z.string().optional(),
+          }),
+          metadata: {
+            isAction: false,
+          },
+        },
+        async (ctx) => {
+          const { code, error } = ctx.query;
+          const stateData = await parseState(ctx);
+
+          const fail = (reason: string) =>
+            ctx.redirect(
+              `${stateData.errorURL}?error=${encodeURIComponent(reason)}`
+            );
+
+          if (!code || error) {
+            throw fail(error ?? "access_denied");
+          }
+
+          const connection = await prisma.organizationSsoConnection.findUnique({
+            where: { id: ctx.params.connectionId },
+            include: { organization: true },
+          });
+
+          if (!connection?.enabled) {
+            throw fail("sso_not_configured");
+          }
+
+          const provider = await discoverOidcProvider(connection.issuer).catch(
+            () => null
+          );
+
+          if (!provider) {
+            throw fail("idp_unreachable");
+          }
+
+          const tokens = await validateAuthorizationCode({
+            code,
+            codeVerifier: stateData.codeVerifier,
+            redirectURI: `${ctx.context.baseURL}/sso/oidc/callback/${connection.id}`,
+            options: {
+              clientId: connection.clientId,
+              clientSecret: await decryptClientSecret(connection.clientSecret),
+            },
+            tokenEndpoint: provider.token_endpoint,
+            authentication: "post",
+          }).catch((tokenError) => {
+            console.error("SSO token exchange failed:", tokenError);
+            return null;
+          });
+
+          if (!tokens?.idToken) {
+            throw fail("invalid_token");
+          }
+
+          // The ID token must be signed by the provider and issued for us
+          const verified = await validateToken(
+            tokens.idToken,
+            provider.jwks_uri
+          ).catch(() => null);
+
+          const audience = [verified?.payload.aud].flat();
+
+          if (
+            !verified ||
+            verified.payload.iss !== provider.issuer ||
+            !audience.includes(connection.clientId)
+          ) {
+            throw fail("invalid_token");
+          }
+
+          const claims = verified.payload as {
+            sub?: string;
+            email?: string;
+            name?: string;
+            picture?: string;
+          };
+          const email = claims.email?.toLowerCase();
+
+          if (!claims.sub || !email) {
+            throw fail("missing_user_info");
+          }
+
+          const domain = getEmailDomain(email);
+
+          if (
+            !connection.allowedDomains.includes(domain) ||
+            !(await isDomainVerified(connection.organizationId, domain))
+          ) {
+            throw fail("email_domain_not_allowed");
+          }
+
+          const providerId = getSsoProviderId(connection.id);
+          const account = {
+            providerId,
+            accountId: claims.sub,
+            idToken: tokens.idToken,
+            accessToken: tokens.accessToken,
+            refreshToken: tokens.refreshToken,
+            accessTokenExpiresAt: tokens.accessTokenExpiresAt,
+            scope: tokens.scopes?.join(","),
+          };
+
+          // Just-in-time provisioning: create new users, sign in users
+          // created or linked through this connection before. Anyone else
+          // must confirm the link by signing in to their account first.
+          const existing = await ctx.context.internalAdapter.findOAuthUser(
+            email,
+            claims.sub,
+            providerId
+          );
+
+          let userId: string;
+          if (existing) {
+            userId = existing.user.id;
+
+            if (
+              !existing.accounts.some(
+                (linked) => linked.providerId === providerId
+              )
+            ) {
+              if (
+                stateData.link?.userId !== userId ||
+                stateData.link.email.toLowerCase() !== email
+              ) {
+                throw ctx.redirect(
+                  `${
+                    stateData.errorURL
+                  }?error=account_link_required&email=${encodeURIComponent(
+                    email
+                  )}`
+                );
+              }
+
+              await ctx.context.internalAdapter.linkAccount(
+                { ...account, userId },
+                ctx
+              );
+            }
+          } else {
+            const created = await ctx.context.internalAdapter.createOAuthUser(
+              {
+                email,
+                name: claims.name || email.split("@")[0],
+                image: claims.picture,
+                emailVerified: true,
+              },
+              account,
+              ctx
+            );
+            userId = created.user.id;
+          }
+
+          const provisioning = await provisionSsoMember({
+            organization: connection.organization,
+            userId,
+          });
+
+          if (!provisioning.success) {
+            throw fail(provisioning.error);
+          }
+
+          const session = await ctx.context.internalAdapter.createSession(
+            userId,
+            ctx,
+            false,
+            { activeOrganizationId: connection.organizationId }
+          );
+          const user = await ctx.context.internalAdapter.findUserById(userId);
+
+          if (!session || !user) {
+            throw fail("session_not_created");
+          }
+
+          await setSessionCookie(ctx, { session, user });
+
+          throw ctx.redirect(stateData.callbackURL);
+        }
+      ),
+
+      getSsoConnection: createAuthEndpoint(
+        "/organization/sso",
+        {
+          method: "GET",
+          requiresAuth: true,
+        },
+        async (ctx) => {
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          if (membership.role !== OrganizationRole.OWNER) {
+            throw new APIError("FORBIDDEN", {
+              error: "Only the organization owner can manage single sign-on",
+            });
+          }
+
+          const connection = await prisma.organizationSsoConnection.findUnique({
+            where: { organizationId: membership.organizationId },
+            omit: { clientSecret: true },
+          });
+
+          return ctx.json({
+            connection,
+            redirectURI: connection
+              ? `${ctx.context.baseURL}/sso/oidc/callback/${connection.id}`
+              : null,
+          });
+        }
+      ),
+
+      saveSsoConnection: createAuthEndpoint(
+        "/organization/sso",
+        {
+          method: "POST",
+          requiresAuth: true,
+          body: z.object({
+            issuer: z.string().url(),
+            clientId: z.string().min(1),
+            // Optional on updates, the stored secret is kept when omitted
+            clientSecret: z.string().min(1).optional(),
+            allowedDomains: z.array(domainSchema).min(1),
+            enabled: z.boolean().default(true),
+          }),
+        },
+        async (ctx) => {
+          const { body } = ctx;
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          if (membership.role !== OrganizationRole.OWNER) {
+            throw new APIError("FORBIDDEN", {
+              error: "Only the organization owner can manage single sign-on",
+            });
+          }
+
+          const allowedDomains = [...new Set(body.allowedDomains)];
+
+          if (allowedDomains.some(isPublicEmailDomain)) {
+            throw new APIError("BAD_REQUEST", {
+              error: "Public email providers cannot use single sign-on",
+            });
+          }
+
+          // Only domains the organization proved it owns can be routed to its
+          // identity provider
+          const verifiedDomains = await getVerifiedDomains(
+            membership.organizationId
+          );
+          const unverified = allowedDomains.filter(
+            (domain) => !verifiedDomains.includes(domain)
+          );
+
+          if (body.enabled && unverified.length > 0) {
+            throw new APIError("BAD_REQUEST", {
+              error: `Verify ${unverified.join(
+                ", "
+              )} before enabling single sign-on`,
+            });
+          }
+
+          // A domain can only be routed to one identity provider
+          const conflict = await prisma.organizationSsoConnection.findFirst({
+            where: {
+              organizationId: { not: membership.organizationId },
+              enabled: true,
+              allowedDomains: { hasSome: allowedDomains },
+            },
+          });
+
+          if (body.enabled && conflict) {
+            throw new APIError("BAD_REQUEST", {
+              error:
+                "One of these domains already uses single sign-on with another organization",
+            });
+          }
+
+          const existing = await prisma.organizationSsoConnection.findUnique({
+            where: { organizationId: membership.organizationId },
+          });
+
+          if (!existing && !body.clientSecret) {
+            throw new APIError("BAD_REQUEST", {
+              error: "Client secret is required",
+            });
+          }
+
+          // Reject issuers we could not sign anyone in with
+          try {
+            await discoverOidcProvider(body.issuer);
+          } catch (error) {
+            throw new APIError("BAD_REQUEST", {
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "OIDC discovery failed",
+            });
+          }
+
+          const data = {
+            issuer: body.issuer,
+            clientId: body.clientId,
+            allowedDomains,
+            enabled: body.enabled,
+            ...(body.clientSecret
+              ? { clientSecret: await encryptClientSecret(body.clientSecret) }
+              : {}),
+          };
+
+          const connection = existing
+            ? await prisma.organizationSsoConnection.update({
+                where: { id: existing.id },
+                data,
+                omit: { clientSecret: true },
+              })
+            : await prisma.organizationSsoConnection.create({
+                data: {
+                  ...data,
+                  clientSecret: await encryptClientSecret(
+                    body.clientSecret as string
+                  ),
+                  organizationId: membership.organizationId,
+                },
+                omit: { clientSecret: true },
+              });
+
+          await prisma.organizationActivity.create({
+            data: {
+              organizationId: membership.organizationId,
+              userId: userId,
+              action: "sso_connection_updated",
+              entityType: "sso_connection",
+              entityId: connection.id,
+              metadata: {
+                issuer: body.issuer,
+                allowedDomains,
+                enabled: body.enabled,
+                clientSecretChanged: !!body.clientSecret,
+              },
+            },
+          });
+
+          return ctx.json({
+            connection,
+            redirectURI: `${ctx.context.baseURL}/sso/oidc/callback/${connection.id}`,
+          });
+        }
+      ),
+
+      deleteSsoConnection: createAuthEndpoint(
+        "/organization/sso/delete",
+        {
+          method: "POST",
+          requiresAuth: true,
+        },
+        async (ctx) => {
+          const userId = ctx.context.session?.user?.id;
+
+          if (!userId) {
+            throw new APIError("UNAUTHORIZED", { error: "Unauthorized" });
+          }
+
+          const membership = await getActiveMembership(
+            userId,
+            ctx.context.session?.session.activeOrganizationId
+          );
+
+          if (!membership) {
+            throw new APIError("BAD_REQUEST", {
+              error: "User is not part of an organization",
+            });
+          }
+
+          if (membership.role !== OrganizationRole.OWNER) {
+            throw new APIError("FORBIDDEN", {
+              error: "Only the organization owner can manage single sign-on",
+            });
+          }
+
+          const connection = await prisma.organizationSsoConnection.findUnique({
+            where: { organizationId: membership.organizationId },
+          });
+
+          if (!connection) {
+            throw new APIError("NOT_FOUND", {
+              error: "Single sign-on is not configured",
+            });
+          }
+
+          await prisma.$transaction([
+            prisma.organizationSsoConnection.delete({
+              where: { id: connection.id },
+            }),
+            prisma.organizationActivity.create({
+              data: {
+                organizationId: membership.organizationId,
+                userId: userId,
+                action: "sso_connection_removed",
+                entityType: "sso_connection",
+                entityId: connection.id,
+                metadata: { issuer: connection.issuer },
+              },
+            }),
+          ]);
+
+          return ctx.json({ success: true });
+        }
+      ),
+    },
+
+    hooks: {
+      before: [
+        {
+          // Users of an SSO domain must sign in through their identity provider
+          matcher: (context) =>
+            context.path === "/email-otp/send-verification-otp" ||
+            context.path === "/sign-in/email-otp",
+          handler: createAuthMiddleware(async (ctx) => {
+            const email = ctx.body?.email;
+
+            if (typeof email !== "string") return;
+            if (ctx.body?.type && ctx.body.type !== "sign-in") return;
+
+            const connection = await findSsoConnectionForEmail(email);
+
+            if (!connection || !isOrganizationActive(connection.organization)) {
+              return;
+            }
+
+            // Existing accounts not linked to the IdP yet keep their email
+            // code, which is how their owner confirms the link
+            const user = await prisma.user.findUnique({
+              where: { email: email.toLowerCase() },
+              select: {
+                accounts: {
+                  where: { providerId: getSsoProviderId(connection.id) },
+                  select: { id: true },
+                },
+              },
+            });
+
+            if (!user || user.accounts.length > 0) {
+              throw new APIError("FORBIDDEN", {
+                message: `Please sign in with ${connection.organization.name} single sign-on`,
+              });
+            }
+          }),
+        },
+      ],
+    },
+  };
+};
@@ -51,16 +51,34 @@ export interface CreateOrganizationInput {
   slug: string;
   description?: string;
   contactEmail?: string;
-  maxSeats?: number;
   allowSelfSignup?: boolean;
   domains?: string[];
 }
 
 export interface InviteOrganizationMemberInput {
   email: string;
-  role: OrganizationRole;
+  role: Exclude<OrganizationRole, "OWNER">;
   message?: string;
   courseIds?: string[];
+  groupIds?: string[];
+}
+
+export interface BulkInviteInput {
+  rows: Record<string, string>[];
+  message?: string;
+}
+
+export interface BulkInviteRowResult {
+  row: number;
+  email: string;
+  status: "invited" | "skipped" | "error";
+  message: string;
+}
+
+export interface BulkInviteResponse {
+  results: BulkInviteRowResult[];
+  invitedCount: number;
+  emailSent: boolean;
 }
 
 export interface AcceptInvitationInput {
@@ -71,10 +89,33 @@ export interface UpdateOrganizationInput {
   name?: string;
   description?: string;
   contactEmail?: string;
-  maxSeats?: number;
   allowSelfSignup?: boolean;
   domains?: string[];
   requireAdminApproval?: boolean;
+  autoDeactivateAfterDays?: number | null;
+  logo?: string | null;
+  displayName?: string | null;
+  brandColor?: string | null;
+  emailSenderName?: string | null;
+}
+
+export interface OrganizationDomain {
+  domain: string;
+  verifiedAt?: Date | null;
+  record: {
+    name: string;
+    value: string;
+  };
+}
+
+export interface UpdateMemberRoleInput {
+  memberId: string;
+  role: Exclude<OrganizationRole, "OWNER">;
+}
+
+export interface TransferOwnershipInput {
+  newOwnerId: string;
+  otp: string;
 }
 
 export interface OrganizationMember {
@@ -84,4 +125,156 @@ export interface OrganizationMember {
   image?: string | null;
   organizationRole: OrganizationRole;
   joinedOrganizationAt: Date;
+  groups: { id: string; name: string }[];
+}
+
+export interface OrganizationMembershipSummary {
+  id: string;
+  name: string;
+  slug: string;
+  logo?: string | null;
+  status: OrganizationContext["status"];
+  role: OrganizationRole;
+  joinedAt: Date;
+}
+
+export interface OrganizationList {
+  organizations: OrganizationMembershipSummary[];
+  activeOrganizationId: string | null;
+}
+
+export interface PendingInvitation {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+  message?: string | null;
+  courseIds: string[];
+  groupIds: string[];
+  expiresAt: Date;
+  createdAt: Date;
+  sender: {
+    name: string;
+    email: string;
+  };
+}
+
+export type JoinRequestStatus =
+  | "PENDING"
+  | "APPROVED"
+  | "REJECTED"
+  | "CANCELLED";
+
+export interface RequestToJoinInput {
+  slug: string;
+  message?: string;
+}
+
+export interface ReviewJoinRequestInput {
+  requestId: string;
+  reason?: string;
+}
+
+export interface OrganizationJoinRequest {
+  id: string;
+  organizationId: string;
+  userId: string;
+  source: string;
+  message?: string | null;
+  status: JoinRequestStatus;
+  reason?: string | null;
+  reviewedAt?: Date | null;
+  createdAt: Date;
+  user?: {
+    id: string;
+    name: string;
+    email: string;
+    image?: string | null;
+  };
+  organization?: {
+    name: string;
+    slug: string;
+  };
+  reviewedBy?: {
+    name: string;
+    email: string;
+  } | null;
+}
+
+export interface OrganizationActivityFilters {
+  action?: string;
+  actorId?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface OrganizationActivityEntry {
+  id: string;
+  action: string;
+  entityType?: string | null;
+  entityId?: string | null;
+  metadata?: unknown;
+  createdAt: Date;
+  user?: {
+    id: string;
+    name: string;
+    email: string;
+  } | null;
+}
+
+export interface OrganizationActivityPage {
+  activities: OrganizationActivityEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface OrganizationSsoConnection {
+  id: string;
+  issuer: string;
+  clientId: string;
+  allowedDomains: string[];
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SaveSsoConnectionInput {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  allowedDomains: string[];
+  enabled: boolean;
+}
+
+export interface OrganizationScimToken {
+  id: string;
+  name: string;
+  lastUsedAt?: Date | null;
+  createdAt: Date;
+}
+
+export interface OrganizationGroup {
+  id: string;
+  name: string;
+  description?: string | null;
+  createdAt: Date;
+  members: {
+    id: string;
+    name: string;
+    email: string;
+  }[];
+}
+
+export interface CreateGroupInput {
+  name: string;
+  description?: string;
+  memberIds?: string[];
+}
+
+export interface UpdateGroupInput {
+  groupId: string;
+  name: string;
+  description?: string;
 }
@@ -6,6 +6,14 @@ import { emailOTP } from "better-auth/plugins";
 import { resend } from "./resend";
 import { admin } from "better-auth/plugins";
 import { organizationPlugin } from "./auth-organization-plugin";
+import { organizationScimPlugin } from "./auth-scim-plugin";
+import { organizationSsoPlugin } from "./auth-sso-plugin";
+import {
+  escapeHtml,
+  getEmailBrandingForAddress,
+  getEmailFrom,
+} from "./organization-emails";
+import { getContrastColor } from "./organization-branding";
 import type { OrganizationContext, CombinedRole } from "./auth-types";
 
 export const auth = betterAuth({
@@ -29,13 +37,24 @@ export const auth = betterAuth({
         try {
           console.log(`Sending ${type} OTP to:`, email);
 
+          // Members of an organization get its branding
+          const branding = await getEmailBrandingForAddress(email);
+          const brandName = branding?.name ?? "PrecuityAI";
+          const brandColor = branding?.primaryColor ?? "#667eea";
+          const headerBackground = branding?.primaryColor
+            ? branding.primaryColor
+            : "linear-gradient(135deg, #667eea 0%, #764ba2 100%)";
+          const headerColor = branding?.primaryColor
+            ? getContrastColor(branding.primaryColor)
+            : "white";
+
           const subject =
             type === "sign-in"
-              ? "Sign in to PrecuityAI"
-              : "Verify your PrecuityAI account";
+              ? `Sign in to ${brandName}`
+              : `Verify your ${brandName} account`;
 
           const result = await resend.emails.send({
-            from: "PrecuityAI <cristian@prodiusenterprise.com>",
+            from: getEmailFrom(branding),
             to: [email],
             subject: subject,
             html: `
@@ -45,16 +64,23 @@ export const auth = betterAuth({
                   <style>
                     body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
                     .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-                    .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center; }
+                    .header { background: ${headerBackground}; color: ${headerColor}; padding: 30px; border-radius: 10px 10px 0 0; text-align: center; }
                     .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
-                    .otp-code { background: #fff; border: 2px dashed #667eea; padding: 20px; text-align: center; font-size: 32px; font-weight: bold; letter-spacing: 5px; margin: 20px 0; border-radius: 8px; color: #667eea; }
+                    .otp-code { background: #fff; border: 2px dashed ${brandColor}; padding: 20px; text-align: center; font-size: 32px; font-weight: bold; letter-spacing: 5px; margin: 20px 0; border-radius: 8px; color: ${brandColor}; }
                     .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #666; }
                   </style>
                 </head>
                 <body>
                   <div class="container">
                     <div class="header">
-                      <h1>PrecuityAI</h1>
+                      ${
+                        branding?.logoUrl
+                          ? `<img src="${escapeHtml(
+                              branding.logoUrl
+                            )}" alt="" style="max-height: 48px; margin-bottom: 10px;">`
+                          : ""
+                      }
+                      <h1>${escapeHtml(brandName)}</h1>
                       <p style="margin: 0; opacity: 0.9;">${
                         type === "sign-in"
                           ? "Sign In Request"
@@ -67,7 +93,9 @@ export const auth = betterAuth({
                       
                       <p>${
                         type === "sign-in"
-                          ? "You requested to sign in to your PrecuityAI account. Use the verification code below:"
+                          ? `You requested to sign in to your ${escapeHtml(
+                              brandName
+                            )} account. Use the verification code below:`
                           : "Please verify your email address using the code below:"
                       }</p>
                       
@@ -80,8 +108,14 @@ export const auth = betterAuth({
                       <p>If you didn't request this code, you can safely ignore this email.</p>
                       
                       <div class="footer">
-                        <p>Need help? Contact our support team at support@PrecuityAI.com</p>
-                        <p>&copy; ${new Date().getFullYear()} PrecuityAI. All rights reserved.</p>
+                        ${
+                          branding
+                            ? `<p>&copy; ${new Date().getFullYear()} ${escapeHtml(
+                                brandName
+                              )}</p>`
+                            : `<p>Need help? Contact our support team at support@PrecuityAI.com</p>
+                        <p>&copy; ${new Date().getFullYear()} PrecuityAI. All rights reserved.</p>`
+                        }
                       </div>
                     </div>
                   </div>
@@ -102,6 +136,8 @@ export const auth = betterAuth({
     }),
     admin(),
     organizationPlugin(),
+    organizationSsoPlugin(),
+    organizationScimPlugin(),
   ],
 
   session: {
@@ -111,19 +147,18 @@ export const auth = betterAuth({
       enabled: true,
       maxAge: 60 * 5, // 5 minutes
     },
+    // Organization the user is currently working in, see organizationPlugin
+    additionalFields: {
+      activeOrganizationId: {
+        type: "string",
+        required: false,
+      },
+    },
   },
 
   // Extend the user type to include organization fields
   user: {
     additionalFields: {
-      organizationId: {
-        type: "string",
-        required: false,
-      },
-      organizationRole: {
-        type: "string",
-        required: false,
-      },
       combinedRole: {
         type: "string",
         required: false,
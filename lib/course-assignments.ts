@@ -0,0 +1,440 @@
+import "server-only";
+
+import { prisma } from "./db";
+import {
+  CourseAssignmentTarget,
+  OrganizationRole,
+  OrganizationStatus,
+} from "./generated/prisma";
+import { assignLicenseSeat } from "./license-seats";
+import {
+  sendAssignmentDigestEmail,
+  sendAssignmentReminderEmail,
+} from "./organization-emails";
+
+const REMINDER_DAYS_BEFORE_DUE = 3;
+const DAY = 24 * 60 * 60 * 1000;
+
+type AssignmentTarget = {
+  id: string;
+  organizationId: string;
+  courseId: string;
+  targetType: CourseAssignmentTarget;
+  targetRole: OrganizationRole | null;
+  targetGroupId: string | null;
+};
+
+// Current members matching an ALL, ROLE or GROUP assignment
+async function getTargetedMemberIds(assignment: AssignmentTarget) {
+  const memberships = await prisma.organizationMembership.findMany({
+    where: {
+      organizationId: assignment.organizationId,
+      ...(assignment.targetType === CourseAssignmentTarget.ROLE &&
+      assignment.targetRole
+        ? { role: assignment.targetRole }
+        : {}),
+      ...(assignment.targetType === CourseAssignmentTarget.GROUP &&
+      assignment.targetGroupId
+        ? { groups: { some: { groupId: assignment.targetGroupId } } }
+        : {}),
+    },
+    select: {
+      userId: true,
+    },
+  });
+
+  return memberships.map((membership) => membership.userId);
+}
+
+// Adds the targeted members that are not covered yet and enrolls them with a
+// seat of the organization's license. Members who already have the course keep
+// their enrollment; failed enrollments, e.g. for lack of seats, are recorded on
+// the learner and retried on every sync while the learner is still a member.
+export async function syncAssignmentLearners(
+  assignment: AssignmentTarget,
+  {
+    userIds = [],
+    assignedBy = null,
+  }: { userIds?: string[]; assignedBy?: string | null } = {}
+) {
+  const targeted =
+    assignment.targetType === CourseAssignmentTarget.USERS
+      ? userIds
+      : await getTargetedMemberIds(assignment);
+
+  const existing = await prisma.courseAssignmentLearner.findMany({
+    where: {
+      assignmentId: assignment.id,
+    },
+    select: {
+      userId: true,
+      enrollmentError: true,
+    },
+  });
+  const existingErrors = new Map(
+    existing.map((learner) => [learner.userId, learner.enrollmentError])
+  );
+
+  // Learners who left are only enrolled again if they are targeted again
+  const retried = existing
+    .filter(
+      (learner) =>
+        learner.enrollmentError && learner.enrollmentError !== "not_member"
+    )
+    .map((learner) => learner.userId);
+
+  let added = 0;
+  let failed = 0;
+
+  for (const userId of new Set([...targeted, ...retried])) {
+    const isExisting = existingErrors.has(userId);
+
+    if (isExisting && !existingErrors.get(userId)) {
+      continue;
+    }
+
+    const seat = await assignLicenseSeat({
+      organizationId: assignment.organizationId,
+      courseId: assignment.courseId,
+      userId: userId,
+      assignedBy: assignedBy,
+      source: "assignment",
+    });
+
+    const enrollmentError =
+      seat.success || seat.reason === "already_enrolled" ? null : seat.reason;
+
+    if (isExisting) {
+      await prisma.courseAssignmentLearner.update({
+        where: {
+          assignmentId_userId: {
+            assignmentId: assignment.id,
+            userId: userId,
+          },
+        },
+        data: {
+          enrollmentError: enrollmentError,
+        },
+      });
+    } else {
+      await prisma.courseAssignmentLearner.create({
+        data: {
+          assignmentId: assignment.id,
+          userId: userId,
+          enrollmentError: enrollmentError,
+        },
+      });
+
+      added++;
+    }
+
+    if (enrollmentError) failed++;
+  }
+
+  return { added, failed };
+}
+
+export async function createCourseAssignment({
+  organizationId,
+  courseId,
+  name,
+  targetType,
+  targetRole,
+  targetGroupId,
+  userIds,
+  dueDate,
+  createdById,
+}: {
+  organizationId: string;
+  courseId: string;
+  name?: string;
+  targetType: CourseAssignmentTarget;
+  targetRole?: OrganizationRole;
+  targetGroupId?: string;
+  userIds?: string[];
+  dueDate: Date;
+  createdById: string;
+}) {
+  const assignment = await prisma.courseAssignment.create({
+    data: {
+      organizationId: organizationId,
+      courseId: courseId,
+      name: name || null,
+      targetType: targetType,
+      targetRole:
+        targetType === CourseAssignmentTarget.ROLE ? targetRole : null,
+      targetGroupId:
+        targetType === CourseAssignmentTarget.GROUP ? targetGroupId : null,
+      dueDate: dueDate,
+      createdById: createdById,
+    },
+  });
+
+  const result = await syncAssignmentLearners(assignment, {
+    userIds: userIds,
+    assignedBy: createdById,
+  });
+
+  await prisma.organizationActivity.create({
+    data: {
+      organizationId: organizationId,
+      userId: createdById,
+      action: "course_assigned",
+      entityType: "course_assignment",
+      entityId: assignment.id,
+      metadata: {
+        courseId: courseId,
+        name: name || null,
+        targetType: targetType,
+        targetRole: assignment.targetRole,
+        targetGroupId: assignment.targetGroupId,
+        dueDate: dueDate.toISOString(),
+        learners: result.added,
+        enrollmentFailures: result.failed,
+      },
+    },
+  });
+
+  return { assignment, ...result };
+}
+
+// Learners who completed every lesson of the course
+async function getCompletedUserIds(courseId: string, userIds: string[]) {
+  const lessonCount = await prisma.lesson.count({
+    where: {
+      Chapter: {
+        courseId: courseId,
+      },
+    },
+  });
+
+  if (lessonCount === 0 || userIds.length === 0) {
+    return new Set<string>();
+  }
+
+  const progress = await prisma.lessonProgress.groupBy({
+    by: ["userId"],
+    where: {
+      userId: {
+        in: userIds,
+      },
+      completed: true,
+      Lesson: {
+        Chapter: {
+          courseId: courseId,
+        },
+      },
+    },
+    _count: {
+      _all: true,
+    },
+  });
+
+  return new Set(
+    progress
+      .filter((entry) => entry._count._all >= lessonCount)
+      .map((entry) => entry.userId)
+  );
+}
+
+export type AssignmentJobResult = {
+  learnersAdded: number;
+  completed: number;
+  remindersSent: number;
+  overdueRemindersSent: number;
+  failures: number;
+};
+
+// Run once a day: enrolls members who joined since an assignment was created,
+// records completions and emails learners (and their managers) three days
+// before the due date and once the assignment is overdue. Sent reminders are
+// stored on the learner so re-running the job never emails twice.
+export async function processCourseAssignments(
+  now: Date = new Date()
+): Promise<AssignmentJobResult> {
+  const result: AssignmentJobResult = {
+    learnersAdded: 0,
+    completed: 0,
+    remindersSent: 0,
+    overdueRemindersSent: 0,
+    failures: 0,
+  };
+
+  const assignments = await prisma.courseAssignment.findMany({
+    where: {
+      organization: {
+        status: {
+          in: [OrganizationStatus.ACTIVE, OrganizationStatus.TRIAL],
+        },
+      },
+    },
+    include: {
+      organization: true,
+      course: {
+        select: {
+          title: true,
+          slug: true,
+          status: true,
+        },
+      },
+    },
+  });
+
+  for (const assignment of assignments) {
+    try {
+      // Picks up new members of the targeted role or group and retries
+      // failed enrollments. Past due assignments and archived courses take
+      // no new learners.
+      if (
+        assignment.dueDate > now &&
+        assignment.course.status === "Published"
+      ) {
+        const synced = await syncAssignmentLearners(assignment);
+        result.learnersAdded += synced.added;
+      }
+
+      // Learners that left the organization are no longer reminded
+      const learners = await prisma.courseAssignmentLearner.findMany({
+        where: {
+          assignmentId: assignment.id,
+          completedAt: null,
+          user: {
+            organizationMemberships: {
+              some: {
+                organizationId: assignment.organizationId,
+              },
+            },
+          },
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+      });
+
+      const completedIds = await getCompletedUserIds(
+        assignment.courseId,
+        learners.map((learner) => learner.userId)
+      );
+
+      if (completedIds.size > 0) {
+        await prisma.courseAssignmentLearner.updateMany({
+          where: {
+            assignmentId: assignment.id,
+            userId: {
+              in: [...completedIds],
+            },
+          },
+          data: {
+            completedAt: now,
+          },
+        });
+        result.completed += completedIds.size;
+      }
+
+      const pending = learners.filter(
+        (learner) => !completedIds.has(learner.userId)
+      );
+      const overdue = assignment.dueDate <= now;
+      const dueSoon =
+        !overdue &&
+        assignment.dueDate.getTime() - now.getTime() <=
+          REMINDER_DAYS_BEFORE_DUE * DAY;
+
+      if (!overdue && !dueSoon) {
+        continue;
+      }
+
+      const toRemind = pending.filter((learner) =>
+        overdue ? !learner.overdueReminderSentAt : !learner.reminderSentAt
+      );
+
+      if (toRemind.length === 0) {
+        continue;
+      }
+
+      for (const learner of toRemind) {
+        await sendAssignmentReminderEmail({
+          email: learner.user.email,
+          name: learner.user.name,
+          organization: assignment.organization,
+          courseTitle: assignment.course.title,
+          courseSlug: assignment.course.slug,
+          dueDate: assignment.dueDate,
+          overdue: overdue,
+        });
+
+        await prisma.courseAssignmentLearner.update({
+          where: {
+            id: learner.id,
+          },
+          data: overdue
+            ? { overdueReminderSentAt: now }
+            : { reminderSentAt: now },
+        });
+
+        if (overdue) {
+          result.overdueRemindersSent++;
+        } else {
+          result.remindersSent++;
+        }
+      }
+
+      const managers = await prisma.organizationMembership.findMany({
+        where: {
+          organizationId: assignment.organizationId,
+          role: {
+            in: [OrganizationRole.OWNER, OrganizationRole.ADMIN],
+          },
+        },
+        select: {
+          user: {
+            select: {
+              name: true,
+              email: true,
+            },
+          },
+        },
+      });
+
+      for (const manager of managers) {
+        await sendAssignmentDigestEmail({
+          email: manager.user.email,
+          name: manager.user.name,
+          organization: assignment.organization,
+          courseTitle: assignment.course.title,
+          dueDate: assignment.dueDate,
+          overdue: overdue,
+          learners: toRemind.map((learner) => learner.user),
+        });
+      }
+
+      await prisma.organizationActivity.create({
+        data: {
+          organizationId: assignment.organizationId,
+          action: "assignment_reminders_sent",
+          entityType: "course_assignment",
+          entityId: assignment.id,
+          metadata: {
+            courseId: assignment.courseId,
+            overdue: overdue,
+            learners: toRemind.length,
+          },
+        },
+      });
+    } catch (error) {
+      result.failures++;
+      console.error(
+        `Failed to process course assignment ${assignment.id}:`,
+        error
+      );
+    }
+  }
+
+  return result;
+}
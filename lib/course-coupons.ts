@@ -0,0 +1,160 @@
+import "server-only";
+
+import { getCourseProductId } from "./course-stripe";
+import { prisma } from "./db";
+import { CouponDiscountType } from "./generated/prisma";
+import { stripe } from "./stripe";
+
+// Creates the Stripe coupon and its customer-facing promotion code, then
+// stores the coupon. Stripe enforces the same limits on its side.
+export async function createCourseCoupon({
+  code,
+  name,
+  discountType,
+  value,
+  courseIds,
+  maxRedemptions,
+  expiresAt,
+  createdBy,
+}: {
+  code: string;
+  name?: string;
+  discountType: CouponDiscountType;
+  value: number;
+  courseIds: string[];
+  maxRedemptions: number | null;
+  expiresAt: Date | null;
+  createdBy: string;
+}) {
+  const courses = await prisma.course.findMany({
+    where: {
+      id: {
+        in: courseIds,
+      },
+    },
+    select: {
+      id: true,
+      stripePriceId: true,
+      stripeProductId: true,
+    },
+  });
+
+  if (courses.length !== courseIds.length) {
+    throw new Error("Course not found");
+  }
+
+  const productIds = await Promise.all(courses.map(getCourseProductId));
+
+  const percentOff = discountType === CouponDiscountType.PERCENT ? value : null;
+  const amountOff =
+    discountType === CouponDiscountType.FIXED ? Math.round(value * 100) : null;
+
+  const stripeCoupon = await stripe.coupons.create({
+    name: name || code,
+    duration: "once",
+    ...(percentOff
+      ? { percent_off: percentOff }
+      : { amount_off: amountOff as number, currency: "usd" }),
+    ...(productIds.length > 0 ? { applies_to: { products: productIds } } : {}),
+    ...(maxRedemptions ? { max_redemptions: maxRedemptions } : {}),
+    ...(expiresAt ? { redeem_by: Math.floor(expiresAt.getTime() / 1000) } : {}),
+  });
+
+  const promotionCode = await stripe.promotionCodes.create({
+    coupon: stripeCoupon.id,
+    code: code,
+  });
+
+  return prisma.coupon.create({
+    data: {
+      code: code,
+      name: name || null,
+      discountType: discountType,
+      percentOff: percentOff,
+      amountOff: amountOff,
+      courseIds: courseIds,
+      maxRedemptions: maxRedemptions,
+      expiresAt: expiresAt,
+      stripeCouponId: stripeCoupon.id,
+      stripePromotionCodeId: promotionCode.id,
+      createdById: createdBy,
+    },
+  });
+}
+
+export async function setCourseCouponActive(couponId: string, active: boolean) {
+  const coupon = await prisma.coupon.findUniqueOrThrow({
+    where: {
+      id: couponId,
+    },
+    select: {
+      stripePromotionCodeId: true,
+    },
+  });
+
+  await stripe.promotionCodes.update(coupon.stripePromotionCodeId, {
+    active: active,
+  });
+
+  await prisma.coupon.update({
+    where: {
+      id: couponId,
+    },
+    data: {
+      active: active,
+    },
+  });
+}
+
+export type CouponLookup =
+  | {
+      success: true;
+      coupon: { id: string; stripePromotionCodeId: string };
+    }
+  | { success: false; message: string };
+
+// Checks a code entered at checkout against the course and the coupon limits
+export async function findRedeemableCoupon(
+  code: string,
+  courseId: string,
+  now: Date = new Date()
+): Promise<CouponLookup> {
+  const coupon = await prisma.coupon.findUnique({
+    where: {
+      code: code.trim().toUpperCase(),
+    },
+  });
+
+  if (!coupon || !coupon.active) {
+    return { success: false, message: "This coupon code is not valid" };
+  }
+
+  if (coupon.expiresAt && coupon.expiresAt <= now) {
+    return { success: false, message: "This coupon code has expired" };
+  }
+
+  if (
+    coupon.maxRedemptions !== null &&
+    coupon.redemptionCount >= coupon.maxRedemptions
+  ) {
+    return {
+      success: false,
+      message: "This coupon code has been fully redeemed",
+    };
+  }
+
+  if (coupon.courseIds.length > 0 && !coupon.courseIds.includes(courseId)) {
+    return {
+      success: false,
+      message: "This coupon code does not apply to this course",
+    };
+  }
+
+  return {
+    success: true,
+    coupon: {
+      id: coupon.id,
+      stripePromotionCodeId: coupon.stripePromotionCodeId,
+    },
+  };
+}
@@ -0,0 +1,128 @@
+import "server-only";
+
+import { prisma } from "./db";
+import { stripe } from "./stripe";
+
+type CourseProductFields = {
+  title: string;
+  smallDescription: string;
+  price: number;
+};
+
+// Courses created before the product id was stored only know their price
+export async function getCourseProductId(course: {
+  stripePriceId: string;
+  stripeProductId: string | null;
+}) {
+  if (course.stripeProductId) {
+    return course.stripeProductId;
+  }
+
+  const price = await stripe.prices.retrieve(course.stripePriceId);
+
+  return typeof price.product === "string" ? price.product : price.product.id;
+}
+
+// Creates the Stripe product of a new course with its first price
+export async function createCourseProduct(values: CourseProductFields) {
+  const product = await stripe.products.create({
+    name: values.title,
+    description: values.smallDescription,
+    default_price_data: {
+      currency: "usd",
+      unit_amount: values.price * 100,
+    },
+  });
+
+  return {
+    stripeProductId: product.id,
+    stripePriceId: product.default_price as string,
+  };
+}
+
+// Keeps the Stripe product in line with an edited course. Stripe prices are
+// immutable, so a changed price gets a new Stripe price and the old one is
+// archived; enrollments keep pointing at the price they were bought at.
+export async function syncCourseProduct(
+  courseId: string,
+  values: CourseProductFields
+) {
+  const course = await prisma.course.findUniqueOrThrow({
+    where: {
+      id: courseId,
+    },
+    select: {
+      title: true,
+      smallDescription: true,
+      price: true,
+      stripePriceId: true,
+      stripeProductId: true,
+    },
+  });
+
+  const productId = await getCourseProductId(course);
+  const priceChanged = course.price !== values.price;
+
+  if (
+    course.title !== values.title ||
+    course.smallDescription !== values.smallDescription
+  ) {
+    await stripe.products.update(productId, {
+      name: values.title,
+      description: values.smallDescription,
+    });
+  }
+
+  if (!priceChanged) {
+    return {
+      stripeProductId: productId,
+      stripePriceId: course.stripePriceId,
+    };
+  }
+
+  const price = await stripe.prices.create({
+    product: productId,
+    currency: "usd",
+    unit_amount: values.price * 100,
+  });
+
+  // The default price cannot be archived, so switch it first
+  await stripe.products.update(productId, {
+    default_price: price.id,
+  });
+  await stripe.prices.update(course.stripePriceId, {
+    active: false,
+  });
+
+  const now = new Date();
+
+  await prisma.$transaction([
+    // Courses created before the price history get their old price recorded
+    prisma.coursePrice.upsert({
+      where: {
+        stripePriceId: course.stripePriceId,
+      },
+      update: {
+        archivedAt: now,
+      },
+      create: {
+        courseId: courseId,
+        stripePriceId: course.stripePriceId,
+        amount: course.price,
+        archivedAt: now,
+      },
+    }),
+    prisma.coursePrice.create({
+      data: {
+        courseId: courseId,
+        stripePriceId: price.id,
+        amount: values.price,
+      },
+    }),
+  ]);
+
+  return {
+    stripeProductId: productId,
+    stripePriceId: price.id,
+  };
+}
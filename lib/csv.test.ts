@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { parseCsvRecords, toCsv } from "./csv";
+
+describe("toCsv", () => {
+  it("quotes values with separators, quotes and line breaks", () => {
+    expect(toCsv([["a,b", 'say "hi"', "line\nbreak"]])).toBe(
+      '"a,b","say ""hi""","line\nbreak"'
+    );
+  });
+
+  it.each(['=HYPERLINK("https://evil.example.com")', "+1", "-2+3", "@SUM(A1)"])(
+    "neutralizes the formula %s",
+    (value) => {
+      const [record] = parseCsvRecords(`value\r\n${toCsv([[value]])}`);
+
+      expect(record.value).toBe(`'${value}`);
+    }
+  );
+
+  it("keeps numbers and dates as they are", () => {
+    expect(toCsv([[-5, 0, new Date("2026-01-01T00:00:00.000Z"), null]])).toBe(
+      "-5,0,2026-01-01T00:00:00.000Z,"
+    );
+  });
+});
@@ -0,0 +1,327 @@
+import "server-only";
+
+import Stripe from "stripe";
+import { prisma } from "./db";
+import { Prisma } from "./generated/prisma";
+import { stripe } from "./stripe";
+
+export type RefundResult =
+  | { success: true; amount: number }
+  | { success: false; message: string };
+
+function getPaymentIntentId(
+  paymentIntent: string | Stripe.PaymentIntent | null
+) {
+  return typeof paymentIntent === "string"
+    ? paymentIntent
+    : paymentIntent?.id ?? null;
+}
+
+// Enrollments paid before payment intents were stored on them are found
+// through their checkout session, which carries the enrollment id. The payment
+// intent is stored on the way.
+async function findEnrollmentByPaymentIntent(
+  tx: Prisma.TransactionClient,
+  paymentIntentId: string
+) {
+  const enrollment = await tx.enrollment.findUnique({
+    where: {
+      stripePaymentIntentId: paymentIntentId,
+    },
+    select: {
+      id: true,
+      status: true,
+    },
+  });
+
+  if (enrollment) {
+    return enrollment;
+  }
+
+  const sessions = await stripe.checkout.sessions.list({
+    payment_intent: paymentIntentId,
+    limit: 1,
+  });
+  const enrollmentId = sessions.data[0]?.metadata?.enrollmentId;
+
+  if (!enrollmentId) {
+    return null;
+  }
+
+  const legacyEnrollment = await tx.enrollment.findFirst({
+    where: {
+      id: enrollmentId,
+      stripePaymentIntentId: null,
+    },
+    select: {
+      id: true,
+      status: true,
+    },
+  });
+
+  if (!legacyEnrollment) {
+    return null;
+  }
+
+  await tx.enrollment.update({
+    where: {
+      id: legacyEnrollment.id,
+    },
+    data: {
+      stripePaymentIntentId: paymentIntentId,
+    },
+  });
+
+  return legacyEnrollment;
+}
+
+// Latest paid checkout of the enrollment, for enrollments paid before the
+// payment intent was stored on them
+async function findCheckoutPaymentIntentId(enrollment: {
+  id: string;
+  User: { stripeCustomerId: string | null };
+}) {
+  if (!enrollment.User.stripeCustomerId) {
+    return null;
+  }
+
+  for await (const session of stripe.checkout.sessions.list({
+    customer: enrollment.User.stripeCustomerId,
+    status: "complete",
+    limit: 100,
+  })) {
+    if (
+      session.metadata?.enrollmentId === enrollment.id &&
+      session.payment_status === "paid"
+    ) {
+      return getPaymentIntentId(session.payment_intent);
+    }
+  }
+
+  return null;
+}
+
+// Refunds an individual enrollment through Stripe and cancels it, which
+// revokes lesson access. Leaving out the amount refunds what is left.
+export async function issueEnrollmentRefund({
+  enrollmentId,
+  amount,
+  reason,
+  note,
+  refundedBy,
+}: {
+  enrollmentId: string;
+  amount?: number;
+  reason: Stripe.RefundCreateParams.Reason;
+  note?: string;
+  refundedBy: string;
+}): Promise<RefundResult> {
+  const enrollment = await prisma.enrollment.findUnique({
+    where: {
+      id: enrollmentId,
+    },
+    select: {
+      id: true,
+      amount: true,
+      refundedAmount: true,
+      stripePaymentIntentId: true,
+      User: {
+        select: {
+          stripeCustomerId: true,
+        },
+      },
+    },
+  });
+
+  if (!enrollment) {
+    return { success: false, message: "Enrollment not found" };
+  }
+
+  const paymentIntentId =
+    enrollment.stripePaymentIntentId ??
+    (await findCheckoutPaymentIntentId(enrollment));
+
+  if (!paymentIntentId) {
+    return {
+      success: false,
+      message: "No Stripe payment found for this enrollment",
+    };
+  }
+
+  if (!enrollment.stripePaymentIntentId) {
+    await prisma.enrollment.update({
+      where: {
+        id: enrollment.id,
+      },
+      data: {
+        stripePaymentIntentId: paymentIntentId,
+      },
+    });
+  }
+
+  const refundable = enrollment.amount - enrollment.refundedAmount;
+  const refundAmount = amount ?? refundable;
+
+  if (refundAmount <= 0 || refundAmount > refundable) {
+    return {
+      success: false,
+      message: "Refund amount exceeds what is left to refund",
+    };
+  }
+
+  // A double submit sends the same key, so Stripe refunds only once
+  const refund = await stripe.refunds.create(
+    {
+      payment_intent: paymentIntentId,
+      amount: refundAmount,
+      reason: reason,
+      metadata: {
+        enrollmentId: enrollment.id,
+      },
+    },
+    {
+      idempotencyKey: `enrollment-refund-${enrollment.id}-${enrollment.refundedAmount}-${refundAmount}`,
+    }
+  );
+
+  // The charge.refunded event may have recorded the refund already, so the
+  // refunded amount is summed up from the stored refunds
+  await prisma.$transaction(async (tx) => {
+    await tx.enrollmentRefund.upsert({
+      where: {
+        stripeRefundId: refund.id,
+      },
+      update: {
+        reason: reason,
+        note: note || null,
+        refundedById: refundedBy,
+      },
+      create: {
+        enrollmentId: enrollment.id,
+        stripeRefundId: refund.id,
+        stripePaymentIntentId: paymentIntentId,
+        amount: refund.amount,
+        reason: reason,
+        note: note || null,
+        refundedById: refundedBy,
+      },
+    });
+
+    // Refunds of an earlier purchase of the course do not count
+    const refunded = await tx.enrollmentRefund.aggregate({
+      where: {
+        enrollmentId: enrollment.id,
+        stripePaymentIntentId: paymentIntentId,
+      },
+      _sum: {
+        amount: true,
+      },
+    });
+
+    await tx.enrollment.update({
+      where: {
+        id: enrollment.id,
+      },
+      data: {
+        status: "Cancelled",
+        refundedAmount: refunded._sum.amount ?? refund.amount,
+        cancelledAt: new Date(),
+      },
+    });
+  });
+
+  return { success: true, amount: refund.amount };
+}
+
+// Records refunds made from the Stripe dashboard. A full refund cancels the
+// enrollment, refunds issued here are matched by their Stripe id.
+export async function recordChargeRefund(
+  charge: Stripe.Charge,
+  tx: Prisma.TransactionClient
+) {
+  const paymentIntentId = getPaymentIntentId(charge.payment_intent);
+
+  if (!paymentIntentId) {
+    return false;
+  }
+
+  const enrollment = await findEnrollmentByPaymentIntent(tx, paymentIntentId);
+
+  // Charges of team licenses and subscriptions have no enrollment
+  if (!enrollment) {
+    return false;
+  }
+
+  const refunds = await stripe.refunds.list({
+    payment_intent: paymentIntentId,
+    limit: 100,
+  });
+
+  for (const refund of refunds.data) {
+    if (refund.status === "failed") {
+      continue;
+    }
+
+    await tx.enrollmentRefund.upsert({
+      where: {
+        stripeRefundId: refund.id,
+      },
+      update: {},
+      create: {
+        enrollmentId: enrollment.id,
+        stripeRefundId: refund.id,
+        stripePaymentIntentId: paymentIntentId,
+        amount: refund.amount,
+        reason: refund.reason,
+      },
+    });
+  }
+
+  await tx.enrollment.update({
+    where: {
+      id: enrollment.id,
+    },
+    data: {
+      refundedAmount: charge.amount_refunded,
+      ...(charge.refunded && enrollment.status !== "Cancelled"
+        ? { status: "Cancelled", cancelledAt: new Date() }
+        : {}),
+    },
+  });
+
+  return true;
+}
+
+// A disputed payment is treated like a refund: access is revoked right away
+export async function recordChargeDispute(
+  dispute: Stripe.Dispute,
+  tx: Prisma.TransactionClient
+) {
+  const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+
+  if (!paymentIntentId) {
+    return false;
+  }
+
+  const enrollment = await findEnrollmentByPaymentIntent(tx, paymentIntentId);
+
+  // Disputes of team licenses and subscriptions have no enrollment
+  if (!enrollment) {
+    return false;
+  }
+
+  const now = new Date();
+
+  await tx.enrollment.update({
+    where: {
+      id: enrollment.id,
+    },
+    data: {
+      status: "Cancelled",
+      cancelledAt: now,
+      disputedAt: now,
+    },
+  });
+
+  return true;
+}
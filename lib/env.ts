@@ -17,6 +17,12 @@ export const env = createEnv({
     AWS_REGION: z.string().min(1),
     STRIPE_SECRET_KEY: z.string().min(1),
     STRIPE_WEBHOOK_SECRET: z.string().min(1),
+    CRON_SECRET: z.string().min(1),
+    ORGANIZATION_ACTIVITY_RETENTION_DAYS: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .default(365),
   },
 
   client: {
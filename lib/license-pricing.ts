@@ -0,0 +1,45 @@
+export type LicensePricingCourse = {
+  price: number;
+  bulkDiscountPercentage: number | null;
+  minimumBulkQuantity: number | null;
+};
+
+export type LicenseQuote = {
+  seats: number;
+  discountPercentage: number;
+  unitAmount: number; // Price per seat in cents
+  totalAmount: number; // Total price in cents
+};
+
+// Course prices are stored in whole dollars, Stripe works in cents
+export function getLicenseQuote(
+  course: LicensePricingCourse,
+  seats: number
+): LicenseQuote {
+  const discountApplies =
+    !!course.bulkDiscountPercentage &&
+    course.bulkDiscountPercentage > 0 &&
+    seats >= (course.minimumBulkQuantity ?? 1);
+
+  const discountPercentage = discountApplies
+    ? Math.min(course.bulkDiscountPercentage as number, 100)
+    : 0;
+
+  const unitAmount = Math.round(
+    (course.price * 100 * (100 - discountPercentage)) / 100
+  );
+
+  return {
+    seats,
+    discountPercentage,
+    unitAmount,
+    totalAmount: unitAmount * seats,
+  };
+}
+
+export function formatCents(amount: number) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount / 100);
+}
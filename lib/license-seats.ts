@@ -0,0 +1,266 @@
+import { prisma } from "./db";
+import { EnrollmentType, LicenseStatus } from "./generated/prisma";
+
+export type SeatFailureReason =
+  | "no_license"
+  | "license_expired"
+  | "no_seats"
+  | "already_enrolled"
+  | "not_member";
+
+export type SeatAssignmentResult =
+  | { success: true; enrollmentId: string }
+  | { success: false; reason: SeatFailureReason; message: string };
+
+export type SeatRevocationResult =
+  | { success: true }
+  | { success: false; message: string };
+
+export function isLicenseValid(
+  license: { status: string; validUntil: Date | null } | null
+): boolean {
+  if (!license || license.status !== LicenseStatus.ACTIVE) {
+    return false;
+  }
+
+  return !license.validUntil || license.validUntil > new Date();
+}
+
+const seatFailureMessages: Record<SeatFailureReason, string> = {
+  no_license: "Your organization has no license for this course",
+  license_expired: "This course license has expired",
+  no_seats: "All seats of this license are already assigned",
+  already_enrolled: "Member already has access to this course",
+  not_member: "Member not found in organization",
+};
+
+function seatFailure(reason: SeatFailureReason): SeatAssignmentResult {
+  return { success: false, reason, message: seatFailureMessages[reason] };
+}
+
+// Consumes one seat of the organization's license and enrolls the member
+export async function assignLicenseSeat({
+  organizationId,
+  courseId,
+  userId,
+  assignedBy,
+  source = "manual",
+}: {
+  organizationId: string;
+  courseId: string;
+  userId: string;
+  assignedBy: string | null;
+  source?: "manual" | "invitation" | "assignment";
+}): Promise<SeatAssignmentResult> {
+  return prisma.$transaction(async (tx) => {
+    const license = await tx.courseLicense.findUnique({
+      where: {
+        organizationId_courseId: {
+          organizationId: organizationId,
+          courseId: courseId,
+        },
+      },
+    });
+
+    if (!license) {
+      return seatFailure("no_license");
+    }
+
+    if (!isLicenseValid(license)) {
+      return seatFailure("license_expired");
+    }
+
+    const membership = await tx.organizationMembership.findUnique({
+      where: {
+        organizationId_userId: {
+          organizationId: organizationId,
+          userId: userId,
+        },
+      },
+      select: {
+        id: true,
+      },
+    });
+
+    if (!membership) {
+      return seatFailure("not_member");
+    }
+
+    const existingEnrollment = await tx.enrollment.findUnique({
+      where: {
+        userId_courseId: {
+          userId: userId,
+          courseId: courseId,
+        },
+      },
+      select: {
+        id: true,
+        status: true,
+      },
+    });
+
+    if (existingEnrollment?.status === "Active") {
+      return seatFailure("already_enrolled");
+    }
+
+    // Guarded increment so concurrent assignments cannot oversell the license
+    const reserved = await tx.courseLicense.updateMany({
+      where: {
+        id: license.id,
+        usedSeats: {
+          lt: license.seats,
+        },
+      },
+      data: {
+        usedSeats: {
+          increment: 1,
+        },
+      },
+    });
+
+    if (reserved.count === 0) {
+      return seatFailure("no_seats");
+    }
+
+    const enrollmentData = {
+      amount: 0,
+      status: "Active" as const,
+      enrollmentType: EnrollmentType.ORGANIZATION,
+      organizationId: organizationId,
+    };
+
+    const enrollment = existingEnrollment
+      ? await tx.enrollment.update({
+          where: {
+            id: existingEnrollment.id,
+          },
+          data: enrollmentData,
+        })
+      : await tx.enrollment.create({
+          data: {
+            ...enrollmentData,
+            userId: userId,
+            courseId: courseId,
+          },
+        });
+
+    await tx.organizationActivity.create({
+      data: {
+        organizationId: organizationId,
+        userId: assignedBy,
+        action: "license_seat_assigned",
+        entityType: "enrollment",
+        entityId: enrollment.id,
+        metadata: { courseId: courseId, memberId: userId, source: source },
+      },
+    });
+
+    return { success: true, enrollmentId: enrollment.id };
+  });
+}
+
+// Removes an organization enrollment and gives its seat back to the license
+export async function revokeLicenseSeat({
+  organizationId,
+  courseId,
+  userId,
+  revokedBy,
+}: {
+  organizationId: string;
+  courseId: string;
+  userId: string;
+  revokedBy: string | null;
+}): Promise<SeatRevocationResult> {
+  return prisma.$transaction(async (tx) => {
+    const enrollment = await tx.enrollment.findUnique({
+      where: {
+        userId_courseId: {
+          userId: userId,
+          courseId: courseId,
+        },
+      },
+      select: {
+        id: true,
+        enrollmentType: true,
+        organizationId: true,
+      },
+    });
+
+    if (
+      !enrollment ||
+      enrollment.enrollmentType !== EnrollmentType.ORGANIZATION ||
+      enrollment.organizationId !== organizationId
+    ) {
+      return {
+        success: false,
+        message: "Member does not hold a seat of this license",
+      };
+    }
+
+    await tx.enrollment.delete({
+      where: {
+        id: enrollment.id,
+      },
+    });
+
+    await tx.courseLicense.updateMany({
+      where: {
+        organizationId: organizationId,
+        courseId: courseId,
+        usedSeats: {
+          gt: 0,
+        },
+      },
+      data: {
+        usedSeats: {
+          decrement: 1,
+        },
+      },
+    });
+
+    await tx.organizationActivity.create({
+      data: {
+        organizationId: organizationId,
+        userId: revokedBy,
+        action: "license_seat_revoked",
+        entityType: "enrollment",
+        entityId: enrollment.id,
+        metadata: { courseId: courseId, memberId: userId },
+      },
+    });
+
+    return { success: true };
+  });
+}
+
+// Gives back every seat a member held in the organization, e.g. once they
+// leave it. Lesson progress is kept for a later enrollment.
+export async function releaseMemberLicenseSeats({
+  organizationId,
+  userId,
+  revokedBy,
+}: {
+  organizationId: string;
+  userId: string;
+  revokedBy: string | null;
+}) {
+  const enrollments = await prisma.enrollment.findMany({
+    where: {
+      userId: userId,
+      organizationId: organizationId,
+      enrollmentType: EnrollmentType.ORGANIZATION,
+    },
+    select: {
+      courseId: true,
+    },
+  });
+
+  for (const enrollment of enrollments) {
+    await revokeLicenseSeat({
+      organizationId: organizationId,
+      courseId: enrollment.courseId,
+      userId: userId,
+      revokedBy: revokedBy,
+    });
+  }
+}
@@ -0,0 +1,24 @@
+import "server-only";
+
+import { prisma } from "./db";
+import { env } from "./env";
+
+// Deletes organization activity older than the configured retention period
+export async function pruneOrganizationActivities(
+  now: Date = new Date()
+): Promise<{ deleted: number; cutoff: Date }> {
+  const cutoff = new Date(
+    now.getTime() -
+      env.ORGANIZATION_ACTIVITY_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const { count } = await prisma.organizationActivity.deleteMany({
+    where: {
+      createdAt: {
+        lt: cutoff,
+      },
+    },
+  });
+
+  return { deleted: count, cutoff };
+}
@@ -0,0 +1,85 @@
+export const organizationActivityLabels: Record<string, string> = {
+  organization_created: "Organization created",
+  organization_updated: "Settings updated",
+  domain_verified: "Domain verified",
+  member_invited: "Member invited",
+  invitation_resent: "Invitation resent",
+  invitation_courses_not_granted: "Invitation courses not granted",
+  member_joined: "Member joined",
+  member_left: "Member left",
+  member_removed: "Member removed",
+  member_updated: "Member updated",
+  member_provisioned: "Member provisioned",
+  member_deactivated: "Member deactivated",
+  member_reactivated: "Member reactivated",
+  inactivity_warning_sent: "Inactivity warning sent",
+  member_role_updated: "Member role changed",
+  ownership_transferred: "Ownership transferred",
+  join_requested: "Join requested",
+  join_request_rejected: "Join request rejected",
+  course_license_purchased: "Course license purchased",
+  license_seat_assigned: "License seat assigned",
+  license_seat_revoked: "License seat revoked",
+  subscription_created: "Subscription started",
+  subscription_updated: "Subscription updated",
+  subscription_cancelled: "Subscription cancelled",
+  subscription_payment_failed: "Subscription payment failed",
+  trial_reminder_sent: "Trial reminder sent",
+  trial_expired: "Trial expired",
+  sso_connection_updated: "Single sign-on updated",
+  sso_connection_removed: "Single sign-on removed",
+  scim_token_created: "SCIM token created",
+  scim_token_revoked: "SCIM token revoked",
+  course_assigned: "Course assigned",
+  course_assignment_removed: "Course assignment removed",
+  assignment_reminders_sent: "Assignment reminders sent",
+  group_created: "Group created",
+  group_updated: "Group updated",
+  group_deleted: "Group deleted",
+  group_members_updated: "Group members changed",
+};
+
+export function getActivityLabel(action: string) {
+  return organizationActivityLabels[action] ?? action.replace(/_/g, " ");
+}
+
+// Turns activity metadata into label/value pairs, e.g. the `changes` object of
+// organization_updated becomes one entry per changed setting
+export function formatActivityMetadata(
+  metadata: unknown
+): { label: string; value: string }[] {
+  if (!metadata || typeof metadata !== "object" || Array.isArray(metadata)) {
+    return [];
+  }
+
+  return Object.entries(metadata as Record<string, unknown>).flatMap(
+    ([key, value]) => {
+      if (key === "changes" && value && typeof value === "object") {
+        return formatActivityMetadata(value).map((entry) => ({
+          label: `${entry.label} changed to`,
+          value: entry.value,
+        }));
+      }
+
+      return [{ label: humanizeKey(key), value: formatValue(value) }];
+    }
+  );
+}
+
+function humanizeKey(key: string) {
+  const words = key
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/_/g, " ")
+    .toLowerCase();
+
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.map(formatValue).join(", ") || "—";
+  if (typeof value === "object") return JSON.stringify(value);
+
+  return String(value);
+}
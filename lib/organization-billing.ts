@@ -0,0 +1,273 @@
+import "server-only";
+
+import Stripe from "stripe";
+import { prisma } from "./db";
+import {
+  BillingInterval,
+  OrganizationStatus,
+  Prisma,
+  SubscriptionStatus,
+} from "./generated/prisma";
+import { getOrganizationPlan } from "./organization-plans";
+import { stripe } from "./stripe";
+
+// Returns the Stripe customer of the organization, creating it on first use
+export async function getOrganizationStripeCustomerId(
+  organization: {
+    id: string;
+    name: string;
+    stripeCustomerId: string | null;
+    billingEmail: string | null;
+    contactEmail: string | null;
+  },
+  fallbackEmail: string
+): Promise<string> {
+  if (organization.stripeCustomerId) {
+    return organization.stripeCustomerId;
+  }
+
+  const customer = await stripe.customers.create({
+    email:
+      organization.billingEmail ?? organization.contactEmail ?? fallbackEmail,
+    name: organization.name,
+    metadata: {
+      organizationId: organization.id,
+    },
+  });
+
+  await prisma.organization.update({
+    where: {
+      id: organization.id,
+    },
+    data: {
+      stripeCustomerId: customer.id,
+    },
+  });
+
+  return customer.id;
+}
+
+function toSubscriptionStatus(
+  status: Stripe.Subscription.Status
+): SubscriptionStatus {
+  switch (status) {
+    case "active":
+    case "trialing":
+      return SubscriptionStatus.ACTIVE;
+    case "past_due":
+    case "unpaid":
+      return SubscriptionStatus.PAST_DUE;
+    case "incomplete":
+      return SubscriptionStatus.INCOMPLETE;
+    default:
+      return SubscriptionStatus.CANCELLED;
+  }
+}
+
+async function findSubscriptionOrganizationId(
+  subscription: Stripe.Subscription,
+  tx: Prisma.TransactionClient
+) {
+  if (subscription.metadata.organizationId) {
+    return subscription.metadata.organizationId;
+  }
+
+  const customerId =
+    typeof subscription.customer === "string"
+      ? subscription.customer
+      : subscription.customer.id;
+
+  const organization = await tx.organization.findUnique({
+    where: {
+      stripeCustomerId: customerId,
+    },
+    select: {
+      id: true,
+    },
+  });
+
+  return organization?.id ?? null;
+}
+
+// Mirrors a Stripe subscription into OrganizationSubscription and keeps the
+// organization's seat limit and status in line with it. The subscription is
+// fetched fresh, events may arrive out of order or be replayed later.
+export async function syncOrganizationSubscription(
+  subscriptionId: string,
+  tx: Prisma.TransactionClient
+) {
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  const organizationId = await findSubscriptionOrganizationId(subscription, tx);
+
+  if (!organizationId) {
+    throw new Error("Organization not found for subscription...");
+  }
+
+  // Seat subscriptions have exactly one per-seat line item
+  const item = subscription.items.data[0];
+
+  if (!item) {
+    throw new Error("Subscription item not found...");
+  }
+
+  const seats = item.quantity ?? 0;
+  const status = toSubscriptionStatus(subscription.status);
+  const plan = getOrganizationPlan(subscription.metadata.planId);
+
+  const data = {
+    name: plan?.name ?? item.price.nickname ?? "Organization plan",
+    seats: seats,
+    stripePriceId: item.price.id,
+    amount: (item.price.unit_amount ?? 0) * seats,
+    currency: item.price.currency,
+    interval:
+      item.price.recurring?.interval === "year"
+        ? BillingInterval.YEARLY
+        : BillingInterval.MONTHLY,
+    status: status,
+    currentPeriodStart: new Date(item.current_period_start * 1000),
+    currentPeriodEnd: new Date(item.current_period_end * 1000),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    canceledAt: subscription.canceled_at
+      ? new Date(subscription.canceled_at * 1000)
+      : null,
+  };
+
+  const existing = await tx.organizationSubscription.findUnique({
+    where: {
+      stripeSubscriptionId: subscription.id,
+    },
+    select: {
+      status: true,
+      seats: true,
+    },
+  });
+
+  const organizationSubscription = await tx.organizationSubscription.upsert({
+    where: {
+      stripeSubscriptionId: subscription.id,
+    },
+    update: data,
+    create: {
+      ...data,
+      organizationId: organizationId,
+      stripeSubscriptionId: subscription.id,
+    },
+  });
+
+  if (
+    status === SubscriptionStatus.ACTIVE ||
+    status === SubscriptionStatus.PAST_DUE
+  ) {
+    await tx.organization.update({
+      where: {
+        id: organizationId,
+      },
+      data: {
+        maxSeats: seats,
+        ...(status === SubscriptionStatus.ACTIVE
+          ? { status: OrganizationStatus.ACTIVE }
+          : {}),
+      },
+    });
+  } else if (status === SubscriptionStatus.CANCELLED) {
+    const otherActiveSubscriptions = await tx.organizationSubscription.count({
+      where: {
+        organizationId: organizationId,
+        id: {
+          not: organizationSubscription.id,
+        },
+        status: {
+          in: [SubscriptionStatus.ACTIVE, SubscriptionStatus.PAST_DUE],
+        },
+      },
+    });
+
+    if (otherActiveSubscriptions === 0) {
+      await tx.organization.update({
+        where: {
+          id: organizationId,
+        },
+        data: {
+          status: OrganizationStatus.CANCELLED,
+        },
+      });
+    }
+  }
+
+  await tx.organizationActivity.create({
+    data: {
+      organizationId: organizationId,
+      action: !existing
+        ? "subscription_created"
+        : status === SubscriptionStatus.CANCELLED
+        ? "subscription_cancelled"
+        : "subscription_updated",
+      entityType: "subscription",
+      entityId: organizationSubscription.id,
+      metadata: {
+        stripeSubscriptionId: subscription.id,
+        status: status,
+        seats: seats,
+        previousStatus: existing?.status ?? null,
+        previousSeats: existing?.seats ?? null,
+        cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      },
+    },
+  });
+
+  return organizationSubscription;
+}
+
+export async function markOrganizationSubscriptionPastDue(
+  invoice: Stripe.Invoice,
+  tx: Prisma.TransactionClient
+) {
+  const subscription = invoice.parent?.subscription_details?.subscription;
+  const subscriptionId =
+    typeof subscription === "string" ? subscription : subscription?.id;
+
+  if (!subscriptionId) {
+    return;
+  }
+
+  const organizationSubscription = await tx.organizationSubscription.findUnique(
+    {
+      where: {
+        stripeSubscriptionId: subscriptionId,
+      },
+      select: {
+        id: true,
+        organizationId: true,
+      },
+    }
+  );
+
+  // Invoices of individual purchases or unknown subscriptions are ignored
+  if (!organizationSubscription) {
+    return;
+  }
+
+  await tx.organizationSubscription.update({
+    where: {
+      id: organizationSubscription.id,
+    },
+    data: {
+      status: SubscriptionStatus.PAST_DUE,
+    },
+  });
+
+  await tx.organizationActivity.create({
+    data: {
+      organizationId: organizationSubscription.organizationId,
+      action: "subscription_payment_failed",
+      entityType: "subscription",
+      entityId: organizationSubscription.id,
+      metadata: {
+        stripeInvoiceId: invoice.id ?? null,
+        amountDue: invoice.amount_due,
+        attemptCount: invoice.attempt_count,
+      },
+    },
+  });
+}
@@ -0,0 +1,64 @@
+import type { CSSProperties } from "react";
+import { env } from "./env";
+
+export type OrganizationBranding = {
+  name: string;
+  logoUrl: string | null;
+  primaryColor: string | null;
+  emailSenderName: string | null;
+};
+
+export type BrandedOrganization = {
+  name: string;
+  displayName: string | null;
+  logo: string | null;
+  brandColor: string | null;
+  emailSenderName: string | null;
+};
+
+export function getOrganizationBranding(
+  organization: BrandedOrganization
+): OrganizationBranding {
+  return {
+    name: organization.displayName || organization.name,
+    logoUrl: organization.logo
+      ? `https://${env.NEXT_PUBLIC_S3_BUCKET_NAME_IMAGES}.fly.storage.tigris.dev/${organization.logo}`
+      : null,
+    primaryColor: organization.brandColor,
+    emailSenderName: organization.emailSenderName,
+  };
+}
+
+// S3 key prefix of the files an organization uploads, e.g. its logo
+export function getOrganizationUploadPrefix(organizationId: string) {
+  return `organizations/${organizationId}/`;
+}
+
+// Black or white, whichever reads better on the given #rrggbb color
+export function getContrastColor(hex: string) {
+  const [r, g, b] = [1, 3, 5].map(
+    (offset) => Number.parseInt(hex.slice(offset, offset + 2), 16) / 255
+  );
+  const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+  return luminance > 0.6 ? "#000000" : "#ffffff";
+}
+
+// Overrides the theme variables from globals.css with the organization color
+export function getBrandingStyle(
+  branding: OrganizationBranding | null
+): CSSProperties {
+  if (!branding?.primaryColor) {
+    return {};
+  }
+
+  const foreground = getContrastColor(branding.primaryColor);
+
+  return {
+    "--primary": branding.primaryColor,
+    "--primary-foreground": foreground,
+    "--ring": branding.primaryColor,
+    "--sidebar-primary": branding.primaryColor,
+    "--sidebar-primary-foreground": foreground,
+  } as CSSProperties;
+}
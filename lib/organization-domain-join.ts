@@ -0,0 +1,140 @@
+import { prisma } from "./db";
+import {
+  JoinRequestStatus,
+  OrganizationRole,
+  OrganizationStatus,
+} from "./generated/prisma";
+import { isPublicEmailDomain } from "./organization-domains";
+import { isOrganizationMember } from "./organization-membership";
+
+export type DomainJoinResult =
+  | { status: "none" }
+  | { status: "joined"; organizationId: string }
+  | { status: "pending"; organizationId: string };
+
+export function getEmailDomain(email: string) {
+  return email.split("@")[1]?.trim().toLowerCase() ?? "";
+}
+
+// Places a user into the organization that verified their email domain, unless
+// they are a member already. Organizations requiring approval (or without free
+// seats) get a pending join request instead.
+export async function handleDomainAutoJoin(user: {
+  id: string;
+  email: string;
+}): Promise<DomainJoinResult> {
+  const domain = getEmailDomain(user.email);
+
+  if (!domain || isPublicEmailDomain(domain)) {
+    return { status: "none" };
+  }
+
+  const organization = await prisma.organization.findFirst({
+    where: {
+      allowSelfSignup: true,
+      domains: { has: domain },
+      // Listing a domain is not enough, the organization has to prove it owns it
+      domainVerifications: {
+        some: {
+          domain: domain,
+          verifiedAt: { not: null },
+        },
+      },
+      // Active organizations and trials that have not lapsed yet
+      OR: [
+        { status: OrganizationStatus.ACTIVE },
+        {
+          status: OrganizationStatus.TRIAL,
+          OR: [{ trialEndsAt: null }, { trialEndsAt: { gt: new Date() } }],
+        },
+      ],
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (!organization) {
+    return { status: "none" };
+  }
+
+  if (await isOrganizationMember(organization.id, user.id)) {
+    return { status: "none" };
+  }
+
+  const existingRequest = await prisma.organizationJoinRequest.findUnique({
+    where: {
+      organizationId_userId: {
+        organizationId: organization.id,
+        userId: user.id,
+      },
+    },
+  });
+
+  // Never re-open a request an admin has already decided on
+  if (existingRequest && existingRequest.status !== JoinRequestStatus.PENDING) {
+    return { status: "none" };
+  }
+
+  const memberCount = await prisma.organizationMembership.count({
+    where: { organizationId: organization.id },
+  });
+  const hasFreeSeat = memberCount < organization.maxSeats;
+
+  if (organization.requireAdminApproval || !hasFreeSeat) {
+    if (!existingRequest) {
+      const joinRequest = await prisma.organizationJoinRequest.create({
+        data: {
+          organizationId: organization.id,
+          userId: user.id,
+          source: "domain",
+        },
+      });
+
+      await prisma.organizationActivity.create({
+        data: {
+          organizationId: organization.id,
+          userId: user.id,
+          action: "join_requested",
+          entityType: "join_request",
+          entityId: joinRequest.id,
+          metadata: {
+            source: "domain",
+            domain,
+            reason: hasFreeSeat ? "approval_required" : "seat_limit_reached",
+          },
+        },
+      });
+    }
+
+    return { status: "pending", organizationId: organization.id };
+  }
+
+  await prisma.$transaction([
+    prisma.organizationMembership.create({
+      data: {
+        organizationId: organization.id,
+        userId: user.id,
+        role: OrganizationRole.MEMBER,
+      },
+    }),
+    ...(existingRequest
+      ? [
+          prisma.organizationJoinRequest.update({
+            where: { id: existingRequest.id },
+            data: { status: JoinRequestStatus.APPROVED },
+          }),
+        ]
+      : []),
+    prisma.organizationActivity.create({
+      data: {
+        organizationId: organization.id,
+        userId: user.id,
+        action: "member_joined",
+        entityType: "user",
+        entityId: user.id,
+        metadata: { source: "domain", domain },
+      },
+    }),
+  ]);
+
+  return { status: "joined", organizationId: organization.id };
+}
@@ -0,0 +1,195 @@
+import { randomBytes } from "node:crypto";
+import { resolveTxt } from "node:dns/promises";
+import { prisma } from "./db";
+
+// Free email providers can never be claimed by an organization, anyone can
+// sign up for an address there
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "yahoo.com",
+  "ymail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "msn.com",
+  "icloud.com",
+  "me.com",
+  "mac.com",
+  "aol.com",
+  "proton.me",
+  "protonmail.com",
+  "pm.me",
+  "gmx.com",
+  "gmx.net",
+  "gmx.de",
+  "web.de",
+  "mail.com",
+  "yandex.com",
+  "yandex.ru",
+  "mail.ru",
+  "zoho.com",
+  "qq.com",
+  "163.com",
+  "hey.com",
+  "fastmail.com",
+  "tutanota.com",
+]);
+
+const VERIFICATION_RECORD_PREFIX = "_precuityai-verification";
+const VERIFICATION_VALUE_PREFIX = "precuityai-verification=";
+
+export function normalizeDomain(domain: string) {
+  return domain.trim().toLowerCase().replace(/^@/, "");
+}
+
+export function isPublicEmailDomain(domain: string) {
+  return PUBLIC_EMAIL_DOMAINS.has(normalizeDomain(domain));
+}
+
+// TXT record the organization has to publish to prove it owns the domain
+export function getVerificationRecord(domain: {
+  domain: string;
+  verificationToken: string;
+}) {
+  return {
+    name: `${VERIFICATION_RECORD_PREFIX}.${domain.domain}`,
+    value: `${VERIFICATION_VALUE_PREFIX}${domain.verificationToken}`,
+  };
+}
+
+// Keeps a verification record for every domain the organization lists and
+// drops the ones it no longer lists. Existing records keep their token, so a
+// published TXT record stays valid.
+export async function syncOrganizationDomains(
+  organizationId: string,
+  domains: string[]
+) {
+  await prisma.$transaction([
+    prisma.organizationDomain.deleteMany({
+      where: {
+        organizationId: organizationId,
+        domain: {
+          notIn: domains,
+        },
+      },
+    }),
+    prisma.organizationDomain.createMany({
+      data: domains.map((domain) => ({
+        organizationId: organizationId,
+        domain: domain,
+        verificationToken: randomBytes(16).toString("hex"),
+      })),
+      skipDuplicates: true,
+    }),
+  ]);
+}
+
+export type DomainVerificationResult =
+  | { verified: true }
+  | { verified: false; message: string };
+
+// Looks up the TXT record of the domain. A domain can only be verified by one
+// organization at a time.
+export async function verifyOrganizationDomain(
+  organizationId: string,
+  domain: string
+): Promise<DomainVerificationResult> {
+  const record = await prisma.organizationDomain.findUnique({
+    where: {
+      organizationId_domain: {
+        organizationId: organizationId,
+        domain: normalizeDomain(domain),
+      },
+    },
+  });
+
+  if (!record) {
+    return { verified: false, message: "Domain not found" };
+  }
+
+  if (record.verifiedAt) {
+    return { verified: true };
+  }
+
+  const claimedElsewhere = await prisma.organizationDomain.findFirst({
+    where: {
+      domain: record.domain,
+      organizationId: {
+        not: organizationId,
+      },
+      verifiedAt: {
+        not: null,
+      },
+    },
+  });
+
+  if (claimedElsewhere) {
+    return {
+      verified: false,
+      message: "This domain is verified by another organization",
+    };
+  }
+
+  const { name, value } = getVerificationRecord(record);
+
+  let records: string[][];
+
+  try {
+    records = await resolveTxt(name);
+  } catch {
+    return {
+      verified: false,
+      message: `No TXT record found at ${name}`,
+    };
+  }
+
+  // Long TXT values are split into chunks by DNS
+  if (!records.some((chunks) => chunks.join("") === value)) {
+    return {
+      verified: false,
+      message: `The TXT record at ${name} does not match`,
+    };
+  }
+
+  await prisma.organizationDomain.update({
+    where: {
+      id: record.id,
+    },
+    data: {
+      verifiedAt: new Date(),
+    },
+  });
+
+  return { verified: true };
+}
+
+export async function getVerifiedDomains(organizationId: string) {
+  const domains = await prisma.organizationDomain.findMany({
+    where: {
+      organizationId: organizationId,
+      verifiedAt: {
+        not: null,
+      },
+    },
+    select: {
+      domain: true,
+    },
+  });
+
+  return domains.map(({ domain }) => domain);
+}
+
+export async function isDomainVerified(organizationId: string, domain: string) {
+  const count = await prisma.organizationDomain.count({
+    where: {
+      organizationId: organizationId,
+      domain: normalizeDomain(domain),
+      verifiedAt: {
+        not: null,
+      },
+    },
+  });
+
+  return count > 0;
+}
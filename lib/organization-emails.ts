@@ -0,0 +1,563 @@
+import type { CreateEmailOptions } from "resend";
+import { prisma } from "./db";
+import { env } from "./env";
+import {
+  BrandedOrganization,
+  getContrastColor,
+  getOrganizationBranding,
+  OrganizationBranding,
+} from "./organization-branding";
+import { getActiveMembership } from "./organization-membership";
+import { resend } from "./resend";
+
+const EMAIL_ADDRESS = "cristian@prodiusenterprise.com";
+const EMAIL_FROM = `PrecuityAI <${EMAIL_ADDRESS}>`;
+
+// Sender of emails for an organization that set a custom sender name
+export function getEmailFrom(branding?: OrganizationBranding | null) {
+  const senderName = branding?.emailSenderName?.replace(/[<>",\r\n]/g, "");
+
+  return senderName ? `${senderName} <${EMAIL_ADDRESS}>` : EMAIL_FROM;
+}
+
+// Branding of the organization the owner of the address belongs to. Users in
+// several organizations get the one they joined first.
+export async function getEmailBrandingForAddress(email: string) {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  const membership = user ? await getActiveMembership(user.id) : null;
+
+  return membership ? getOrganizationBranding(membership.organization) : null;
+}
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function renderEmailLayout({
+  title,
+  subtitle,
+  content,
+  branding,
+}: {
+  title: string;
+  subtitle: string;
+  content: string;
+  branding?: OrganizationBranding | null;
+}) {
+  const color = branding?.primaryColor ?? "#667eea";
+  const headerBackground = branding?.primaryColor
+    ? branding.primaryColor
+    : "linear-gradient(135deg, #667eea 0%, #764ba2 100%)";
+  const headerColor = branding?.primaryColor
+    ? getContrastColor(branding.primaryColor)
+    : "white";
+
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: ${headerBackground}; color: ${headerColor}; padding: 30px; border-radius: 10px 10px 0 0; text-align: center; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+          .button { display: inline-block; padding: 12px 30px; background: ${color}; color: ${headerColor}; text-decoration: none; border-radius: 5px; margin-top: 20px; }
+          .info-box { background: #e7f3ff; border-left: 4px solid ${color}; padding: 15px; margin: 20px 0; border-radius: 4px; }
+          .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            ${
+              branding?.logoUrl
+                ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(
+                    branding.name
+                  )}" style="max-height: 48px; margin-bottom: 10px;">`
+                : ""
+            }
+            <h1>${title}</h1>
+            <p style="margin: 0; opacity: 0.9;">${subtitle}</p>
+          </div>
+
+          <div class="content">
+            ${content}
+
+            <div class="footer">
+              ${
+                branding
+                  ? `<p>&copy; ${new Date().getFullYear()} ${escapeHtml(
+                      branding.name
+                    )}</p>`
+                  : `<p>Need help? Contact our support team at support@PrecuityAI.com</p>
+              <p>&copy; ${new Date().getFullYear()} PrecuityAI. All rights reserved.</p>`
+              }
+            </div>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+}
+
+type InvitationEmailData = {
+  email: string;
+  token: string;
+  role: string;
+  message: string | null;
+  expiresAt: Date;
+  organization: BrandedOrganization;
+  sender: { name: string; email: string };
+};
+
+function buildInvitationEmail(
+  invitation: InvitationEmailData
+): CreateEmailOptions {
+  const branding = getOrganizationBranding(invitation.organization);
+  const organizationName = escapeHtml(branding.name);
+  const senderName = escapeHtml(
+    invitation.sender.name || invitation.sender.email
+  );
+  const inviteUrl = `${env.BETTER_AUTH_URL}/invite/${invitation.token}`;
+
+  return {
+    from: getEmailFrom(branding),
+    to: [invitation.email],
+    subject: `${invitation.sender.name || "You"} invited you to join ${
+      branding.name
+    }`,
+    html: renderEmailLayout({
+      branding,
+      title: "You're invited! 🎉",
+      subtitle: `Join ${organizationName}`,
+      content: `
+        <h2>Hello!</h2>
+
+        <p><strong>${senderName}</strong> has invited you to join <strong>${organizationName}</strong> as ${invitation.role.toLowerCase()}.</p>
+
+        ${
+          invitation.message
+            ? `<div class="info-box"><strong>Message from ${senderName}:</strong><br>${escapeHtml(
+                invitation.message
+              )}</div>`
+            : ""
+        }
+
+        <center>
+          <a href="${inviteUrl}" class="button">Accept Invitation</a>
+        </center>
+
+        <p><small>This invitation expires on ${invitation.expiresAt.toDateString()}. If the button does not work, copy this link into your browser: ${inviteUrl}</small></p>
+
+        <p>If you were not expecting this invitation, you can safely ignore this email.</p>
+      `,
+    }),
+  };
+}
+
+export async function sendInvitationEmail(invitation: InvitationEmailData) {
+  const { error } = await resend.emails.send(buildInvitationEmail(invitation));
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+// Resend accepts at most 100 emails per batch request
+export async function sendInvitationEmails(invitations: InvitationEmailData[]) {
+  for (let i = 0; i < invitations.length; i += 100) {
+    const { error } = await resend.batch.send(
+      invitations.slice(i, i + 100).map(buildInvitationEmail)
+    );
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+}
+
+export async function sendInvitationCourseReportEmail({
+  sender,
+  memberEmail,
+  organizationName,
+  failedCourses,
+}: {
+  sender: { name: string; email: string };
+  memberEmail: string;
+  organizationName: string;
+  failedCourses: { title: string; message: string }[];
+}) {
+  await resend.emails.send({
+    from: EMAIL_FROM,
+    to: [sender.email],
+    subject: `Some courses could not be assigned to ${memberEmail}`,
+    html: renderEmailLayout({
+      title: organizationName,
+      subtitle: "Invitation accepted",
+      content: `
+        <h2>Hello ${escapeHtml(sender.name || sender.email)},</h2>
+
+        <p><strong>${escapeHtml(
+          memberEmail
+        )}</strong> accepted your invitation and joined ${escapeHtml(
+        organizationName
+      )}. The following courses from the invitation could not be assigned:</p>
+
+        <ul>
+          ${failedCourses
+            .map(
+              (course) =>
+                `<li><strong>${escapeHtml(course.title)}</strong>: ${escapeHtml(
+                  course.message
+                )}</li>`
+            )
+            .join("")}
+        </ul>
+
+        <div class="info-box">
+          Buy more seats or extend the license, then assign the course from the licenses page.
+        </div>
+
+        <center>
+          <a href="${
+            env.BETTER_AUTH_URL
+          }/org/licenses" class="button">Manage Licenses</a>
+        </center>
+      `,
+    }),
+  });
+}
+
+export async function sendJoinRequestDecisionEmail({
+  email,
+  name,
+  organization,
+  approved,
+  reason,
+}: {
+  email: string;
+  name: string;
+  organization: BrandedOrganization;
+  approved: boolean;
+  reason?: string | null;
+}) {
+  const branding = getOrganizationBranding(organization);
+  const organizationName = branding.name;
+
+  const { error } = await resend.emails.send({
+    from: getEmailFrom(branding),
+    to: [email],
+    subject: approved
+      ? `Welcome to ${organizationName}`
+      : `Your request to join ${organizationName}`,
+    html: renderEmailLayout({
+      branding,
+      title: escapeHtml(organizationName),
+      subtitle: approved ? "Join request approved" : "Join request declined",
+      content: `
+        <h2>Hello ${escapeHtml(name || email)},</h2>
+
+        <p>${
+          approved
+            ? `Your request to join <strong>${escapeHtml(
+                organizationName
+              )}</strong> has been approved. You now have access to your organization's courses.`
+            : `Your request to join <strong>${escapeHtml(
+                organizationName
+              )}</strong> has been declined.`
+        }</p>
+
+        ${
+          reason
+            ? `<div class="info-box"><strong>Reason:</strong><br>${escapeHtml(
+                reason
+              )}</div>`
+            : ""
+        }
+
+        ${
+          approved
+            ? `<center><a href="${env.BETTER_AUTH_URL}/dashboard" class="button">Go to Dashboard</a></center>`
+            : "<p>If you think this is a mistake, please contact your organization administrator.</p>"
+        }
+      `,
+    }),
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+export async function sendTrialReminderEmail({
+  email,
+  name,
+  organizationName,
+  daysLeft,
+  trialEndsAt,
+}: {
+  email: string;
+  name: string;
+  organizationName: string;
+  daysLeft: number;
+  trialEndsAt: Date;
+}) {
+  const { error } = await resend.emails.send({
+    from: EMAIL_FROM,
+    to: [email],
+    subject: `Your ${organizationName} trial ends in ${daysLeft} ${
+      daysLeft === 1 ? "day" : "days"
+    }`,
+    html: renderEmailLayout({
+      title: organizationName,
+      subtitle: "Your trial is ending soon",
+      content: `
+        <h2>Hello ${escapeHtml(name || email)},</h2>
+
+        <p>The free trial of <strong>${escapeHtml(
+          organizationName
+        )}</strong> ends on ${trialEndsAt.toDateString()}.</p>
+
+        <div class="info-box">
+          After the trial, your members lose access to the courses of your organization until you choose a plan.
+        </div>
+
+        <center>
+          <a href="${
+            env.BETTER_AUTH_URL
+          }/org/billing" class="button">Choose a Plan</a>
+        </center>
+      `,
+    }),
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+export async function sendTrialExpiredEmail({
+  email,
+  name,
+  organizationName,
+}: {
+  email: string;
+  name: string;
+  organizationName: string;
+}) {
+  const { error } = await resend.emails.send({
+    from: EMAIL_FROM,
+    to: [email],
+    subject: `Your ${organizationName} trial has ended`,
+    html: renderEmailLayout({
+      title: organizationName,
+      subtitle: "Your trial has ended",
+      content: `
+        <h2>Hello ${escapeHtml(name || email)},</h2>
+
+        <p>The free trial of <strong>${escapeHtml(
+          organizationName
+        )}</strong> has ended and your organization has been suspended. Your members keep their progress, but cannot continue learning until you choose a plan.</p>
+
+        <center>
+          <a href="${
+            env.BETTER_AUTH_URL
+          }/org/billing" class="button">Reactivate Organization</a>
+        </center>
+      `,
+    }),
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+export async function sendAssignmentReminderEmail({
+  email,
+  name,
+  organization,
+  courseTitle,
+  courseSlug,
+  dueDate,
+  overdue,
+}: {
+  email: string;
+  name: string;
+  organization: BrandedOrganization;
+  courseTitle: string;
+  courseSlug: string;
+  dueDate: Date;
+  overdue: boolean;
+}) {
+  const branding = getOrganizationBranding(organization);
+
+  const { error } = await resend.emails.send({
+    from: getEmailFrom(branding),
+    to: [email],
+    subject: overdue
+      ? `Overdue: ${courseTitle}`
+      : `Reminder: ${courseTitle} is due on ${dueDate.toDateString()}`,
+    html: renderEmailLayout({
+      branding,
+      title: escapeHtml(branding.name),
+      subtitle: overdue
+        ? "Assigned course overdue"
+        : "Assigned course due soon",
+      content: `
+        <h2>Hello ${escapeHtml(name || email)},</h2>
+
+        <p>${escapeHtml(
+          branding.name
+        )} assigned you the course <strong>${escapeHtml(
+        courseTitle
+      )}</strong>, which ${
+        overdue ? "was" : "is"
+      } due on ${dueDate.toDateString()}.</p>
+
+        <div class="info-box">
+          ${
+            overdue
+              ? "The due date has passed. Please complete the remaining lessons as soon as possible."
+              : "Complete the remaining lessons before the due date."
+          }
+        </div>
+
+        <center>
+          <a href="${
+            env.BETTER_AUTH_URL
+          }/dashboard/${courseSlug}" class="button">Continue Course</a>
+        </center>
+      `,
+    }),
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+// Tells organization admins which learners were reminded about an assignment
+export async function sendAssignmentDigestEmail({
+  email,
+  name,
+  organization,
+  courseTitle,
+  dueDate,
+  overdue,
+  learners,
+}: {
+  email: string;
+  name: string;
+  organization: BrandedOrganization;
+  courseTitle: string;
+  dueDate: Date;
+  overdue: boolean;
+  learners: { name: string; email: string }[];
+}) {
+  const branding = getOrganizationBranding(organization);
+
+  const { error } = await resend.emails.send({
+    from: getEmailFrom(branding),
+    to: [email],
+    subject: overdue
+      ? `${learners.length} ${
+          learners.length === 1 ? "learner is" : "learners are"
+        } overdue on ${courseTitle}`
+      : `${learners.length} ${
+          learners.length === 1 ? "learner has" : "learners have"
+        } not completed ${courseTitle} yet`,
+    html: renderEmailLayout({
+      branding,
+      title: escapeHtml(branding.name),
+      subtitle: overdue ? "Overdue assignment" : "Assignment due soon",
+      content: `
+        <h2>Hello ${escapeHtml(name || email)},</h2>
+
+        <p>The following members have not completed <strong>${escapeHtml(
+          courseTitle
+        )}</strong>, which ${
+        overdue ? "was" : "is"
+      } due on ${dueDate.toDateString()}. We sent each of them a reminder.</p>
+
+        <ul>
+          ${learners
+            .map(
+              (learner) =>
+                `<li>${escapeHtml(learner.name || learner.email)} (${escapeHtml(
+                  learner.email
+                )})</li>`
+            )
+            .join("")}
+        </ul>
+
+        <center>
+          <a href="${
+            env.BETTER_AUTH_URL
+          }/org/assignments" class="button">View Assignments</a>
+        </center>
+      `,
+    }),
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+export async function sendInactivityWarningEmail({
+  email,
+  name,
+  organization,
+  deactivationDate,
+}: {
+  email: string;
+  name: string;
+  organization: BrandedOrganization;
+  deactivationDate: Date;
+}) {
+  const branding = getOrganizationBranding(organization);
+
+  const { error } = await resend.emails.send({
+    from: getEmailFrom(branding),
+    to: [email],
+    subject: `Your ${
+      branding.name
+    } seat will be released on ${deactivationDate.toDateString()}`,
+    html: renderEmailLayout({
+      branding,
+      title: escapeHtml(branding.name),
+      subtitle: "We miss you",
+      content: `
+        <h2>Hello ${escapeHtml(name || email)},</h2>
+
+        <p>You have not signed in or continued a course at <strong>${escapeHtml(
+          branding.name
+        )}</strong> for a while. To keep seats available for active learners, your seat will be released on ${deactivationDate.toDateString()}.</p>
+
+        <div class="info-box">
+          Sign in before that date to keep your seat. Your progress is kept either way, and an administrator can reactivate you later.
+        </div>
+
+        <center>
+          <a href="${
+            env.BETTER_AUTH_URL
+          }/dashboard" class="button">Continue Learning</a>
+        </center>
+      `,
+    }),
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
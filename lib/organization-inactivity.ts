@@ -0,0 +1,448 @@
+import "server-only";
+
+import { prisma } from "./db";
+import { OrganizationRole, OrganizationStatus } from "./generated/prisma";
+import { releaseMemberLicenseSeats } from "./license-seats";
+import { sendInactivityWarningEmail } from "./organization-emails";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Members are warned this many days before the policy deactivates them
+export const INACTIVITY_WARNING_DAYS = 7;
+
+export type InactiveMember = {
+  membershipId: string;
+  userId: string;
+  name: string;
+  email: string;
+  role: OrganizationRole;
+  joinedAt: Date;
+  lastSignInAt: Date | null;
+  lastLearningAt: Date | null;
+  lastActivityAt: Date | null;
+  inactivityWarningSentAt: Date | null;
+};
+
+// Members without a session and without lesson progress in the last `days`
+// days. Members who joined within that period are never inactive and the owner
+// always keeps their seat.
+export async function getInactiveMembers(
+  organizationId: string,
+  days: number,
+  now: Date = new Date()
+): Promise<InactiveMember[]> {
+  const cutoff = new Date(now.getTime() - days * DAY);
+
+  const memberships = await prisma.organizationMembership.findMany({
+    where: {
+      organizationId: organizationId,
+      role: {
+        not: OrganizationRole.OWNER,
+      },
+      joinedAt: {
+        lt: cutoff,
+      },
+    },
+    select: {
+      id: true,
+      role: true,
+      joinedAt: true,
+      inactivityWarningSentAt: true,
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+  });
+
+  const userIds = memberships.map((membership) => membership.user.id);
+
+  const [sessions, progress] = await Promise.all([
+    prisma.session.groupBy({
+      by: ["userId"],
+      where: {
+        userId: {
+          in: userIds,
+        },
+      },
+      _max: {
+        updatedAt: true,
+      },
+    }),
+    prisma.lessonProgress.groupBy({
+      by: ["userId"],
+      where: {
+        userId: {
+          in: userIds,
+        },
+      },
+      _max: {
+        updatedAt: true,
+      },
+    }),
+  ]);
+
+  const lastSignIn = new Map(
+    sessions.map((entry) => [entry.userId, entry._max.updatedAt])
+  );
+  const lastLearning = new Map(
+    progress.map((entry) => [entry.userId, entry._max.updatedAt])
+  );
+
+  return memberships
+    .map((membership) => {
+      const lastSignInAt = lastSignIn.get(membership.user.id) ?? null;
+      const lastLearningAt = lastLearning.get(membership.user.id) ?? null;
+      const lastActivityAt =
+        lastSignInAt && lastLearningAt
+          ? new Date(Math.max(lastSignInAt.getTime(), lastLearningAt.getTime()))
+          : lastSignInAt ?? lastLearningAt;
+
+      return {
+        membershipId: membership.id,
+        userId: membership.user.id,
+        name: membership.user.name,
+        email: membership.user.email,
+        role: membership.role,
+        joinedAt: membership.joinedAt,
+        lastSignInAt,
+        lastLearningAt,
+        lastActivityAt,
+        inactivityWarningSentAt: membership.inactivityWarningSentAt,
+      };
+    })
+    .filter(
+      (member) => !member.lastActivityAt || member.lastActivityAt < cutoff
+    )
+    .sort(
+      (a, b) =>
+        (a.lastActivityAt ?? a.joinedAt).getTime() -
+        (b.lastActivityAt ?? b.joinedAt).getTime()
+    );
+}
+
+export type DeactivationResult =
+  | { success: true }
+  | { success: false; message: string };
+
+// Frees the seat of a member and gives their license seats back. Progress and
+// activity stay, the role and groups are kept for a later reactivation.
+export async function deactivateOrganizationMember({
+  organizationId,
+  userId,
+  deactivatedBy,
+  reason,
+}: {
+  organizationId: string;
+  userId: string;
+  deactivatedBy: string | null;
+  reason: "manual" | "inactivity";
+}): Promise<DeactivationResult> {
+  const result: DeactivationResult = await prisma.$transaction(async (tx) => {
+    const membership = await tx.organizationMembership.findUnique({
+      where: {
+        organizationId_userId: {
+          organizationId: organizationId,
+          userId: userId,
+        },
+      },
+      include: {
+        groups: {
+          select: {
+            groupId: true,
+          },
+        },
+      },
+    });
+
+    if (!membership) {
+      return { success: false, message: "Member not found in organization" };
+    }
+
+    if (membership.role === OrganizationRole.OWNER) {
+      return {
+        success: false,
+        message: "The organization owner cannot be deactivated",
+      };
+    }
+
+    const deactivation = {
+      role: membership.role,
+      groupIds: membership.groups.map((group) => group.groupId),
+      reason: reason,
+      deactivatedById: deactivatedBy,
+      deactivatedAt: new Date(),
+    };
+
+    await tx.organizationDeactivatedMember.upsert({
+      where: {
+        organizationId_userId: {
+          organizationId: organizationId,
+          userId: userId,
+        },
+      },
+      create: {
+        ...deactivation,
+        organizationId: organizationId,
+        userId: userId,
+      },
+      update: deactivation,
+    });
+
+    await tx.organizationMembership.delete({
+      where: {
+        id: membership.id,
+      },
+    });
+
+    await tx.organizationActivity.create({
+      data: {
+        organizationId: organizationId,
+        userId: deactivatedBy,
+        action: "member_deactivated",
+        entityType: "user",
+        entityId: userId,
+        metadata: { reason: reason, role: membership.role },
+      },
+    });
+
+    return { success: true };
+  });
+
+  if (result.success) {
+    await releaseMemberLicenseSeats({
+      organizationId: organizationId,
+      userId: userId,
+      revokedBy: deactivatedBy,
+    });
+  }
+
+  return result;
+}
+
+// Gives a deactivated member their seat, role and groups back. The membership
+// starts over, so the inactivity policy gives them a full period again.
+export async function reactivateOrganizationMember({
+  organizationId,
+  userId,
+  reactivatedBy,
+}: {
+  organizationId: string;
+  userId: string;
+  reactivatedBy: string;
+}): Promise<DeactivationResult> {
+  return prisma.$transaction(async (tx) => {
+    const [deactivated, organization, memberCount] = await Promise.all([
+      tx.organizationDeactivatedMember.findUnique({
+        where: {
+          organizationId_userId: {
+            organizationId: organizationId,
+            userId: userId,
+          },
+        },
+      }),
+      tx.organization.findUniqueOrThrow({
+        where: {
+          id: organizationId,
+        },
+        select: {
+          maxSeats: true,
+        },
+      }),
+      tx.organizationMembership.count({
+        where: {
+          organizationId: organizationId,
+        },
+      }),
+    ]);
+
+    if (!deactivated) {
+      return { success: false, message: "Deactivated member not found" };
+    }
+
+    if (memberCount >= organization.maxSeats) {
+      return {
+        success: false,
+        message: "Organization has reached maximum seat limit",
+      };
+    }
+
+    const groups = await tx.organizationGroup.findMany({
+      where: {
+        organizationId: organizationId,
+        id: {
+          in: deactivated.groupIds,
+        },
+      },
+      select: {
+        id: true,
+      },
+    });
+
+    await tx.organizationMembership.create({
+      data: {
+        organizationId: organizationId,
+        userId: userId,
+        role: deactivated.role,
+        groups: {
+          create: groups.map((group) => ({ groupId: group.id })),
+        },
+      },
+    });
+
+    await tx.organizationDeactivatedMember.delete({
+      where: {
+        id: deactivated.id,
+      },
+    });
+
+    await tx.organizationActivity.create({
+      data: {
+        organizationId: organizationId,
+        userId: reactivatedBy,
+        action: "member_reactivated",
+        entityType: "user",
+        entityId: userId,
+        metadata: { role: deactivated.role },
+      },
+    });
+
+    return { success: true };
+  });
+}
+
+export type InactivityJobResult = {
+  warningsSent: number;
+  deactivated: number;
+  failures: number;
+};
+
+// Run once a day for organizations with an inactivity policy: members inactive
+// for the policy period minus INACTIVITY_WARNING_DAYS get a warning email, and
+// members still inactive INACTIVITY_WARNING_DAYS after their warning lose their
+// seat. Activity after the warning clears it on the next run.
+export async function processInactiveMembers(
+  now: Date = new Date()
+): Promise<InactivityJobResult> {
+  const result: InactivityJobResult = {
+    warningsSent: 0,
+    deactivated: 0,
+    failures: 0,
+  };
+
+  const organizations = await prisma.organization.findMany({
+    where: {
+      autoDeactivateAfterDays: {
+        not: null,
+      },
+      status: {
+        in: [OrganizationStatus.ACTIVE, OrganizationStatus.TRIAL],
+      },
+    },
+  });
+
+  for (const organization of organizations) {
+    const policyDays = organization.autoDeactivateAfterDays as number;
+
+    try {
+      const inactive = await getInactiveMembers(
+        organization.id,
+        Math.max(policyDays - INACTIVITY_WARNING_DAYS, 1),
+        now
+      );
+      const inactiveIds = new Set(
+        inactive.map((member) => member.membershipId)
+      );
+
+      // Members who became active again start over
+      await prisma.organizationMembership.updateMany({
+        where: {
+          organizationId: organization.id,
+          inactivityWarningSentAt: {
+            not: null,
+          },
+          id: {
+            notIn: [...inactiveIds],
+          },
+        },
+        data: {
+          inactivityWarningSentAt: null,
+        },
+      });
+
+      for (const member of inactive) {
+        const warnedAt =
+          member.inactivityWarningSentAt &&
+          (!member.lastActivityAt ||
+            member.inactivityWarningSentAt > member.lastActivityAt)
+            ? member.inactivityWarningSentAt
+            : null;
+
+        if (!warnedAt) {
+          const deactivationDate = new Date(
+            now.getTime() + INACTIVITY_WARNING_DAYS * DAY
+          );
+
+          await sendInactivityWarningEmail({
+            email: member.email,
+            name: member.name,
+            organization: organization,
+            deactivationDate: deactivationDate,
+          });
+
+          await prisma.organizationMembership.update({
+            where: {
+              id: member.membershipId,
+            },
+            data: {
+              inactivityWarningSentAt: now,
+            },
+          });
+
+          await prisma.organizationActivity.create({
+            data: {
+              organizationId: organization.id,
+              action: "inactivity_warning_sent",
+              entityType: "user",
+              entityId: member.userId,
+              metadata: {
+                lastActivityAt: member.lastActivityAt,
+                deactivationDate: deactivationDate,
+              },
+            },
+          });
+
+          result.warningsSent++;
+          continue;
+        }
+
+        if (
+          now.getTime() - warnedAt.getTime() >=
+          INACTIVITY_WARNING_DAYS * DAY
+        ) {
+          const deactivation = await deactivateOrganizationMember({
+            organizationId: organization.id,
+            userId: member.userId,
+            deactivatedBy: null,
+            reason: "inactivity",
+          });
+
+          if (deactivation.success) {
+            result.deactivated++;
+          }
+        }
+      }
+    } catch (error) {
+      result.failures++;
+      console.error(
+        `Failed to process inactive members of organization ${organization.id}:`,
+        error
+      );
+    }
+  }
+
+  return result;
+}
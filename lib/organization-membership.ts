@@ -0,0 +1,64 @@
+import { prisma } from "./db";
+
+// Resolves the organization a user is working in: the active organization of
+// their session while they are still a member of it, otherwise the
+// organization they joined first
+export async function getActiveMembership(
+  userId: string,
+  activeOrganizationId?: string | null
+) {
+  if (activeOrganizationId) {
+    const membership = await prisma.organizationMembership.findUnique({
+      where: {
+        organizationId_userId: {
+          organizationId: activeOrganizationId,
+          userId: userId,
+        },
+      },
+      include: {
+        organization: true,
+        user: true,
+      },
+    });
+
+    if (membership) {
+      return membership;
+    }
+  }
+
+  return prisma.organizationMembership.findFirst({
+    where: {
+      userId: userId,
+    },
+    include: {
+      organization: true,
+      user: true,
+    },
+    orderBy: {
+      joinedAt: "asc",
+    },
+  });
+}
+
+export type ActiveMembership = NonNullable<
+  Awaited<ReturnType<typeof getActiveMembership>>
+>;
+
+export async function isOrganizationMember(
+  organizationId: string,
+  userId: string
+) {
+  const membership = await prisma.organizationMembership.findUnique({
+    where: {
+      organizationId_userId: {
+        organizationId: organizationId,
+        userId: userId,
+      },
+    },
+    select: {
+      id: true,
+    },
+  });
+
+  return !!membership;
+}
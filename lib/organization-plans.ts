@@ -0,0 +1,42 @@
+export type OrganizationPlanInterval = "MONTHLY" | "YEARLY";
+
+export type OrganizationPlan = {
+  id: string;
+  name: string;
+  description: string;
+  features: string[];
+  // Price per seat in cents for each billing interval
+  seatAmount: Record<OrganizationPlanInterval, number>;
+  minimumSeats: number;
+};
+
+export const organizationPlans: OrganizationPlan[] = [
+  {
+    id: "team",
+    name: "Team",
+    description: "For small teams getting started with shared learning.",
+    features: [
+      "Member management and invitations",
+      "Team progress reports",
+      "Email support",
+    ],
+    seatAmount: { MONTHLY: 1500, YEARLY: 15000 },
+    minimumSeats: 5,
+  },
+  {
+    id: "business",
+    name: "Business",
+    description: "For larger organizations that need more control.",
+    features: [
+      "Everything in Team",
+      "Domain based auto-join",
+      "Priority support",
+    ],
+    seatAmount: { MONTHLY: 2500, YEARLY: 25000 },
+    minimumSeats: 20,
+  },
+];
+
+export function getOrganizationPlan(planId: string | null | undefined) {
+  return organizationPlans.find((plan) => plan.id === planId) ?? null;
+}
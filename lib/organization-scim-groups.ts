@@ -0,0 +1,283 @@
+import { prisma } from "./db";
+import { OrganizationRole } from "./generated/prisma";
+import { scimActivityMetadata, type ScimToken } from "./organization-scim";
+import {
+  ScimError,
+  ScimFilter,
+  ScimPatchOperation,
+  SCIM_GROUP_SCHEMA,
+  scimBaseUrl,
+} from "./scim";
+
+// SCIM groups are the fixed organization roles. Pushing a user into a group
+// changes their role; the owner group is read-only.
+const scimGroups = [
+  { id: "owners", displayName: "Owners", role: OrganizationRole.OWNER },
+  { id: "admins", displayName: "Admins", role: OrganizationRole.ADMIN },
+  { id: "members", displayName: "Members", role: OrganizationRole.MEMBER },
+] as const;
+
+type ScimGroup = (typeof scimGroups)[number];
+
+function findScimGroup(groupId: string) {
+  const group = scimGroups.find((entry) => entry.id === groupId);
+
+  if (!group) {
+    throw new ScimError(404, "Group not found");
+  }
+
+  return group;
+}
+
+async function toScimGroup(
+  organizationId: string,
+  group: ScimGroup,
+  includeMembers: boolean
+) {
+  const memberships = includeMembers
+    ? await prisma.organizationMembership.findMany({
+        where: { organizationId, role: group.role },
+        select: { user: { select: { id: true, name: true } } },
+        orderBy: { joinedAt: "asc" },
+      })
+    : [];
+
+  return {
+    schemas: [SCIM_GROUP_SCHEMA],
+    id: group.id,
+    displayName: group.displayName,
+    members: includeMembers
+      ? memberships.map(({ user }) => ({
+          value: user.id,
+          display: user.name,
+          $ref: `${scimBaseUrl}/Users/${user.id}`,
+        }))
+      : undefined,
+    meta: {
+      resourceType: "Group",
+      location: `${scimBaseUrl}/Groups/${group.id}`,
+    },
+  };
+}
+
+export async function listScimGroups(
+  organizationId: string,
+  {
+    filter,
+    startIndex,
+    count,
+    includeMembers,
+  }: {
+    filter: ScimFilter | null;
+    startIndex: number;
+    count: number;
+    includeMembers: boolean;
+  }
+) {
+  const attribute = filter?.attribute.toLowerCase();
+
+  if (attribute && attribute !== "displayname" && attribute !== "id") {
+    throw new ScimError(
+      400,
+      `Filtering by ${filter?.attribute} is not supported`,
+      "invalidFilter"
+    );
+  }
+
+  const groups = scimGroups.filter(
+    (group) =>
+      !filter ||
+      (attribute === "id"
+        ? group.id === filter.value
+        : group.displayName.toLowerCase() === filter.value.toLowerCase())
+  );
+
+  return {
+    resources: await Promise.all(
+      groups
+        .slice(startIndex - 1, startIndex - 1 + count)
+        .map((group) => toScimGroup(organizationId, group, includeMembers))
+    ),
+    totalResults: groups.length,
+    startIndex,
+  };
+}
+
+export async function getScimGroup(
+  organizationId: string,
+  groupId: string,
+  includeMembers = true
+) {
+  return toScimGroup(organizationId, findScimGroup(groupId), includeMembers);
+}
+
+function getMemberIds(value: unknown) {
+  const members = Array.isArray(value)
+    ? value
+    : (value as { members?: unknown })?.members ?? [];
+
+  if (!Array.isArray(members)) {
+    throw new ScimError(400, "Invalid group members", "invalidValue");
+  }
+
+  return members.map((member: { value?: unknown }) => String(member?.value));
+}
+
+// Moves the given members into the role of the group
+async function setMemberRoles(
+  token: ScimToken,
+  userIds: string[],
+  role: OrganizationRole
+) {
+  if (userIds.length === 0) {
+    return;
+  }
+
+  const memberships = await prisma.organizationMembership.findMany({
+    where: { organizationId: token.organizationId, userId: { in: userIds } },
+  });
+
+  if (memberships.length !== new Set(userIds).size) {
+    throw new ScimError(
+      400,
+      "Only active members can be added to a group",
+      "invalidValue"
+    );
+  }
+
+  const changed = memberships.filter((membership) => membership.role !== role);
+
+  if (
+    changed.some((membership) => membership.role === OrganizationRole.OWNER)
+  ) {
+    throw new ScimError(
+      400,
+      "The role of the organization owner cannot be changed",
+      "mutability"
+    );
+  }
+
+  await prisma.$transaction([
+    ...changed.map((membership) =>
+      prisma.organizationMembership.update({
+        where: { id: membership.id },
+        data: { role },
+      })
+    ),
+    prisma.organizationActivity.createMany({
+      data: changed.map((membership) => ({
+        organizationId: token.organizationId,
+        action: "member_role_updated",
+        entityType: "user",
+        entityId: membership.userId,
+        metadata: scimActivityMetadata(token, {
+          previousRole: membership.role,
+          newRole: role,
+        }),
+      })),
+    }),
+  ]);
+}
+
+// Users removed from the admin group fall back to regular members. Every
+// member is in exactly one group, so removing from the member group is a no-op.
+async function removeGroupMembers(
+  token: ScimToken,
+  group: ScimGroup,
+  userIds: string[]
+) {
+  if (group.role !== OrganizationRole.ADMIN || userIds.length === 0) {
+    return;
+  }
+
+  const admins = await prisma.organizationMembership.findMany({
+    where: {
+      organizationId: token.organizationId,
+      role: OrganizationRole.ADMIN,
+      userId: { in: userIds },
+    },
+    select: { userId: true },
+  });
+
+  await setMemberRoles(
+    token,
+    admins.map((admin) => admin.userId),
+    OrganizationRole.MEMBER
+  );
+}
+
+async function replaceGroupMembers(
+  token: ScimToken,
+  group: ScimGroup,
+  userIds: string[]
+) {
+  const current = await prisma.organizationMembership.findMany({
+    where: { organizationId: token.organizationId, role: group.role },
+    select: { userId: true },
+  });
+
+  await removeGroupMembers(
+    token,
+    group,
+    current
+      .map((membership) => membership.userId)
+      .filter((userId) => !userIds.includes(userId))
+  );
+  await setMemberRoles(token, userIds, group.role);
+}
+
+function assertWritable(group: ScimGroup) {
+  if (group.role === OrganizationRole.OWNER) {
+    throw new ScimError(
+      400,
+      "The owner group cannot be changed through SCIM",
+      "mutability"
+    );
+  }
+}
+
+export async function replaceScimGroup(
+  token: ScimToken,
+  groupId: string,
+  body: unknown
+) {
+  const group = findScimGroup(groupId);
+  assertWritable(group);
+
+  await replaceGroupMembers(token, group, getMemberIds(body));
+
+  return getScimGroup(token.organizationId, groupId);
+}
+
+export async function patchScimGroup(
+  token: ScimToken,
+  groupId: string,
+  operations: ScimPatchOperation[]
+) {
+  const group = findScimGroup(groupId);
+  assertWritable(group);
+
+  for (const operation of operations) {
+    const path = operation.path ?? "";
+    // e.g. members[value eq "2819c223-7f76-453a-919d-413861904646"]
+    const filteredMember = path.match(/^members\[value eq "(.+)"\]$/i)?.[1];
+
+    if (filteredMember && operation.op === "remove") {
+      await removeGroupMembers(token, group, [filteredMember]);
+    } else if (path && path.toLowerCase() !== "members") {
+      // displayName and other attributes are fixed
+      continue;
+    } else if (operation.op === "add") {
+      await setMemberRoles(token, getMemberIds(operation.value), group.role);
+    } else if (operation.op === "remove") {
+      await removeGroupMembers(token, group, getMemberIds(operation.value));
+    } else if (
+      path ||
+      (operation.value as { members?: unknown } | undefined)?.members
+    ) {
+      await replaceGroupMembers(token, group, getMemberIds(operation.value));
+    }
+  }
+
+  return getScimGroup(token.organizationId, groupId);
+}
@@ -0,0 +1,665 @@
+import { createHash, randomBytes } from "node:crypto";
+import { z } from "zod";
+import { prisma } from "./db";
+import { InvitationStatus, OrganizationRole, Prisma } from "./generated/prisma";
+import { releaseMemberLicenseSeats } from "./license-seats";
+import { getEmailDomain } from "./organization-domain-join";
+import { isDomainVerified } from "./organization-domains";
+import { sendInvitationEmail } from "./organization-emails";
+import { isOrganizationActive } from "./organization-status";
+import {
+  ScimError,
+  ScimFilter,
+  ScimPatchOperation,
+  SCIM_USER_SCHEMA,
+  scimBaseUrl,
+  scimErrorResponse,
+  toScimBoolean,
+} from "./scim";
+
+export function generateScimToken() {
+  return `scim_${randomBytes(32).toString("base64url")}`;
+}
+
+export function hashScimToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export type ScimToken = NonNullable<
+  Awaited<ReturnType<typeof authenticateScimToken>>
+>;
+
+// Resolves the `Authorization: Bearer <token>` header of a SCIM request
+export async function authenticateScimToken(authorization: string | null) {
+  const token = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+
+  if (!token) {
+    return null;
+  }
+
+  const scimToken = await prisma.organizationScimToken.findUnique({
+    where: { tokenHash: hashScimToken(token) },
+    include: { organization: true },
+  });
+
+  if (!scimToken) {
+    return null;
+  }
+
+  await prisma.organizationScimToken.update({
+    where: { id: scimToken.id },
+    data: { lastUsedAt: new Date() },
+  });
+
+  return scimToken;
+}
+
+// Authenticates a SCIM API request and turns thrown ScimErrors into SCIM
+// error responses
+export async function handleScimRequest(
+  request: Request,
+  handler: (token: ScimToken) => Promise<Response>
+) {
+  try {
+    const token = await authenticateScimToken(
+      request.headers.get("Authorization")
+    );
+
+    if (!token) {
+      throw new ScimError(401, "Invalid or missing bearer token");
+    }
+
+    return await handler(token);
+  } catch (error) {
+    if (error instanceof ScimError) {
+      return scimErrorResponse(error);
+    }
+
+    console.error("SCIM request failed:", error);
+    return scimErrorResponse(new ScimError(500, "Internal server error"));
+  }
+}
+
+const scimUserSchema = z.object({
+  userName: z.string().min(1),
+  externalId: z.string().optional(),
+  displayName: z.string().optional(),
+  name: z
+    .object({
+      formatted: z.string().optional(),
+      givenName: z.string().optional(),
+      familyName: z.string().optional(),
+    })
+    .optional(),
+  emails: z
+    .array(
+      z.object({
+        value: z.string(),
+        primary: z.unknown().optional(),
+      })
+    )
+    .optional(),
+  active: z.unknown().optional(),
+});
+
+type ScimUserInput = z.infer<typeof scimUserSchema>;
+
+function parseScimUser(body: unknown): ScimUserInput {
+  const result = scimUserSchema.safeParse(body);
+
+  if (!result.success) {
+    throw new ScimError(400, "Invalid user resource", "invalidValue");
+  }
+
+  return result.data;
+}
+
+function getScimUserEmail(input: ScimUserInput) {
+  const email =
+    (
+      input.emails?.find((entry) => toScimBoolean(entry.primary)) ??
+      input.emails?.[0]
+    )?.value ?? input.userName;
+
+  if (!z.string().email().safeParse(email).success) {
+    throw new ScimError(
+      400,
+      "userName must be an email address",
+      "invalidValue"
+    );
+  }
+
+  return email.toLowerCase();
+}
+
+function getScimUserName(input: ScimUserInput, email: string) {
+  const fullName = [input.name?.givenName, input.name?.familyName]
+    .filter(Boolean)
+    .join(" ");
+
+  return (
+    input.displayName ||
+    input.name?.formatted ||
+    fullName ||
+    email.split("@")[0]
+  );
+}
+
+function scimUserInclude(organizationId: string) {
+  return {
+    organizationMemberships: { where: { organizationId } },
+    scimIdentities: { where: { organizationId } },
+  } satisfies Prisma.UserInclude;
+}
+
+type ScimUserRecord = Prisma.UserGetPayload<{
+  include: ReturnType<typeof scimUserInclude>;
+}>;
+
+function toScimUser(user: ScimUserRecord) {
+  return {
+    schemas: [SCIM_USER_SCHEMA],
+    id: user.id,
+    externalId: user.scimIdentities[0]?.externalId ?? undefined,
+    userName: user.email,
+    displayName: user.name,
+    name: { formatted: user.name },
+    emails: [{ value: user.email, type: "work", primary: true }],
+    active: user.organizationMemberships.length > 0,
+    meta: {
+      resourceType: "User",
+      created: user.createdAt.toISOString(),
+      lastModified: user.updatedAt.toISOString(),
+      location: `${scimBaseUrl}/Users/${user.id}`,
+    },
+  };
+}
+
+// Members of the organization plus users it deactivated through SCIM
+function scimUserScope(organizationId: string): Prisma.UserWhereInput {
+  return {
+    OR: [
+      { organizationMemberships: { some: { organizationId } } },
+      { scimIdentities: { some: { organizationId } } },
+    ],
+  };
+}
+
+function scimUserFilter(
+  organizationId: string,
+  filter: ScimFilter | null
+): Prisma.UserWhereInput {
+  if (!filter) {
+    return {};
+  }
+
+  switch (filter.attribute.toLowerCase()) {
+    case "id":
+      return { id: filter.value };
+    case "username":
+    case "emails.value":
+      return { email: { equals: filter.value, mode: "insensitive" } };
+    case "externalid":
+      return {
+        scimIdentities: {
+          some: { organizationId, externalId: filter.value },
+        },
+      };
+    default:
+      throw new ScimError(
+        400,
+        `Filtering by ${filter.attribute} is not supported`,
+        "invalidFilter"
+      );
+  }
+}
+
+export async function listScimUsers(
+  organizationId: string,
+  {
+    filter,
+    startIndex,
+    count,
+  }: { filter: ScimFilter | null; startIndex: number; count: number }
+) {
+  const where: Prisma.UserWhereInput = {
+    AND: [
+      scimUserScope(organizationId),
+      scimUserFilter(organizationId, filter),
+    ],
+  };
+
+  const [users, totalResults] = await Promise.all([
+    prisma.user.findMany({
+      where,
+      include: scimUserInclude(organizationId),
+      orderBy: { createdAt: "asc" },
+      skip: startIndex - 1,
+      take: count,
+    }),
+    prisma.user.count({ where }),
+  ]);
+
+  return { resources: users.map(toScimUser), totalResults, startIndex };
+}
+
+async function findScimUser(organizationId: string, userId: string) {
+  const user = await prisma.user.findFirst({
+    where: { AND: [{ id: userId }, scimUserScope(organizationId)] },
+    include: scimUserInclude(organizationId),
+  });
+
+  if (!user) {
+    throw new ScimError(404, "User not found");
+  }
+
+  return user;
+}
+
+export async function getScimUser(organizationId: string, userId: string) {
+  return toScimUser(await findScimUser(organizationId, userId));
+}
+
+async function assertFreeSeat(organization: ScimToken["organization"]) {
+  if (!isOrganizationActive(organization)) {
+    throw new ScimError(403, "Organization is not active");
+  }
+
+  const memberCount = await prisma.organizationMembership.count({
+    where: { organizationId: organization.id },
+  });
+
+  if (memberCount >= organization.maxSeats) {
+    throw new ScimError(403, "Organization has reached its seat limit");
+  }
+}
+
+export function scimActivityMetadata(token: ScimToken, metadata: object = {}) {
+  return { source: "scim", token: token.name, ...metadata };
+}
+
+// The identity provider may only provision addresses of domains the
+// organization proved it owns
+async function assertVerifiedDomain(organizationId: string, email: string) {
+  if (!(await isDomainVerified(organizationId, getEmailDomain(email)))) {
+    throw new ScimError(
+      403,
+      "The email domain is not verified for this organization"
+    );
+  }
+}
+
+// Accounts that existed before provisioning are invited instead of added, so
+// their owner decides whether to join. A pending invitation is left alone.
+async function inviteExistingAccount(token: ScimToken, email: string) {
+  const { organization } = token;
+
+  const existingInvitation = await prisma.organizationInvitation.findUnique({
+    where: {
+      organizationId_email: {
+        organizationId: organization.id,
+        email: email,
+      },
+    },
+  });
+
+  if (
+    existingInvitation?.status === InvitationStatus.PENDING &&
+    existingInvitation.expiresAt > new Date()
+  ) {
+    return;
+  }
+
+  const invitationData = {
+    role: OrganizationRole.MEMBER,
+    message: null,
+    // Invitations need a sender, the owner stands in for the identity provider
+    senderId: organization.ownerId,
+    courseIds: [],
+    groupIds: [],
+    status: InvitationStatus.PENDING,
+    expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+    acceptedAt: null,
+    rejectedAt: null,
+  };
+
+  const invitation = existingInvitation
+    ? await prisma.organizationInvitation.update({
+        where: { id: existingInvitation.id },
+        data: { ...invitationData, token: crypto.randomUUID() },
+        include: { sender: true },
+      })
+    : await prisma.organizationInvitation.create({
+        data: {
+          ...invitationData,
+          organizationId: organization.id,
+          email: email,
+        },
+        include: { sender: true },
+      });
+
+  await prisma.organizationActivity.create({
+    data: {
+      organizationId: organization.id,
+      action: "member_invited",
+      entityType: "invitation",
+      entityId: invitation.id,
+      metadata: scimActivityMetadata(token, {
+        email: email,
+        role: invitation.role,
+      }),
+    },
+  });
+
+  try {
+    await sendInvitationEmail({ ...invitation, organization });
+  } catch (error) {
+    console.error("Failed to send SCIM invitation email:", error);
+  }
+}
+
+export async function createScimUser(token: ScimToken, body: unknown) {
+  const input = parseScimUser(body);
+  const email = getScimUserEmail(input);
+  const active = input.active === undefined || toScimBoolean(input.active);
+  const { organization } = token;
+
+  const existing = await prisma.user.findUnique({
+    where: { email },
+    include: scimUserInclude(organization.id),
+  });
+
+  if (
+    existing &&
+    (existing.organizationMemberships.length > 0 ||
+      existing.scimIdentities.length > 0)
+  ) {
+    throw new ScimError(
+      409,
+      "User is already a member of this organization",
+      "uniqueness"
+    );
+  }
+
+  await assertVerifiedDomain(organization.id, email);
+
+  if (active) {
+    await assertFreeSeat(organization);
+  }
+
+  const userId = existing?.id ?? crypto.randomUUID();
+  // Existing accounts get an invitation instead of a membership
+  const addMember = active && !existing;
+
+  await prisma.$transaction([
+    ...(existing
+      ? []
+      : [
+          prisma.user.create({
+            data: {
+              id: userId,
+              email,
+              name: getScimUserName(input, email),
+              // The identity provider has verified the address
+              emailVerified: true,
+              createdAt: new Date(),
+              updatedAt: new Date(),
+            },
+          }),
+        ]),
+    prisma.organizationScimUser.create({
+      data: {
+        organizationId: organization.id,
+        userId,
+        externalId: input.externalId,
+        active,
+        createdAccount: !existing,
+      },
+    }),
+    ...(addMember
+      ? [
+          prisma.organizationMembership.create({
+            data: {
+              organizationId: organization.id,
+              userId,
+              role: OrganizationRole.MEMBER,
+            },
+          }),
+        ]
+      : []),
+    prisma.organizationActivity.create({
+      data: {
+        organizationId: organization.id,
+        action: addMember ? "member_joined" : "member_provisioned",
+        entityType: "user",
+        entityId: userId,
+        metadata: scimActivityMetadata(token, { email, active }),
+      },
+    }),
+  ]);
+
+  if (active && existing) {
+    await inviteExistingAccount(token, email);
+  }
+
+  return getScimUser(organization.id, userId);
+}
+
+// Name and external id changes only: the account itself, including its email
+// address, may be shared with other organizations
+async function updateScimUser(
+  token: ScimToken,
+  user: ScimUserRecord,
+  changes: { name?: string; externalId?: string | null; active?: boolean }
+) {
+  const { organization } = token;
+  const membership = user.organizationMemberships[0];
+  const activity: Prisma.OrganizationActivityCreateManyInput[] = [];
+  const activate = changes.active === true && !membership;
+  // Only accounts created through SCIM are added back without an invitation
+  const addMember = activate && !!user.scimIdentities[0]?.createdAccount;
+
+  if (activate) {
+    await assertVerifiedDomain(organization.id, user.email);
+    await assertFreeSeat(organization);
+  }
+
+  if (changes.active === false && membership?.role === OrganizationRole.OWNER) {
+    throw new ScimError(
+      400,
+      "The organization owner cannot be deactivated",
+      "mutability"
+    );
+  }
+
+  const operations: Prisma.PrismaPromise<unknown>[] = [
+    prisma.organizationScimUser.upsert({
+      where: {
+        organizationId_userId: {
+          organizationId: organization.id,
+          userId: user.id,
+        },
+      },
+      create: {
+        organizationId: organization.id,
+        userId: user.id,
+        externalId: changes.externalId,
+        active: changes.active ?? !!membership,
+      },
+      update: {
+        externalId: changes.externalId,
+        active: changes.active,
+      },
+    }),
+  ];
+
+  if (changes.name && changes.name !== user.name) {
+    operations.push(
+      prisma.user.update({
+        where: { id: user.id },
+        data: { name: changes.name },
+      })
+    );
+    activity.push({
+      organizationId: organization.id,
+      action: "member_updated",
+      entityType: "user",
+      entityId: user.id,
+      metadata: scimActivityMetadata(token, {
+        changes: { name: changes.name },
+      }),
+    });
+  }
+
+  if (addMember) {
+    operations.push(
+      prisma.organizationMembership.create({
+        data: {
+          organizationId: organization.id,
+          userId: user.id,
+          role: OrganizationRole.MEMBER,
+        },
+      })
+    );
+    activity.push({
+      organizationId: organization.id,
+      action: "member_joined",
+      entityType: "user",
+      entityId: user.id,
+      metadata: scimActivityMetadata(token, { reactivated: true }),
+    });
+  }
+
+  if (changes.active === false && membership) {
+    operations.push(
+      prisma.organizationMembership.delete({ where: { id: membership.id } })
+    );
+    activity.push({
+      organizationId: organization.id,
+      action: "member_deactivated",
+      entityType: "user",
+      entityId: user.id,
+      metadata: scimActivityMetadata(token),
+    });
+  }
+
+  await prisma.$transaction([
+    ...operations,
+    prisma.organizationActivity.createMany({ data: activity }),
+  ]);
+
+  if (changes.active === false && membership) {
+    await releaseMemberLicenseSeats({
+      organizationId: organization.id,
+      userId: user.id,
+      revokedBy: null,
+    });
+  }
+
+  if (activate && !addMember) {
+    await inviteExistingAccount(token, user.email);
+  }
+
+  return getScimUser(organization.id, user.id);
+}
+
+export async function replaceScimUser(
+  token: ScimToken,
+  userId: string,
+  body: unknown
+) {
+  const user = await findScimUser(token.organizationId, userId);
+  const input = parseScimUser(body);
+
+  return updateScimUser(token, user, {
+    name: getScimUserName(input, user.email),
+    externalId: input.externalId ?? null,
+    active: input.active === undefined || toScimBoolean(input.active),
+  });
+}
+
+export async function patchScimUser(
+  token: ScimToken,
+  userId: string,
+  operations: ScimPatchOperation[]
+) {
+  const user = await findScimUser(token.organizationId, userId);
+  const changes: {
+    name?: string;
+    externalId?: string | null;
+    active?: boolean;
+  } = {};
+
+  // Without a path the value holds the attributes to change
+  const attributes = operations.flatMap((operation) =>
+    operation.path
+      ? [[operation.path, operation.op === "remove" ? null : operation.value]]
+      : Object.entries((operation.value as Record<string, unknown>) ?? {})
+  );
+
+  for (const [path, value] of attributes as [string, unknown][]) {
+    switch (path.toLowerCase()) {
+      case "active":
+        changes.active = toScimBoolean(value);
+        break;
+      case "externalid":
+        changes.externalId = typeof value === "string" ? value : null;
+        break;
+      case "displayname":
+      case "name.formatted":
+        if (typeof value === "string" && value) changes.name = value;
+        break;
+      case "name": {
+        const name = value as ScimUserInput["name"];
+        const fullName = [name?.givenName, name?.familyName]
+          .filter(Boolean)
+          .join(" ");
+
+        changes.name = name?.formatted || fullName || changes.name;
+        break;
+      }
+    }
+  }
+
+  return updateScimUser(token, user, changes);
+}
+
+// Removes the user from the organization entirely. The account and its
+// learning history are kept.
+export async function deleteScimUser(token: ScimToken, userId: string) {
+  const { organization } = token;
+  const user = await findScimUser(organization.id, userId);
+  const membership = user.organizationMemberships[0];
+
+  if (membership?.role === OrganizationRole.OWNER) {
+    throw new ScimError(
+      400,
+      "The organization owner cannot be removed",
+      "mutability"
+    );
+  }
+
+  await prisma.$transaction([
+    prisma.organizationMembership.deleteMany({
+      where: { organizationId: organization.id, userId: user.id },
+    }),
+    prisma.organizationScimUser.deleteMany({
+      where: { organizationId: organization.id, userId: user.id },
+    }),
+    prisma.organizationActivity.create({
+      data: {
+        organizationId: organization.id,
+        action: "member_removed",
+        entityType: "user",
+        entityId: user.id,
+        metadata: scimActivityMetadata(token, { removedUser: user.id }),
+      },
+    }),
+  ]);
+
+  await releaseMemberLicenseSeats({
+    organizationId: organization.id,
+    userId: user.id,
+    revokedBy: null,
+  });
+}
@@ -0,0 +1,170 @@
+import { symmetricDecrypt, symmetricEncrypt } from "better-auth/crypto";
+import { prisma } from "./db";
+import { env } from "./env";
+import { OrganizationRole } from "./generated/prisma";
+import { getEmailDomain } from "./organization-domain-join";
+import { isOrganizationActive } from "./organization-status";
+
+export type OidcProviderMetadata = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+};
+
+const DISCOVERY_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+const discoveryCache = new Map<
+  string,
+  { metadata: OidcProviderMetadata; expiresAt: number }
+>();
+
+// Reads the provider endpoints from the issuer's discovery document
+export async function discoverOidcProvider(
+  issuer: string
+): Promise<OidcProviderMetadata> {
+  const cached = discoveryCache.get(issuer);
+
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.metadata;
+  }
+
+  const response = await fetch(
+    `${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`
+  );
+
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed with status ${response.status}`);
+  }
+
+  const metadata = (await response.json()) as OidcProviderMetadata;
+
+  if (
+    !metadata.authorization_endpoint ||
+    !metadata.token_endpoint ||
+    !metadata.jwks_uri
+  ) {
+    throw new Error("OIDC discovery document is missing required endpoints");
+  }
+
+  discoveryCache.set(issuer, {
+    metadata,
+    expiresAt: Date.now() + DISCOVERY_CACHE_TTL,
+  });
+
+  return metadata;
+}
+
+export function encryptClientSecret(clientSecret: string) {
+  return symmetricEncrypt({ key: env.BETTER_AUTH_SECRET, data: clientSecret });
+}
+
+export function decryptClientSecret(clientSecret: string) {
+  return symmetricDecrypt({ key: env.BETTER_AUTH_SECRET, data: clientSecret });
+}
+
+// Account provider id of an organization's identity provider
+export function getSsoProviderId(connectionId: string) {
+  return `sso:${connectionId}`;
+}
+
+// Enabled connection claiming the domain of the email address, if any. The
+// organization must have verified the domain.
+export async function findSsoConnectionForEmail(email: string) {
+  const domain = getEmailDomain(email);
+
+  if (!domain) {
+    return null;
+  }
+
+  return prisma.organizationSsoConnection.findFirst({
+    where: {
+      enabled: true,
+      allowedDomains: {
+        has: domain,
+      },
+      organization: {
+        domainVerifications: {
+          some: {
+            domain: domain,
+            verifiedAt: {
+              not: null,
+            },
+          },
+        },
+      },
+    },
+    include: {
+      organization: true,
+    },
+  });
+}
+
+export type SsoProvisioningResult =
+  | { success: true }
+  | { success: false; error: "organization_inactive" | "seat_limit_reached" };
+
+// Places a user signing in through SSO into the organization of the
+// connection, creating the membership on their first sign-in
+export async function provisionSsoMember({
+  organization,
+  userId,
+}: {
+  organization: {
+    id: string;
+    maxSeats: number;
+    status: string;
+    trialEndsAt: Date | null;
+  };
+  userId: string;
+}): Promise<SsoProvisioningResult> {
+  if (!isOrganizationActive(organization)) {
+    return { success: false, error: "organization_inactive" };
+  }
+
+  const membership = await prisma.organizationMembership.findUnique({
+    where: {
+      organizationId_userId: {
+        organizationId: organization.id,
+        userId: userId,
+      },
+    },
+  });
+
+  if (membership) {
+    return { success: true };
+  }
+
+  const memberCount = await prisma.organizationMembership.count({
+    where: {
+      organizationId: organization.id,
+    },
+  });
+
+  if (memberCount >= organization.maxSeats) {
+    return { success: false, error: "seat_limit_reached" };
+  }
+
+  await prisma.$transaction([
+    prisma.organizationMembership.create({
+      data: {
+        organizationId: organization.id,
+        userId: userId,
+        role: OrganizationRole.MEMBER,
+      },
+    }),
+    prisma.organizationActivity.create({
+      data: {
+        organizationId: organization.id,
+        userId: userId,
+        action: "member_joined",
+        entityType: "user",
+        entityId: userId,
+        metadata: { source: "sso" },
+      },
+    }),
+  ]);
+
+  return { success: true };
+}
@@ -0,0 +1,66 @@
+export type OrganizationAccessState =
+  | "active"
+  | "trial"
+  | "trial_expired"
+  | "suspended"
+  | "cancelled";
+
+export type OrganizationAccess = {
+  state: OrganizationAccessState;
+  // Whole days until the trial ends, only set while the trial is running
+  trialDaysLeft: number | null;
+  isActive: boolean;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Trials count as expired as soon as trialEndsAt passes, even before the
+// scheduled job has moved the organization out of TRIAL
+export function getOrganizationAccess(
+  organization: { status: string; trialEndsAt?: Date | string | null },
+  now: Date = new Date()
+): OrganizationAccess {
+  if (organization.status === "SUSPENDED") {
+    return { state: "suspended", trialDaysLeft: null, isActive: false };
+  }
+
+  if (organization.status === "CANCELLED") {
+    return { state: "cancelled", trialDaysLeft: null, isActive: false };
+  }
+
+  if (organization.status === "TRIAL") {
+    const trialEndsAt = organization.trialEndsAt
+      ? new Date(organization.trialEndsAt)
+      : null;
+
+    if (trialEndsAt && trialEndsAt <= now) {
+      return { state: "trial_expired", trialDaysLeft: null, isActive: false };
+    }
+
+    return {
+      state: "trial",
+      trialDaysLeft: trialEndsAt
+        ? Math.ceil((trialEndsAt.getTime() - now.getTime()) / DAY)
+        : null,
+      isActive: true,
+    };
+  }
+
+  return { state: "active", trialDaysLeft: null, isActive: true };
+}
+
+export function isOrganizationActive(organization: {
+  status: string;
+  trialEndsAt?: Date | string | null;
+}) {
+  return getOrganizationAccess(organization).isActive;
+}
+
+export const inactiveOrganizationMessages: Record<
+  Exclude<OrganizationAccessState, "active" | "trial">,
+  string
+> = {
+  trial_expired: "Your organization's trial has ended",
+  suspended: "Your organization has been suspended",
+  cancelled: "Your organization's subscription has been cancelled",
+};
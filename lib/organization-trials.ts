@@ -0,0 +1,132 @@
+import "server-only";
+
+import { prisma } from "./db";
+import { OrganizationStatus } from "./generated/prisma";
+import {
+  sendTrialExpiredEmail,
+  sendTrialReminderEmail,
+} from "./organization-emails";
+import { getOrganizationAccess } from "./organization-status";
+
+const TRIAL_REMINDER_DAYS = [7, 3, 1];
+
+// Seats of a new organization, more seats come with a paid subscription
+export const TRIAL_SEATS = 5;
+
+export type TrialJobResult = {
+  expired: number;
+  remindersSent: number;
+  failures: number;
+};
+
+// Run once a day: suspends lapsed trials and emails owners 7, 3 and 1 days
+// before their trial ends. Sent reminders are recorded as organization
+// activity so re-running the job never emails twice.
+export async function processOrganizationTrials(
+  now: Date = new Date()
+): Promise<TrialJobResult> {
+  const result: TrialJobResult = { expired: 0, remindersSent: 0, failures: 0 };
+
+  const organizations = await prisma.organization.findMany({
+    where: {
+      status: OrganizationStatus.TRIAL,
+      trialEndsAt: {
+        not: null,
+      },
+    },
+    select: {
+      id: true,
+      name: true,
+      trialEndsAt: true,
+      status: true,
+      owner: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+  });
+
+  for (const organization of organizations) {
+    const access = getOrganizationAccess(organization, now);
+
+    try {
+      if (access.state === "trial_expired") {
+        await prisma.$transaction([
+          prisma.organization.update({
+            where: { id: organization.id },
+            data: { status: OrganizationStatus.SUSPENDED },
+          }),
+          prisma.organizationActivity.create({
+            data: {
+              organizationId: organization.id,
+              action: "trial_expired",
+              entityType: "organization",
+              entityId: organization.id,
+              metadata: { trialEndsAt: organization.trialEndsAt },
+            },
+          }),
+        ]);
+        result.expired++;
+
+        await sendTrialExpiredEmail({
+          email: organization.owner.email,
+          name: organization.owner.name,
+          organizationName: organization.name,
+        });
+        continue;
+      }
+
+      const daysLeft = access.trialDaysLeft;
+
+      if (daysLeft === null || !TRIAL_REMINDER_DAYS.includes(daysLeft)) {
+        continue;
+      }
+
+      const alreadySent = await prisma.organizationActivity.count({
+        where: {
+          organizationId: organization.id,
+          action: "trial_reminder_sent",
+          metadata: {
+            path: ["daysLeft"],
+            equals: daysLeft,
+          },
+        },
+      });
+
+      if (alreadySent > 0) {
+        continue;
+      }
+
+      await sendTrialReminderEmail({
+        email: organization.owner.email,
+        name: organization.owner.name,
+        organizationName: organization.name,
+        daysLeft: daysLeft,
+        trialEndsAt: organization.trialEndsAt as Date,
+      });
+
+      await prisma.organizationActivity.create({
+        data: {
+          organizationId: organization.id,
+          userId: organization.owner.id,
+          action: "trial_reminder_sent",
+          entityType: "organization",
+          entityId: organization.id,
+          metadata: { daysLeft: daysLeft },
+        },
+      });
+      result.remindersSent++;
+    } catch (error) {
+      result.failures++;
+      console.error(
+        `Failed to process trial of organization ${organization.id}:`,
+        error
+      );
+    }
+  }
+
+  return result;
+}
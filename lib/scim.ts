@@ -0,0 +1,131 @@
+import { env } from "./env";
+
+// Protocol helpers for the SCIM 2.0 API (RFC 7643 / RFC 7644)
+
+export const SCIM_USER_SCHEMA = "urn:ietf:params:scim:schemas:core:2.0:User";
+export const SCIM_GROUP_SCHEMA = "urn:ietf:params:scim:schemas:core:2.0:Group";
+export const SCIM_LIST_RESPONSE_SCHEMA =
+  "urn:ietf:params:scim:api:messages:2.0:ListResponse";
+export const SCIM_ERROR_SCHEMA = "urn:ietf:params:scim:api:messages:2.0:Error";
+
+const SCIM_MAX_PAGE_SIZE = 100;
+
+export const scimBaseUrl = `${env.BETTER_AUTH_URL}/api/scim/v2`;
+
+// Thrown by the provisioning functions and turned into a SCIM error response
+export class ScimError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public scimType?: string
+  ) {
+    super(message);
+  }
+}
+
+export function scimResponse(body: unknown, status = 200) {
+  return new Response(body === null ? null : JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/scim+json" },
+  });
+}
+
+export function scimErrorResponse(error: ScimError) {
+  return scimResponse(
+    {
+      schemas: [SCIM_ERROR_SCHEMA],
+      status: String(error.status),
+      scimType: error.scimType,
+      detail: error.message,
+    },
+    error.status
+  );
+}
+
+export function scimListResponse<T>({
+  resources,
+  totalResults,
+  startIndex,
+}: {
+  resources: T[];
+  totalResults: number;
+  startIndex: number;
+}) {
+  return scimResponse({
+    schemas: [SCIM_LIST_RESPONSE_SCHEMA],
+    totalResults,
+    startIndex,
+    itemsPerPage: resources.length,
+    Resources: resources,
+  });
+}
+
+// SCIM pages are 1-based
+export function getScimPagination(searchParams: URLSearchParams) {
+  const startIndex = Math.max(
+    1,
+    Number.parseInt(searchParams.get("startIndex") ?? "1", 10) || 1
+  );
+  const count = Math.min(
+    SCIM_MAX_PAGE_SIZE,
+    Math.max(
+      0,
+      Number.parseInt(searchParams.get("count") ?? "", 10) || SCIM_MAX_PAGE_SIZE
+    )
+  );
+
+  return { startIndex, count };
+}
+
+export type ScimFilter = { attribute: string; value: string };
+
+// Identity providers only look resources up by a single attribute, e.g.
+// `userName eq "jane@acme.com"`, so that is the only filter we support
+export function parseScimFilter(filter: string | null): ScimFilter | null {
+  if (!filter) {
+    return null;
+  }
+
+  const match = filter.trim().match(/^([\w.]+)\s+eq\s+"((?:[^"\\]|\\.)*)"$/i);
+
+  if (!match) {
+    throw new ScimError(400, "Unsupported filter", "invalidFilter");
+  }
+
+  return { attribute: match[1], value: match[2].replace(/\\(.)/g, "$1") };
+}
+
+export type ScimPatchOperation = {
+  op: string;
+  path?: string;
+  value?: unknown;
+};
+
+export function getScimPatchOperations(body: unknown): ScimPatchOperation[] {
+  const operations = (body as { Operations?: unknown })?.Operations;
+
+  if (
+    !Array.isArray(operations) ||
+    operations.some(
+      (operation) =>
+        typeof operation?.op !== "string" ||
+        !["add", "replace", "remove"].includes(operation.op.toLowerCase())
+    )
+  ) {
+    throw new ScimError(400, "Invalid patch operations", "invalidSyntax");
+  }
+
+  return operations.map((operation) => ({
+    ...operation,
+    op: operation.op.toLowerCase(),
+  }));
+}
+
+// Some providers send booleans as "True"/"False" strings
+export function toScimBoolean(value: unknown) {
+  if (typeof value === "string") {
+    return value.toLowerCase() === "true";
+  }
+
+  return Boolean(value);
+}
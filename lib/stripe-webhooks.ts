@@ -0,0 +1,358 @@
+import "server-only";
+
+import Stripe from "stripe";
+import { prisma } from "./db";
+import { recordChargeDispute, recordChargeRefund } from "./enrollment-refunds";
+import { Prisma, StripeEventStatus } from "./generated/prisma";
+import {
+  markOrganizationSubscriptionPastDue,
+  syncOrganizationSubscription,
+} from "./organization-billing";
+
+// Events left in PROCESSING for longer than this are treated as crashed and
+// may be claimed again by a retried delivery
+const STALE_PROCESSING_MINUTES = 10;
+
+// Handlers may call the Stripe API while their transaction is open
+const HANDLER_TIMEOUT_MS = 30 * 1000;
+
+type StripeEventOutcome = "processed" | "ignored";
+
+// Handlers write through the transaction that also marks the event as
+// processed, so a handled event is never left to be applied twice
+type StripeEventHandlers = {
+  [T in Stripe.Event.Type]?: (
+    event: Extract<Stripe.Event, { type: T }>,
+    tx: Prisma.TransactionClient
+  ) => Promise<StripeEventOutcome>;
+};
+
+async function handleLicensePurchase(
+  session: Stripe.Checkout.Session,
+  tx: Prisma.TransactionClient
+) {
+  const organizationId = session.metadata?.organizationId;
+  const courseId = session.metadata?.courseId;
+  const seats = Number(session.metadata?.seats);
+  const unitAmount = Number(session.metadata?.unitAmount);
+
+  if (!organizationId || !courseId || !seats) {
+    throw new Error(
+      `Checkout session ${session.id} is missing license metadata`
+    );
+  }
+
+  const paymentIntentId =
+    typeof session.payment_intent === "string"
+      ? session.payment_intent
+      : session.payment_intent?.id ?? null;
+
+  // Top up an existing license or create the first one for this course
+  const license = await tx.courseLicense.upsert({
+    where: {
+      organizationId_courseId: {
+        organizationId: organizationId,
+        courseId: courseId,
+      },
+    },
+    update: {
+      seats: {
+        increment: seats,
+      },
+      purchasePrice: unitAmount,
+      totalAmount: {
+        increment: session.amount_total ?? 0,
+      },
+      stripePaymentIntentId: paymentIntentId,
+      status: "ACTIVE",
+    },
+    create: {
+      organizationId: organizationId,
+      courseId: courseId,
+      seats: seats,
+      purchasePrice: unitAmount,
+      totalAmount: session.amount_total ?? 0,
+      stripePaymentIntentId: paymentIntentId,
+    },
+  });
+
+  await tx.organizationActivity.create({
+    data: {
+      organizationId: organizationId,
+      userId: session.metadata?.userId || null,
+      action: "course_license_purchased",
+      entityType: "course_license",
+      entityId: license.id,
+      metadata: {
+        courseId: courseId,
+        seats: seats,
+        unitAmount: unitAmount,
+        totalAmount: session.amount_total,
+      },
+    },
+  });
+}
+
+async function handleOrganizationSubscriptionCheckout(
+  session: Stripe.Checkout.Session,
+  tx: Prisma.TransactionClient
+) {
+  const subscriptionId =
+    typeof session.subscription === "string"
+      ? session.subscription
+      : session.subscription?.id;
+
+  if (!subscriptionId) {
+    throw new Error(`Checkout session ${session.id} has no subscription`);
+  }
+
+  // Sync right away so the organization does not wait for the
+  // customer.subscription.* events, which may arrive later
+  await syncOrganizationSubscription(subscriptionId, tx);
+}
+
+async function handleCoursePurchase(
+  session: Stripe.Checkout.Session,
+  tx: Prisma.TransactionClient
+) {
+  const courseId = session.metadata?.courseId;
+  const enrollmentId = session.metadata?.enrollmentId;
+  const customerId =
+    typeof session.customer === "string"
+      ? session.customer
+      : session.customer?.id;
+
+  if (!courseId || !enrollmentId || !customerId) {
+    throw new Error(
+      `Checkout session ${session.id} is missing enrollment metadata`
+    );
+  }
+
+  const user = await tx.user.findUnique({
+    where: {
+      stripeCustomerId: customerId,
+    },
+    select: {
+      id: true,
+    },
+  });
+
+  if (!user) {
+    throw new Error(`No user found for Stripe customer ${customerId}`);
+  }
+
+  const enrollment = await tx.enrollment.update({
+    where: {
+      id: enrollmentId,
+    },
+    data: {
+      userId: user.id,
+      courseId: courseId,
+      amount: session.amount_total ?? 0,
+      discountAmount: session.total_details?.amount_discount ?? 0,
+      status: "Active",
+      stripePaymentIntentId:
+        typeof session.payment_intent === "string"
+          ? session.payment_intent
+          : session.payment_intent?.id ?? null,
+      // A new purchase of a refunded or disputed enrollment starts over
+      refundedAmount: 0,
+      cancelledAt: null,
+      disputedAt: null,
+    },
+  });
+
+  if (enrollment.couponId) {
+    await tx.coupon.update({
+      where: {
+        id: enrollment.couponId,
+      },
+      data: {
+        redemptionCount: {
+          increment: 1,
+        },
+      },
+    });
+  }
+}
+
+const handlers: StripeEventHandlers = {
+  "checkout.session.completed": async (event, tx) => {
+    const session = event.data.object;
+
+    switch (session.metadata?.type) {
+      case "course_license":
+        await handleLicensePurchase(session, tx);
+        return "processed";
+      case "organization_subscription":
+        await handleOrganizationSubscriptionCheckout(session, tx);
+        return "processed";
+      default:
+        // Sessions created outside of the course checkout carry no course
+        if (!session.metadata?.courseId) {
+          return "ignored";
+        }
+
+        await handleCoursePurchase(session, tx);
+        return "processed";
+    }
+  },
+  "customer.subscription.created": async (event, tx) => {
+    await syncOrganizationSubscription(event.data.object.id, tx);
+    return "processed";
+  },
+  "customer.subscription.updated": async (event, tx) => {
+    await syncOrganizationSubscription(event.data.object.id, tx);
+    return "processed";
+  },
+  "customer.subscription.deleted": async (event, tx) => {
+    await syncOrganizationSubscription(event.data.object.id, tx);
+    return "processed";
+  },
+  "invoice.payment_failed": async (event, tx) => {
+    await markOrganizationSubscriptionPastDue(event.data.object, tx);
+    return "processed";
+  },
+  "charge.refunded": async (event, tx) => {
+    return (await recordChargeRefund(event.data.object, tx))
+      ? "processed"
+      : "ignored";
+  },
+  "charge.dispute.created": async (event, tx) => {
+    return (await recordChargeDispute(event.data.object, tx))
+      ? "processed"
+      : "ignored";
+  },
+};
+
+export type StripeEventResult =
+  | "processed"
+  | "ignored"
+  | "duplicate"
+  | "failed";
+
+// Runs the handler of an event that was claimed as PROCESSING and stores the
+// outcome in the same transaction. Failures roll back and are kept with their
+// error so they can be replayed.
+async function runStripeEvent(event: Stripe.Event): Promise<StripeEventResult> {
+  const handler = handlers[event.type] as
+    | ((
+        event: Stripe.Event,
+        tx: Prisma.TransactionClient
+      ) => Promise<StripeEventOutcome>)
+    | undefined;
+
+  try {
+    return await prisma.$transaction(
+      async (tx) => {
+        const outcome = handler ? await handler(event, tx) : "ignored";
+
+        await tx.stripeWebhookEvent.update({
+          where: {
+            id: event.id,
+          },
+          data: {
+            status:
+              outcome === "processed"
+                ? StripeEventStatus.PROCESSED
+                : StripeEventStatus.IGNORED,
+            error: null,
+            processedAt: new Date(),
+          },
+        });
+
+        return outcome;
+      },
+      { timeout: HANDLER_TIMEOUT_MS }
+    );
+  } catch (error) {
+    console.error(`Failed to process Stripe event ${event.id}:`, error);
+
+    await prisma.stripeWebhookEvent.update({
+      where: {
+        id: event.id,
+      },
+      data: {
+        status: StripeEventStatus.FAILED,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    return "failed";
+  }
+}
+
+// Claims a failed event, or one stuck in PROCESSING after a crash, for
+// another attempt. Only one delivery can win the claim.
+async function reclaimStripeEvent(id: string) {
+  const { count } = await prisma.stripeWebhookEvent.updateMany({
+    where: {
+      id: id,
+      OR: [
+        {
+          status: StripeEventStatus.FAILED,
+        },
+        {
+          status: StripeEventStatus.PROCESSING,
+          updatedAt: {
+            lt: new Date(Date.now() - STALE_PROCESSING_MINUTES * 60 * 1000),
+          },
+        },
+      ],
+    },
+    data: {
+      status: StripeEventStatus.PROCESSING,
+      attempts: {
+        increment: 1,
+      },
+    },
+  });
+
+  return count > 0;
+}
+
+// Entry point of the webhook. Every event is stored by its id before it is
+// handled, so a retried delivery of a processed event is a no-op.
+export async function processStripeEvent(
+  event: Stripe.Event
+): Promise<StripeEventResult> {
+  const { count: created } = await prisma.stripeWebhookEvent.createMany({
+    data: {
+      id: event.id,
+      type: event.type,
+      payload: event as unknown as Prisma.InputJsonValue,
+      livemode: event.livemode,
+    },
+    skipDuplicates: true,
+  });
+
+  if (created === 0 && !(await reclaimStripeEvent(event.id))) {
+    return "duplicate";
+  }
+
+  return runStripeEvent(event);
+}
+
+// Runs a failed event again from its stored payload
+export async function replayStripeEvent(
+  id: string
+): Promise<StripeEventResult> {
+  const stored = await prisma.stripeWebhookEvent.findUnique({
+    where: {
+      id: id,
+    },
+    select: {
+      payload: true,
+    },
+  });
+
+  if (!stored) {
+    throw new Error("Webhook event not found");
+  }
+
+  if (!(await reclaimStripeEvent(id))) {
+    return "duplicate";
+  }
+
+  return runStripeEvent(stored.payload as unknown as Stripe.Event);
+}
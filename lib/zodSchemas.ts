@@ -29,9 +29,11 @@ export const courseSchema = z.object({
 
   fileKey: z.string().min(1, { message: "File is required" }),
 
+  // 0 makes the course free, learners enroll without checkout
   price: z.coerce
     .number()
-    .min(1, { message: "Price must be a positive number" }),
+    .int({ message: "Price must be a whole number" })
+    .min(0, { message: "Price cannot be negative" }),
 
   duration: z.coerce
     .number()
@@ -80,8 +82,235 @@ export const lessonSchema = z.object({
 
   videoKey: z.string().optional(),
   thumbnailKey: z.string().optional(),
+  isFreePreview: z.boolean().optional(),
 });
 
+export const courseLicensePurchaseSchema = z.object({
+  seats: z.coerce
+    .number()
+    .int({ message: "Seats must be a whole number" })
+    .min(1, { message: "Must purchase at least 1 seat" })
+    .max(1000, { message: "Maximum 1000 seats per purchase" }),
+});
+
+export const enrollmentRefundSchema = z.object({
+  // In dollars, left empty to refund everything that was not refunded yet
+  amount: z.string().refine((value) => value === "" || Number(value) > 0, {
+    message: "Amount must be greater than 0",
+  }),
+  reason: z.enum(["requested_by_customer", "duplicate", "fraudulent"], {
+    message: "Please choose a reason",
+  }),
+  note: z.string().max(500, { message: "Note must be at most 500 characters" }),
+});
+
+export const couponSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z0-9]{3,30}$/, {
+        message: "Code must be 3 to 30 letters or digits",
+      }),
+    name: z
+      .string()
+      .max(100, { message: "Name must be at most 100 characters" }),
+    discountType: z.enum(["PERCENT", "FIXED"]),
+    // Percent off, or dollars off for fixed discounts
+    value: z.coerce
+      .number()
+      .positive({ message: "Discount must be greater than 0" }),
+    courseIds: z.array(z.string()),
+    maxRedemptions: z
+      .string()
+      .refine(
+        (value) =>
+          value === "" ||
+          (Number.isInteger(Number(value)) && Number(value) > 0),
+        { message: "Must be a whole number greater than 0" }
+      ),
+    // yyyy-mm-dd from the date input, empty for no expiry
+    expiresAt: z
+      .string()
+      .refine((value) => value === "" || !Number.isNaN(Date.parse(value)), {
+        message: "Please pick a valid date",
+      }),
+  })
+  .refine(
+    (value) =>
+      value.discountType !== "PERCENT" ||
+      (Number.isInteger(value.value) && value.value <= 100),
+    {
+      message: "Percent off must be a whole number up to 100",
+      path: ["value"],
+    }
+  );
+
+export const organizationSubscriptionSchema = z.object({
+  planId: z.string().min(1, { message: "Please choose a plan" }),
+  interval: z.enum(["MONTHLY", "YEARLY"]),
+  seats: z.coerce
+    .number()
+    .int({ message: "Seats must be a whole number" })
+    .min(1, { message: "Must have at least 1 seat" })
+    .max(1000, { message: "Maximum 1000 seats allowed" }),
+});
+
+export const bulkInviteRowSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email({ message: "Invalid email address" }),
+  role: z.preprocess(
+    (value) =>
+      typeof value === "string" && value.trim() !== ""
+        ? value.trim().toUpperCase()
+        : "MEMBER",
+    z.enum(["ADMIN", "MEMBER"], { message: "Role must be ADMIN or MEMBER" })
+  ),
+  courses: z
+    .string()
+    .optional()
+    .transform((value) =>
+      (value ?? "")
+        .split(/[;|\s]+/)
+        .map((slug) => slug.trim())
+        .filter(Boolean)
+    ),
+  // Group names may contain spaces, so only ; and | separate them
+  groups: z
+    .string()
+    .optional()
+    .transform((value) =>
+      (value ?? "")
+        .split(/[;|]+/)
+        .map((name) => name.trim())
+        .filter(Boolean)
+    ),
+});
+
+export const inviteMemberSchema = z.object({
+  email: z.string().email({ message: "Please enter a valid email address" }),
+  role: z.enum(["ADMIN", "MEMBER"], { message: "Role is required" }),
+  message: z
+    .string()
+    .max(500, { message: "Message must be at most 500 characters" })
+    .optional(),
+  groupIds: z.array(z.string()),
+});
+
+export const organizationGroupSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, { message: "Group name is required" })
+    .max(100, { message: "Group name must be at most 100 characters" }),
+  description: z
+    .string()
+    .max(500, { message: "Description must be at most 500 characters" }),
+});
+
+export const organizationSettingsSchema = z.object({
+  name: z
+    .string()
+    .min(2, { message: "Organization name must be at least 2 characters" })
+    .max(100, { message: "Organization name must be at most 100 characters" }),
+  description: z
+    .string()
+    .max(500, { message: "Description must be at most 500 characters" }),
+  contactEmail: z
+    .string()
+    .email({ message: "Please enter a valid contact email" })
+    .or(z.literal("")),
+  // Comma separated in the form, split into a list before saving
+  domains: z.string().refine(
+    (value) =>
+      value
+        .split(",")
+        .map((domain) => domain.trim())
+        .filter(Boolean)
+        .every((domain) => /^@?[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(domain)),
+    { message: "Please enter valid domains, e.g. acme.com, acme.io" }
+  ),
+  allowSelfSignup: z.boolean(),
+  requireAdminApproval: z.boolean(),
+  // Days without activity before a member loses their seat
+  autoDeactivateAfterDays: z.enum(["off", "30", "60", "90", "180"]),
+});
+
+export const organizationBrandingSchema = z.object({
+  logo: z.string(),
+  displayName: z
+    .string()
+    .max(100, { message: "Display name must be at most 100 characters" }),
+  brandColor: z
+    .string()
+    .regex(/^#[0-9a-f]{6}$/i, {
+      message: "Please enter a hex color, e.g. #4f46e5",
+    })
+    .or(z.literal("")),
+  emailSenderName: z
+    .string()
+    .max(60, { message: "Sender name must be at most 60 characters" })
+    .regex(/^[^<>",]*$/, {
+      message: "Sender name cannot contain <, >, quotes or commas",
+    }),
+});
+
+export const ssoConnectionSchema = z.object({
+  issuer: z.string().url({ message: "Please enter the issuer URL" }),
+  clientId: z.string().min(1, { message: "Client ID is required" }),
+  // Left empty to keep the stored secret
+  clientSecret: z.string(),
+  allowedDomains: z.string().refine(
+    (value) => {
+      const domains = value
+        .split(",")
+        .map((domain) => domain.trim())
+        .filter(Boolean);
+
+      return (
+        domains.length > 0 &&
+        domains.every((domain) => /^@?[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(domain))
+      );
+    },
+    { message: "Please enter at least one domain, e.g. acme.com" }
+  ),
+  enabled: z.boolean(),
+});
+
+export const courseAssignmentSchema = z
+  .object({
+    courseId: z.string().uuid({ message: "Please select a course" }),
+    name: z
+      .string()
+      .max(100, { message: "Name must be at most 100 characters" }),
+    targetType: z.enum(["ALL", "ROLE", "GROUP", "USERS"], {
+      message: "Please choose who gets the course",
+    }),
+    targetRole: z.enum(["OWNER", "ADMIN", "MEMBER"]).optional(),
+    targetGroupId: z.string().optional(),
+    userIds: z.array(z.string()),
+    // yyyy-mm-dd from the date input
+    dueDate: z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+      message: "Please pick a due date",
+    }),
+  })
+  .refine((value) => value.targetType !== "ROLE" || value.targetRole, {
+    message: "Please choose a role",
+    path: ["targetRole"],
+  })
+  .refine((value) => value.targetType !== "GROUP" || value.targetGroupId, {
+    message: "Please choose a group",
+    path: ["targetGroupId"],
+  })
+  .refine((value) => value.targetType !== "USERS" || value.userIds.length > 0, {
+    message: "Please select at least one member",
+    path: ["userIds"],
+  });
+
 // Organization Signup Schemas
 export const organizationSignupSchema = z.object({
   // Organization Details
@@ -139,6 +368,15 @@ export const organizationSignupSchema = z.object({
     .min(1, { message: "Must have at least 1 seat" })
     .max(1000, { message: "Maximum 1000 seats allowed" }),
 
+  // Branding
+  brandColor: z
+    .string()
+    .regex(/^#[0-9a-f]{6}$/i, {
+      message: "Please enter a hex color, e.g. #4f46e5",
+    })
+    .optional()
+    .or(z.literal("")),
+
   // Terms acceptance
   acceptTerms: z.boolean().refine((val) => val === true, {
     message: "You must accept the terms and conditions",
@@ -151,3 +389,24 @@ export type OrganizationSignupSchemaType = z.infer<
 export type CourseSchemaType = z.infer<typeof courseSchema>;
 export type ChapterSchemaType = z.infer<typeof chapterSchema>;
 export type LessonSchemaType = z.infer<typeof lessonSchema>;
+export type BulkInviteRowSchemaType = z.infer<typeof bulkInviteRowSchema>;
+export type InviteMemberSchemaType = z.infer<typeof inviteMemberSchema>;
+export type OrganizationGroupSchemaType = z.infer<
+  typeof organizationGroupSchema
+>;
+export type OrganizationSettingsSchemaType = z.infer<
+  typeof organizationSettingsSchema
+>;
+export type OrganizationBrandingSchemaType = z.infer<
+  typeof organizationBrandingSchema
+>;
+export type SsoConnectionSchemaType = z.infer<typeof ssoConnectionSchema>;
+export type CourseAssignmentSchemaType = z.infer<typeof courseAssignmentSchema>;
+export type OrganizationSubscriptionSchemaType = z.infer<
+  typeof organizationSubscriptionSchema
+>;
+export type EnrollmentRefundSchemaType = z.infer<typeof enrollmentRefundSchema>;
+export type CouponSchemaType = z.infer<typeof couponSchema>;
+export type CourseLicensePurchaseSchemaType = z.infer<
+  typeof courseLicensePurchaseSchema
+>;
@@ -14,6 +14,7 @@ const aj = arcjet({
         "CATEGORY:MONITOR",
         "CATEGORY:PREVIEW",
         "STRIPE_WEBHOOK",
+        "CATEGORY:VERCEL", // Scheduled jobs, see vercel.json
 
         // Google, Bing, etc
         // Uncomment to allow these other common bot categories
@@ -37,8 +38,8 @@ async function authMiddleware(request: NextRequest) {
 }
 
 export const config = {
-  // Run on all routes except static assets, API auth routes, and favicon
-  matcher: ["/((?!_next/static|_next/image|favicon.ico|api/auth).*)"],
+  // Run on all routes except static assets, API auth and SCIM routes, and favicon
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|api/auth|api/scim).*)"],
 };
 
 // Combine Arcjet with your existing middleware
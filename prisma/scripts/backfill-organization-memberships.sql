@@ -0,0 +1,56 @@
+-- Copies the single organization membership stored on "user" into the
+-- organization_membership table. Run it once against databases created before
+-- users could join several organizations, BEFORE `prisma db push` drops the
+-- "user"."organizationId", "organizationRole" and "joinedOrganizationAt"
+-- columns:
+--
+--   pnpm db:backfill-memberships
+--   pnpm prisma db push
+--
+-- Running it again is safe, existing memberships are kept.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "organization_membership" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "OrganizationRole" NOT NULL DEFAULT 'MEMBER',
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "organization_membership_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "organization_membership_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organization"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "organization_membership_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "organization_membership_organizationId_userId_key" ON "organization_membership"("organizationId", "userId");
+CREATE INDEX IF NOT EXISTS "organization_membership_organizationId_idx" ON "organization_membership"("organizationId");
+CREATE INDEX IF NOT EXISTS "organization_membership_userId_idx" ON "organization_membership"("userId");
+
+-- Owners always get the OWNER role, whatever was stored on the user
+INSERT INTO "organization_membership" ("id", "organizationId", "userId", "role", "joinedAt")
+SELECT
+    gen_random_uuid()::text,
+    u."organizationId",
+    u."id",
+    CASE
+        WHEN o."ownerId" = u."id" THEN 'OWNER'::"OrganizationRole"
+        ELSE COALESCE(u."organizationRole", 'MEMBER'::"OrganizationRole")
+    END,
+    COALESCE(u."joinedOrganizationAt", u."createdAt")
+FROM "user" u
+JOIN "organization" o ON o."id" = u."organizationId"
+ON CONFLICT ("organizationId", "userId") DO NOTHING;
+
+-- Owners who were never linked through "user"."organizationId"
+INSERT INTO "organization_membership" ("id", "organizationId", "userId", "role", "joinedAt")
+SELECT
+    gen_random_uuid()::text,
+    o."id",
+    o."ownerId",
+    'OWNER'::"OrganizationRole",
+    o."createdAt"
+FROM "organization" o
+ON CONFLICT ("organizationId", "userId") DO NOTHING;
+
+COMMIT;
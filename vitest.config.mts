@@ -0,0 +1,35 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname),
+      // Next.js resolves "server-only" to an empty module on the server
+      "server-only": "next/dist/compiled/server-only/empty.js",
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", ".next/**"],
+    env: {
+      DATABASE_URL: "postgresql://localhost:5432/test",
+      BETTER_AUTH_SECRET: "test-secret-test-secret-test-secret",
+      BETTER_AUTH_URL: "http://localhost:3000",
+      AUTH_GITHUB_CLIENT_ID: "test",
+      AUTH_GITHUB_SECRET: "test",
+      RESEND_API_KEY: "test",
+      ARCJET_KEY: "test",
+      AWS_ACCESS_KEY_ID: "test",
+      AWS_SECRET_ACCESS_KEY: "test",
+      AWS_ENDPOINT_URL_S3: "http://localhost:9000",
+      AWS_ENDPOINT_URL_IAM: "http://localhost:9000",
+      AWS_REGION: "auto",
+      STRIPE_SECRET_KEY: "sk_test_123",
+      STRIPE_WEBHOOK_SECRET: "whsec_test",
+      CRON_SECRET: "test",
+      NEXT_PUBLIC_S3_BUCKET_NAME_IMAGES: "test",
+    },
+  },
+});